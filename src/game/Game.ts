@@ -1,43 +1,38 @@
 import { HUD } from '../ui/HUD';
-import { PauseOverlay, type PauseOverlayPlayerModifier } from '../ui/PauseOverlay';
+import { PauseOverlay } from '../ui/PauseOverlay';
 import { PowerDraftOverlay, DraftCancelledError } from '../ui/PowerDraftOverlay';
+import type { ReplayControls } from '../ui/ReplayControls';
 import type {
   DifficultyDefinition,
-  EnemyKind,
-  EnemyWaveScaling,
+  DraftOffer,
+  GameInput,
+  GameSnapshot,
   HudData,
-  ModifierRarity,
-  ModifierState,
-  RunModifierId,
+  RunModeConfig,
   Vector2,
   WaveStartAnnouncement,
 } from './types';
-import {
-  add,
-  clamp,
-  distanceSq,
-  distanceToSegmentSq,
-  length,
-  normalize,
-  randomRange,
-  scale,
-  subtract,
-} from './utils';
-import { Orb } from './entities/Orb';
-import type { Enemy } from './entities/Enemy';
-import {
-  AegisSentinel,
-  BulwarkGloob,
-  GloobZigzag,
-  Magnetron,
-  ShieldyGloob,
-  SplitterGloob,
-  Splitterling,
-  SporePuff,
-  WarpStalker,
-} from './entities/EnemyTypes';
-import { WaveManager } from './waves/WaveManager';
-import { MAJOR_MODIFIERS, UPGRADE_MODIFIERS, type DraftModifier } from './modifiers';
+import { clamp, cosmeticRandomRange, length, lerp, normalize, subtract } from './utils';
+import { GameCore, SIMULATION_STEP, type DamageNumberOptions, type GameCoreListener } from './GameCore';
+import { MODIFIER_EFFECTS } from './modifierEffects';
+import { MODIFIER_MAP, type DraftModifier } from './modifiers';
+import { createRunSeed } from './rng';
+import type { ReplayData } from './replay/Replay';
+import { ReplayPlayer } from './replay/ReplayPlayer';
+import { metaUpgradeBonus } from './profile';
+import { clearRunSave, storeRunSave, type RunSaveData } from './runSave';
+
+export interface GameOptions {
+  seed?: number;
+  mode?: RunModeConfig;
+  onRunEnded?: (snapshot: GameSnapshot) => void;
+  replay?: {
+    data: ReplayData;
+    controls: ReplayControls;
+  };
+  // Picks up a saved run at its wave checkpoint instead of starting fresh.
+  resume?: RunSaveData;
+}
 
 interface PointerState {
   dragging: boolean;
@@ -91,6 +86,13 @@ interface ImpactWave {
   color: string;
 }
 
+interface LightningBolt {
+  from: Vector2;
+  to: Vector2;
+  life: number;
+  maxLife: number;
+}
+
 interface BackgroundStar {
   xPercent: number;
   yPercent: number;
@@ -134,8 +136,11 @@ interface PerformanceProfile {
   maxParticles: number;
 }
 
+// Browser adapter around GameCore: owns the canvas renderer, cosmetic effects,
+// pointer input and the DOM overlays, and drives the core on a fixed step.
 export class Game {
   public readonly canvas: HTMLCanvasElement;
+  public readonly core: GameCore;
   private readonly ctx: CanvasRenderingContext2D;
   private readonly hud: HUD;
   private readonly draft: PowerDraftOverlay;
@@ -145,28 +150,20 @@ export class Game {
 
   public width: number;
   public height: number;
-  public readonly bottomSafeZone = 180;
-  public readonly baseEnemySpeed = 55;
   private floatingTextLimit: number;
   private readonly minDamageForFloatingText = 1;
 
-  public orbs: Orb[] = [];
-  public enemies: Enemy[] = [];
-
   private particles: Particle[] = [];
   private particlePool: Particle[] = [];
   private floatingTexts: FloatingText[] = [];
   private floatingTextPool: FloatingText[] = [];
   private impactWaves: ImpactWave[] = [];
+  private lightningBolts: LightningBolt[] = [];
   private backgroundStars: BackgroundStar[] = [];
   private backgroundRibbons: EnergyRibbon[] = [];
   private novaAnchor: Vector2 = { x: 0, y: 0 };
-  private novaCharge = 0;
-  private readonly novaChargeMax = 100;
-  private readonly novaChargePerKill = 7;
   private readonly novaName = 'Nova Pulse';
   private waveTransition: WaveTransitionEffect | null = null;
-  private waveIntroDelay = 0;
   private screenShakeOffset: Vector2 = { x: 0, y: 0 };
   private screenShakeTimer = 0;
   private screenShakeDuration = 0;
@@ -182,31 +179,22 @@ export class Game {
     direction: 0,
   };
 
-  private cannonPosition: Vector2;
-
   private running = false;
   private paused = false;
   private lastTime = 0;
-  private launchCooldown = 0;
+  private readonly fixedStep = SIMULATION_STEP;
+  private readonly maxStepsPerFrame = 12;
+  private readonly maxFrameTime = 0.25;
+  private accumulator = 0;
   private pauseInputCooldown = 0;
-
-  private score = 0;
-  private comboHeat = 0;
-  private comboTimer = 0;
-  private focus = 70;
-  private readonly maxLives = 3;
-  private lives: number;
-  private waveId = 'S1-W1';
-
-  private readonly waveManager: WaveManager;
-  private availableMajorModifiers: DraftModifier[];
-  public modifiers: ModifierState;
-  private drafting = false;
-  private pauseLocked = false;
-  private completedWaves = 0;
-  private enemyScaling: EnemyWaveScaling;
-  private playerModifierCounts = new Map<RunModifierId, number>();
-  private difficulty: DifficultyDefinition;
+  private pendingInputs: GameInput[] = [];
+  private readonly seedLocked: boolean;
+  private readonly runEndedHandler?: (snapshot: GameSnapshot) => void;
+  private gameOverTimeout?: number;
+  private readonly replayPlayer: ReplayPlayer | null = null;
+  private readonly replayControls: ReplayControls | null = null;
+  private replayEndAnnounced = false;
+  private pendingResume: RunSaveData | null;
 
   constructor(
     canvas: HTMLCanvasElement,
@@ -214,6 +202,7 @@ export class Game {
     draft: PowerDraftOverlay,
     pauseOverlay: PauseOverlay,
     difficulty: DifficultyDefinition,
+    options: GameOptions = {},
   ) {
     this.canvas = canvas;
     const context = canvas.getContext('2d');
@@ -229,15 +218,24 @@ export class Game {
 
     this.width = canvas.width;
     this.height = canvas.height;
-    this.cannonPosition = { x: this.width / 2, y: this.height - this.bottomSafeZone / 2 };
-    this.novaAnchor = { x: this.width / 2, y: this.height - this.bottomSafeZone / 2 };
 
-    this.waveManager = new WaveManager(this);
-    this.availableMajorModifiers = [...MAJOR_MODIFIERS];
-    this.modifiers = this.createInitialModifiers();
-    this.lives = this.maxLives;
-    this.enemyScaling = this.createDefaultEnemyScaling();
-    this.difficulty = difficulty;
+    this.seedLocked = options.seed !== undefined;
+    this.runEndedHandler = options.onRunEnded;
+    this.pendingResume = options.resume ?? null;
+    this.core = new GameCore({
+      difficulty,
+      mode: options.mode,
+      seed: options.seed,
+      width: this.width,
+      height: this.height,
+      listener: this.createCoreListener(),
+    });
+    if (options.replay) {
+      this.replayPlayer = new ReplayPlayer(this.core, options.replay.data);
+      this.replayControls = options.replay.controls;
+      this.bindReplayControls(this.replayControls);
+    }
+    this.novaAnchor = { ...this.core.cannonPosition };
 
     this.seedBackdrop();
 
@@ -246,7 +244,7 @@ export class Game {
     });
 
     this.pauseOverlay.onResumeRequested(() => {
-      if (this.paused && !this.pauseLocked) {
+      if (this.paused) {
         this.togglePause();
       }
     });
@@ -260,18 +258,24 @@ export class Game {
 
   start() {
     if (this.running) return;
+    if (this.core.isResumable && !this.replayPlayer && !this.pendingResume) {
+      // A fresh run takes over the single save slot.
+      clearRunSave();
+    }
     this.reset();
+    this.replayControls?.setVisible(this.replayPlayer !== null);
     this.running = true;
     this.paused = false;
     this.hud.setPaused(false);
     this.pauseOverlay.setVisible(false);
     this.lastTime = performance.now();
+    this.accumulator = 0;
     requestAnimationFrame(this.loop);
   }
 
   togglePause() {
     if (!this.running) return;
-    if (this.pauseLocked) return;
+    if (this.core.isDrafting) return;
     const wasPaused = this.paused;
     if (!wasPaused && this.pauseInputCooldown > 0) return;
 
@@ -288,14 +292,17 @@ export class Game {
     } else {
       this.pauseInputCooldown = 0;
       this.lastTime = performance.now();
+      this.accumulator = 0;
     }
   }
 
   dispose() {
     this.running = false;
     this.paused = false;
+    window.clearTimeout(this.gameOverTimeout);
     this.hud.setPaused(false);
     this.pauseOverlay.setVisible(false);
+    this.replayControls?.setVisible(false);
     this.reset();
     this.pauseOverlay.onResumeRequested(() => {});
     this.canvas.removeEventListener('pointerdown', this.onPointerDown);
@@ -305,14 +312,98 @@ export class Game {
     window.removeEventListener('resize', this.onResize);
   }
 
-  get hasActiveOrbs() {
-    return this.orbs.some((orb) => orb.alive);
+  get runSeed() {
+    return this.core.runSeed;
+  }
+
+  get isReplay() {
+    return this.replayPlayer !== null;
+  }
+
+  exportReplay() {
+    return this.replayPlayer ? this.replayPlayer.replay : this.core.exportReplay();
+  }
+
+  private bindReplayControls(controls: ReplayControls) {
+    controls.onTogglePlay(() => {
+      if (this.replayPlayer) {
+        this.replayPlayer.paused = !this.replayPlayer.paused;
+      }
+    });
+    controls.onSpeedChange((speed) => {
+      if (this.replayPlayer) {
+        this.replayPlayer.speed = speed;
+      }
+    });
+    controls.onSeek((wave) => this.seekReplay(wave));
+  }
+
+  private seekReplay(wave: number) {
+    if (!this.replayPlayer) return;
+    this.draft.cancel();
+    if (this.replayPlayer.seekToWave(wave)) {
+      this.resetPresentation();
+      this.replayEndAnnounced = false;
+      this.lastTime = performance.now();
+    }
+  }
+
+  private syncReplayControls() {
+    if (!this.replayPlayer || !this.replayControls) return;
+    this.replayControls.update({
+      paused: this.replayPlayer.paused,
+      speed: this.replayPlayer.speed,
+      wave: this.core.waveNumber,
+      waveCount: this.replayPlayer.waveCount,
+      progress: this.replayPlayer.progress,
+      finished: this.replayPlayer.finished,
+    });
   }
 
-  onWaveStart(info: WaveStartAnnouncement) {
-    this.waveId = info.blueprintId;
-    this.enemyScaling = { ...info.scaling };
+  private createCoreListener(): GameCoreListener {
+    return {
+      spawnParticles: (position, color, count, speed, radius) =>
+        this.spawnParticles(position, color, count, speed, radius),
+      spawnImpactWave: (position, maxRadius, duration, color) =>
+        this.spawnImpactWave(position, maxRadius, duration, color),
+      addScreenShake: (intensity, duration) => this.addScreenShake(intensity, duration),
+      showToast: (message, duration) => this.hud.showToast(message, duration),
+      damageDealt: (position, amount, options) => this.showDamageNumber(position, amount, options),
+      scoreAwarded: (position, score) => this.showScorePop(position, score),
+      waveStarted: (info) => this.handleWaveStarted(info),
+      waveCleared: (clearedWave, perfect) => this.handleWaveCleared(clearedWave, perfect),
+      novaCharged: (origin, becameReady) => {
+        if (becameReady) {
+          this.spawnNovaReadyPulse();
+        } else {
+          this.spawnNovaShards(origin);
+        }
+      },
+      novaActivated: (affected) => this.handleNovaActivated(affected),
+      lightningStruck: (origin, targets) => {
+        for (const target of targets) {
+          this.lightningBolts.push({ from: { ...origin }, to: target, life: 0.3, maxLife: 0.3 });
+        }
+      },
+      draftOffered: (offer) => {
+        if (!this.replayPlayer) {
+          void this.presentDraft(offer);
+        }
+      },
+      draftClosed: () => {
+        this.pauseInputCooldown = Math.max(this.pauseInputCooldown, 0.2);
+      },
+      modifierApplied: () => this.syncPlayerModifiersOverlay(),
+      checkpointReached: (save) => {
+        if (!this.replayPlayer) {
+          storeRunSave(save);
+        }
+      },
+      runEnded: () => this.handleGameOver(),
+    };
+  }
 
+  private handleWaveStarted(info: WaveStartAnnouncement) {
     const statParts: string[] = [];
     const hpPercent = Math.round((info.scaling.hpMultiplier - 1) * 100);
     const countPercent = Math.round((info.scaling.countMultiplier - 1) * 100);
@@ -342,7 +433,6 @@ export class Game {
     const duration = 2200 + info.modifiers.length * 350;
     this.hud.showToast(messageParts.join(' · '), duration);
     this.pauseOverlay.setEnemyModifiers(info.modifiers);
-    this.updateHud();
 
     const subtitle =
       messageParts.length > 1
@@ -357,22 +447,16 @@ export class Game {
       accent: [86, 255, 226],
       duration: 1.65,
     });
-    this.scheduleWaveIntroDelay(1.35);
     this.spawnImpactWave(
-      { x: this.width / 2, y: this.height - this.bottomSafeZone * 0.55 },
+      { x: this.width / 2, y: this.height - this.core.bottomSafeZone * 0.55 },
       this.width * 0.55,
       0.65,
       'rgba(86, 255, 226, 0.45)',
     );
   }
 
-  onWaveComplete() {
-    this.hud.showToast('Perfect Wave! +500');
-    this.score += 500;
-    this.focus = clamp(this.focus + 15, 0, 100);
-    this.completedWaves += 1;
-    this.updateHud();
-    const clearedWave = Math.max(1, this.completedWaves);
+  private handleWaveCleared(clearedWave: number, perfect: boolean) {
+    this.hud.showToast(perfect ? 'Perfect Wave! +500' : 'Wave Cleared +500');
     this.triggerWaveTransition('outro', {
       label: `Wave ${clearedWave} Cleared`,
       subtitle: 'Prepare your next upgrade',
@@ -380,237 +464,34 @@ export class Game {
       duration: 1.8,
     });
     this.spawnImpactWave(
-      { x: this.width / 2, y: this.height - this.bottomSafeZone * 0.55 },
+      { x: this.width / 2, y: this.height - this.core.bottomSafeZone * 0.55 },
       this.width * 0.65,
       0.75,
       'rgba(255, 143, 226, 0.55)',
     );
-    void this.beginModifierDraft();
   }
 
-  private async beginModifierDraft() {
-    if (this.drafting || this.lives <= 0) {
-      return;
-    }
-    this.drafting = true;
-    this.pauseLocked = true;
-    this.paused = true;
-    this.hud.setPaused(true);
+  private async presentDraft(offer: DraftOffer) {
     this.pauseOverlay.setVisible(false);
-
-    let cancelled = false;
+    this.pointer.dragging = false;
+    this.pointer.pointerId = null;
+    const options = offer.options
+      .map((id) => MODIFIER_MAP.get(id))
+      .filter((option): option is DraftModifier => option !== undefined);
     try {
-      const upgradeOptions = this.pickUpgradeOptions();
-      if (upgradeOptions.length > 0) {
-        const choice = await this.draft.present(upgradeOptions, {
-          title: 'Choose your enhancement',
-          subtitle: 'Stack tuning upgrades or restore a heart between waves.',
-        });
-        this.applyModifier(choice);
-      }
-
-      const shouldOfferMajor =
-        this.availableMajorModifiers.length > 0 && this.completedWaves % 3 === 0;
-      if (shouldOfferMajor) {
-        const majorOptions = this.pickMajorOptions();
-        if (majorOptions.length > 0) {
-          const choice = await this.draft.present(majorOptions, {
-            title: 'Choose a core modifier',
-            subtitle: 'Select one of the experimental puck mods.',
-          });
-          this.applyModifier(choice);
-          this.availableMajorModifiers = this.availableMajorModifiers.filter(
-            (mod) => mod.id !== choice.id,
-          );
-        }
-      }
+      const choice = await this.draft.present(options, {
+        title: offer.title,
+        subtitle: offer.subtitle,
+      });
+      this.pendingInputs.push({ type: 'draft', modifierId: choice.id });
     } catch (error) {
-      if (error instanceof DraftCancelledError) {
-        cancelled = true;
-      } else {
+      if (!(error instanceof DraftCancelledError)) {
         throw error;
       }
-    } finally {
-      this.drafting = false;
-      this.pauseLocked = false;
-      this.paused = false;
-      this.pauseOverlay.setVisible(false);
-      this.pauseInputCooldown = Math.max(this.pauseInputCooldown, 0.2);
-      if (this.running) {
-        this.hud.setPaused(false);
-      }
-      if (!cancelled && this.running) {
-        this.lastTime = performance.now();
-      }
-    }
-  }
-
-  private pickMajorOptions(): DraftModifier[] {
-    if (this.availableMajorModifiers.length === 0) {
-      return [];
-    }
-    if (this.availableMajorModifiers.length <= 3) {
-      return [...this.availableMajorModifiers];
-    }
-    const pool = [...this.availableMajorModifiers];
-    const selections: DraftModifier[] = [];
-    const fallback: Record<ModifierRarity, ModifierRarity[]> = {
-      common: ['common', 'uncommon', 'rare'],
-      uncommon: ['uncommon', 'rare', 'common'],
-      rare: ['rare', 'uncommon', 'common'],
-    };
-    for (let i = 0; i < 3; i++) {
-      if (!pool.length) break;
-      const desired = this.rollRarity();
-      let candidates: DraftModifier[] = [];
-      for (const bucket of fallback[desired]) {
-        candidates = pool.filter((mod) => mod.rarity === bucket);
-        if (candidates.length) break;
-      }
-      if (!candidates.length) {
-        candidates = pool;
-      }
-      const pick = candidates[Math.floor(Math.random() * candidates.length)];
-      selections.push(pick);
-      pool.splice(pool.indexOf(pick), 1);
     }
-    return selections;
   }
 
-  private pickUpgradeOptions(): DraftModifier[] {
-    const context = { lives: this.lives, maxLives: this.maxLives };
-    const available = UPGRADE_MODIFIERS.filter(
-      (modifier) => !modifier.available || modifier.available(this.modifiers, context),
-    );
-    if (available.length <= 3) {
-      return [...available];
-    }
-    const pool = [...available];
-    const selections: DraftModifier[] = [];
-    for (let i = 0; i < 3; i++) {
-      if (!pool.length) break;
-      const pickIndex = Math.floor(Math.random() * pool.length);
-      selections.push(pool[pickIndex]);
-      pool.splice(pickIndex, 1);
-    }
-    return selections;
-  }
-
-  private rollRarity(): ModifierRarity {
-    const roll = Math.random();
-    if (roll < 0.6) return 'common';
-    if (roll < 0.9) return 'uncommon';
-    return 'rare';
-  }
-
-  private applyModifier(definition: DraftModifier) {
-    if (definition.id === 'restoreHeart') {
-      if (this.lives < this.maxLives) {
-        this.lives = Math.min(this.maxLives, this.lives + 1);
-        this.modifiers.lastPicked = definition.id;
-        this.updateHud();
-        this.hud.showToast('Heart restored!', 1600);
-      }
-      return;
-    }
-    const previousSize = this.modifiers.orbSizeMultiplier;
-    definition.apply(this.modifiers);
-    this.modifiers.lastPicked = definition.id;
-    const previousCount = this.playerModifierCounts.get(definition.id) ?? 0;
-    this.playerModifierCounts.set(definition.id, previousCount + 1);
-
-    if (this.modifiers.orbSizeMultiplier !== previousSize && previousSize > 0) {
-      const ratio = this.modifiers.orbSizeMultiplier / previousSize;
-      for (const orb of this.orbs) {
-        orb.radius *= ratio;
-      }
-    }
-
-    if (this.modifiers.splitOnImpact) {
-      for (const orb of this.orbs) {
-        orb.splitOnImpact = true;
-      }
-    }
-
-    if (this.modifiers.chainLightning) {
-      this.modifiers.chainLightning.cooldown = 0;
-    }
-
-    this.syncPlayerModifiersOverlay();
-    this.updateHud();
-    this.hud.showToast(`${definition.name} equipped!`, 1600);
-  }
-
-  onEnemyKilled(enemy: Enemy, orb: Orb) {
-    const baseScore = 100 + enemy.maxHp * 15;
-    const tier = Math.floor(this.comboHeat / 5);
-    const multiplier = 1 + tier * 0.1;
-    const delta = Math.round(baseScore * multiplier);
-    this.score += delta;
-    this.emitScorePop(enemy.position, delta);
-    const impactRadius = enemy.isBoss || enemy.isElite ? 220 : 150;
-    this.spawnImpactWave(enemy.position, impactRadius);
-
-    this.comboHeat += 1;
-    this.comboTimer = 0;
-    this.focus = clamp(this.focus + 10, 0, 100);
-    this.chargeNovaPulse(enemy.position);
-  }
-
-  private chargeNovaPulse(origin: Vector2) {
-    const wasReady = this.isNovaPulseReady();
-    this.novaCharge = clamp(this.novaCharge + this.novaChargePerKill, 0, this.novaChargeMax);
-    const isReady = this.isNovaPulseReady();
-    if (!isReady) {
-      this.spawnNovaShards(origin);
-    }
-    if (!wasReady && isReady) {
-      this.spawnNovaReadyPulse();
-    }
-  }
-
-  onEnemyBreach(_enemy: Enemy) {
-    this.lives = Math.max(0, this.lives - 1);
-    this.comboHeat = 0;
-    this.hud.showToast('Breach! -1 Heart');
-    if (this.lives <= 0) {
-      this.handleGameOver();
-    }
-    this.updateHud();
-  }
-
-  onOrbOutOfBounds(_orb: Orb) {
-    if (!this.hasActiveOrbs && this.lives > 0) {
-      this.hud.showToast('Reloaded');
-    }
-  }
-
-  emitWallHit(position: Vector2, orb?: Orb) {
-    if (orb) {
-      orb.bounceCount += 1;
-      if (this.modifiers.wallHitDamageBonusPercent > 0) {
-        orb.pendingWallDamageBonus = this.modifiers.wallHitDamageBonusPercent;
-      }
-    }
-    this.spawnParticles(position, '#39d6ff', 5, 40, 120);
-  }
-
-  emitShieldHit(position: Vector2) {
-    this.spawnParticles(position, '#92f3ff', 8, 30, 80);
-  }
-
-  emitShieldBreak(position: Vector2) {
-    this.spawnParticles(position, '#e0ffbf', 16, 60, 180);
-    this.hud.showToast('Shield Broken!');
-    this.spawnImpactWave(position, 180, 0.4, 'rgba(224, 255, 191, 0.9)');
-    this.addScreenShake(4, 0.3);
-  }
-
-  emitSporeCloud(position: Vector2) {
-    this.spawnParticles(position, '#c599ff', 20, 50, 140);
-  }
-
-  emitScorePop(position: Vector2, score: number) {
+  private showScorePop(position: Vector2, score: number) {
     this.spawnParticles(position, '#ffffff', 12, 20, 60);
     const formatted = `+${score.toLocaleString()}`;
     this.spawnFloatingText(formatted, position, {
@@ -627,26 +508,21 @@ export class Game {
     }
   }
 
-  emitDamageNumber(
-    position: Vector2,
-    amount: number,
-    options: { critical?: boolean; shield?: boolean } = {},
-  ) {
-    if (amount <= 0 || !Number.isFinite(amount)) {
-      return;
-    }
+  private showDamageNumber(position: Vector2, amount: number, options: DamageNumberOptions) {
     if (amount < this.minDamageForFloatingText) {
       return;
     }
-    const formatted = this.formatDamageNumber(amount);
+    const formatted = this.formatDamageNumber(amount) + (options.crit ? '!' : '');
     const magnitude = Math.sqrt(Math.max(amount, 1));
-    const baseSize = options.shield ? 22 : 26;
+    const baseSize = options.shield ? 22 : options.crit ? 32 : 26;
     const size = baseSize + Math.min(20, magnitude * 4.2);
     const color = options.shield
       ? '#9cf5ff'
-      : options.critical
-        ? '#ffef9d'
-        : '#f5f3ff';
+      : options.crit
+        ? '#ff9d5c'
+        : options.critical
+          ? '#ffef9d'
+          : '#f5f3ff';
     const stroke = options.shield
       ? 'rgba(12, 30, 50, 0.75)'
       : 'rgba(32, 4, 54, 0.75)';
@@ -659,7 +535,7 @@ export class Game {
       stroke,
       size,
       life: options.critical ? 1.1 : 0.85,
-      pop: options.critical ? 0.75 : 0.45,
+      pop: options.crit ? 0.95 : options.critical ? 0.75 : 0.45,
       weight: options.critical ? 800 : 700,
       velocity,
     });
@@ -747,59 +623,6 @@ export class Game {
     return amount.toFixed(2).replace(/0+$/, '').replace(/\.$/, '');
   }
 
-  laneToWorld(lane: number): Vector2 {
-    const lanes = 6;
-    const padding = 120;
-    const usableWidth = this.width - padding * 2;
-    const step = usableWidth / (lanes - 1);
-    return { x: padding + step * (lane - 1), y: -60 };
-  }
-
-  spawnEnemy(type: EnemyKind, params: { position: Vector2; hp: number; speed: number }) {
-    const scaling = this.enemyScaling;
-    const scaledHpValue = params.hp * scaling.hpMultiplier + scaling.hpBonus;
-    const minimumHp = params.hp + Math.floor(scaling.level / 3);
-    const baseHp = Math.max(1, Math.max(Math.round(scaledHpValue), minimumHp));
-    const hp = Math.max(1, Math.round(baseHp * this.difficulty.enemyHpMultiplier));
-    const speed = params.speed * scaling.speedMultiplier;
-    const spawnParams = { position: params.position, hp, speed };
-
-    let enemy: Enemy;
-    switch (type) {
-      case 'GloobZigzag':
-        enemy = new GloobZigzag(spawnParams);
-        break;
-      case 'SplitterGloob':
-        enemy = new SplitterGloob(spawnParams);
-        break;
-      case 'ShieldyGloob':
-        enemy = new ShieldyGloob(spawnParams);
-        break;
-      case 'Splitterling':
-        enemy = new Splitterling(spawnParams);
-        break;
-      case 'Magnetron':
-        enemy = new Magnetron(spawnParams);
-        break;
-      case 'SporePuff':
-        enemy = new SporePuff(spawnParams);
-        break;
-      case 'BulwarkGloob':
-        enemy = new BulwarkGloob(spawnParams);
-        break;
-      case 'WarpStalker':
-        enemy = new WarpStalker(spawnParams);
-        break;
-      case 'AegisSentinel':
-        enemy = new AegisSentinel(spawnParams);
-        break;
-      default:
-        enemy = new GloobZigzag(spawnParams);
-        break;
-    }
-    this.enemies.push(enemy);
-  }
-
   private registerEvents() {
     this.canvas.addEventListener('pointerdown', this.onPointerDown);
     this.canvas.addEventListener('pointermove', this.onPointerMove);
@@ -809,23 +632,24 @@ export class Game {
   }
 
   private onPointerDown = (event: PointerEvent) => {
-    if (!this.running || this.paused || this.drafting) {
+    if (!this.running || this.paused || this.core.isDrafting || this.replayPlayer) {
       return;
     }
     const point = this.eventToCanvas(event);
-    if (!this.pointer.dragging && this.launchCooldown <= 0) {
+    if (!this.pointer.dragging && this.core.canLaunch) {
       this.pointer = {
         dragging: true,
         pointerId: event.pointerId,
         current: point,
       };
       this.canvas.setPointerCapture(event.pointerId);
-    } else if (!this.aftertouch.active && this.hasActiveOrbs) {
+    } else if (!this.aftertouch.active && this.core.hasActiveOrbs) {
       this.aftertouch = {
         active: true,
         pointerId: event.pointerId,
         direction: 0,
       };
+      this.pendingInputs.push({ type: 'aftertouch', active: true, direction: 0 });
       this.canvas.setPointerCapture(event.pointerId);
     }
   };
@@ -839,7 +663,11 @@ export class Game {
       this.pointer.current = point;
     } else if (this.aftertouch.active && this.aftertouch.pointerId === event.pointerId) {
       const relative = (point.x - this.width / 2) / (this.width / 2);
-      this.aftertouch.direction = clamp(relative, -1, 1);
+      const direction = clamp(relative, -1, 1);
+      if (direction !== this.aftertouch.direction) {
+        this.aftertouch.direction = direction;
+        this.pendingInputs.push({ type: 'aftertouch', active: true, direction });
+      }
     }
   };
 
@@ -854,12 +682,13 @@ export class Game {
       const point = this.eventToCanvas(event);
       this.pointer.dragging = false;
       this.pointer.pointerId = null;
-      this.launchOrb(point);
+      this.pendingInputs.push({ type: 'launch', target: point, pointerId: event.pointerId });
     }
     if (this.aftertouch.active && this.aftertouch.pointerId === event.pointerId) {
       this.aftertouch.active = false;
       this.aftertouch.pointerId = null;
       this.aftertouch.direction = 0;
+      this.pendingInputs.push({ type: 'aftertouch', active: false, direction: 0 });
     }
     this.canvas.releasePointerCapture(event.pointerId);
   };
@@ -869,11 +698,19 @@ export class Game {
     const pixelRatio = Math.min(window.devicePixelRatio ?? 1, this.performance.pixelRatio);
     this.canvas.width = rect.width * pixelRatio;
     this.canvas.height = rect.height * pixelRatio;
-    this.ctx.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0);
-    this.width = this.canvas.width / pixelRatio;
-    this.height = this.canvas.height / pixelRatio;
-    this.cannonPosition = { x: this.width / 2, y: this.height - this.bottomSafeZone / 2 };
-    this.novaAnchor = { x: this.width / 2, y: this.height - this.bottomSafeZone / 2 };
+    if (this.replayPlayer) {
+      // Playback keeps the recorded arena size and scales it to fit the canvas.
+      const fit = Math.min(rect.width / this.core.width, rect.height / this.core.height);
+      this.ctx.setTransform(pixelRatio * fit, 0, 0, pixelRatio * fit, 0, 0);
+      this.width = this.core.width;
+      this.height = this.core.height;
+    } else {
+      this.ctx.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0);
+      this.width = this.canvas.width / pixelRatio;
+      this.height = this.canvas.height / pixelRatio;
+      this.core.resize(this.width, this.height);
+    }
+    this.novaAnchor = { ...this.core.cannonPosition };
     for (const particle of this.particles) {
       if (particle.type === 'shard') {
         if (!particle.target) {
@@ -892,55 +729,48 @@ export class Game {
     if (this.paused) {
       return;
     }
-    const delta = (time - this.lastTime) / 1000;
+    const frameTime = clamp((time - this.lastTime) / 1000, 0, this.maxFrameTime);
     this.lastTime = time;
-    this.update(delta);
-    this.render();
-  };
+    this.pauseInputCooldown = Math.max(0, this.pauseInputCooldown - frameTime);
 
-  private update(dt: number) {
-    this.launchCooldown = Math.max(0, this.launchCooldown - dt);
-    this.pauseInputCooldown = Math.max(0, this.pauseInputCooldown - dt);
-    this.waveManager.update(dt);
-
-    if (this.aftertouch.active && this.focus > 0) {
-      const force = this.aftertouch.direction * 680 * dt;
-      for (const orb of this.orbs) {
-        if (!orb.alive) continue;
-        orb.velocity.x += force;
+    if (this.replayPlayer) {
+      const alpha = this.replayPlayer.advance(frameTime);
+      if (this.core.width !== this.width || this.core.height !== this.height) {
+        this.onResize();
       }
-      this.focus = clamp(this.focus - 20 * dt, 0, 100);
-    }
-
-    for (const orb of this.orbs) {
-      orb.update(dt, this);
-    }
-
-    for (const enemy of this.enemies) {
-      if (enemy.alive) {
-        enemy.update(dt, this);
+      if (this.replayPlayer.finished && !this.replayEndAnnounced) {
+        this.replayEndAnnounced = true;
+        this.hud.showToast('Replay finished', 2200);
       }
+      this.updateEffects(frameTime);
+      this.updateHud();
+      this.syncReplayControls();
+      this.render(alpha);
+      return;
     }
 
-    this.handleCollisions();
+    this.accumulator += frameTime;
 
-    const chain = this.modifiers.chainLightning;
-    if (chain && this.orbs.filter((o) => o.alive).length > 1) {
-      chain.cooldown -= dt;
-      if (chain.cooldown <= 0) {
-        chain.cooldown = chain.interval;
-        this.tickChainLightning(chain.damage, chain.range);
-      }
+    let steps = 0;
+    while (this.accumulator >= this.fixedStep && steps < this.maxStepsPerFrame) {
+      const inputs = this.pendingInputs;
+      this.pendingInputs = [];
+      this.core.step(this.fixedStep, inputs);
+      this.accumulator -= this.fixedStep;
+      steps += 1;
+      if (this.paused) break;
     }
-
-    this.orbs = this.orbs.filter((orb) => orb.alive);
-    this.enemies = this.enemies.filter((enemy) => enemy.alive);
-
-    this.comboTimer += dt;
-    if (this.comboTimer > 2 && this.comboHeat > 0) {
-      this.comboHeat = Math.max(0, this.comboHeat - dt * 2);
+    if (steps >= this.maxStepsPerFrame || this.paused) {
+      // Drop whatever backlog is left instead of spiralling to catch up.
+      this.accumulator = 0;
     }
 
+    this.updateEffects(frameTime);
+    this.updateHud();
+    this.render(this.accumulator / this.fixedStep);
+  };
+
+  private updateEffects(dt: number) {
     let particleWriteIndex = 0;
     for (let i = 0; i < this.particles.length; i++) {
       const particle = this.particles[i];
@@ -1011,6 +841,16 @@ export class Game {
     }
     this.impactWaves.length = waveWriteIndex;
 
+    let boltWriteIndex = 0;
+    for (let i = 0; i < this.lightningBolts.length; i++) {
+      const bolt = this.lightningBolts[i];
+      bolt.life -= dt;
+      if (bolt.life > 0) {
+        this.lightningBolts[boltWriteIndex++] = bolt;
+      }
+    }
+    this.lightningBolts.length = boltWriteIndex;
+
     if (this.screenShakeTimer > 0) {
       this.screenShakeTimer = Math.max(0, this.screenShakeTimer - dt);
       const ratio = this.screenShakeDuration > 0 ? this.screenShakeTimer / this.screenShakeDuration : 0;
@@ -1037,141 +877,6 @@ export class Game {
         this.waveTransition = null;
       }
     }
-
-    this.updateHud();
-  }
-
-  private handleCollisions() {
-    for (const orb of this.orbs) {
-      if (!orb.alive) continue;
-      for (const enemy of this.enemies) {
-        if (!enemy.alive) continue;
-        const sum = orb.radius + enemy.radius;
-        if (distanceSq(orb.position, enemy.position) <= sum * sum) {
-          this.resolveOrbHit(orb, enemy);
-          if (!orb.alive) {
-            break;
-          }
-        }
-      }
-    }
-  }
-
-  private resolveOrbHit(orb: Orb, enemy: Enemy) {
-    const impactPoint = { ...enemy.position };
-    const damage = this.computeOrbDamage(orb, enemy);
-    enemy.takeDamage(damage, this, orb);
-    this.spawnParticles(impactPoint, orb.color, 12, 40, 140);
-
-    if (enemy.alive) {
-      if (this.modifiers.slowEffect) {
-        enemy.applySlow(this.modifiers.slowEffect.duration, this.modifiers.slowEffect.factor);
-      }
-      if (this.modifiers.knockbackForce > 0) {
-        enemy.applyKnockback(this.modifiers.knockbackForce);
-      }
-    }
-
-    if (this.modifiers.explosion) {
-      this.triggerExplosion(impactPoint, orb);
-    }
-
-    if (orb.splitOnImpact) {
-      this.splitOrb(orb);
-      return;
-    }
-
-    const relative = subtract(orb.position, impactPoint);
-    const dir = normalize(relative);
-    const speed = length(orb.velocity) * 0.7 + 320;
-    orb.velocity = scale(dir, speed);
-  }
-
-  private splitOrb(orb: Orb) {
-    const speed = length(orb.velocity);
-    const angle = Math.atan2(orb.velocity.y, orb.velocity.x);
-    const spread = 0.28;
-    const offsets = [-spread, spread];
-    for (const offset of offsets) {
-      const theta = angle + offset;
-      const vel = { x: Math.cos(theta) * speed, y: Math.sin(theta) * speed };
-      const clone = orb.cloneWithVelocity(vel);
-      this.orbs.push(clone);
-    }
-    orb.alive = false;
-  }
-
-  private triggerExplosion(center: Vector2, source: Orb) {
-    const explosion = this.modifiers.explosion;
-    if (!explosion) return;
-    this.spawnParticles(center, '#ff9a61', 18, 120, explosion.radius);
-    this.spawnImpactWave(center, explosion.radius * 1.4, 0.5, 'rgba(255, 170, 120, 0.9)');
-    this.addScreenShake(8, 0.35);
-    const radiusSq = explosion.radius * explosion.radius;
-    for (const enemy of this.enemies) {
-      if (!enemy.alive) continue;
-      if (distanceSq(enemy.position, center) <= radiusSq) {
-        enemy.takeDamage(this.scalePlayerDamage(explosion.damage), this, source);
-      }
-    }
-  }
-
-  private tickChainLightning(damage: number, range: number) {
-    const aliveOrbs = this.orbs.filter((orb) => orb.alive);
-    if (aliveOrbs.length < 2) return;
-    const rangeSq = range * range;
-    const affected = new Set<Enemy>();
-    const scaledDamage = this.scalePlayerDamage(damage);
-    for (let i = 0; i < aliveOrbs.length; i++) {
-      for (let j = i + 1; j < aliveOrbs.length; j++) {
-        const a = aliveOrbs[i];
-        const b = aliveOrbs[j];
-        for (const enemy of this.enemies) {
-          if (!enemy.alive || affected.has(enemy)) continue;
-          const distSq = distanceToSegmentSq(enemy.position, a.position, b.position);
-          if (distSq <= rangeSq) {
-            enemy.takeDamage(scaledDamage, this, a);
-            this.spawnParticles(enemy.position, '#87bbff', 6, 40, 90);
-            affected.add(enemy);
-          }
-        }
-      }
-    }
-  }
-
-  private computeOrbDamage(orb: Orb, enemy: Enemy) {
-    let damage = orb.damage * this.modifiers.damageMultiplier;
-
-    if (this.modifiers.comboHeatDamagePercent > 0) {
-      const comboMultiplier =
-        1 + Math.max(0, this.comboHeat) * this.modifiers.comboHeatDamagePercent;
-      damage *= comboMultiplier;
-    }
-
-    if (this.modifiers.bounceDamagePercent > 0 && orb.bounceCount > 0) {
-      damage *= 1 + orb.bounceCount * this.modifiers.bounceDamagePercent;
-    }
-
-    if (this.isBossOrElite(enemy) && this.modifiers.bossDamageMultiplier > 1) {
-      damage *= this.modifiers.bossDamageMultiplier;
-    }
-
-    if (orb.pendingWallDamageBonus > 0) {
-      damage *= 1 + orb.pendingWallDamageBonus;
-      orb.pendingWallDamageBonus = 0;
-    }
-
-    const tier = Math.floor(this.comboHeat / 5);
-    damage += tier * this.modifiers.comboDamagePerTier;
-    return this.scalePlayerDamage(damage);
-  }
-
-  private scalePlayerDamage(amount: number) {
-    return amount * this.difficulty.playerDamageMultiplier;
-  }
-
-  private isBossOrElite(enemy: Enemy) {
-    return enemy.isBoss || enemy.isElite;
   }
 
   private allocateParticle(): Particle {
@@ -1245,8 +950,9 @@ export class Game {
       const spawnRadius = Math.random() * radius * 0.4;
       const spawnX = position.x + Math.cos(baseAngle) * spawnRadius;
       const spawnY = position.y + Math.sin(baseAngle) * spawnRadius;
-      const life = randomRange(0.4, 0.85);
-      const magnitude = speed * (type === 'spark' ? randomRange(0.45, 1) : randomRange(0.2, 0.55));
+      const life = cosmeticRandomRange(0.4, 0.85);
+      const magnitude =
+        speed * (type === 'spark' ? cosmeticRandomRange(0.45, 1) : cosmeticRandomRange(0.2, 0.55));
       const velocityX = Math.cos(baseAngle) * magnitude;
       const velocityY = Math.sin(baseAngle) * magnitude;
       const glow =
@@ -1260,12 +966,14 @@ export class Game {
       particle.velocity.y = velocityY;
       particle.life = life;
       particle.maxLife = life;
-      particle.size = type === 'spark' ? randomRange(14, 26) : randomRange(5, 11);
+      particle.size = type === 'spark' ? cosmeticRandomRange(14, 26) : cosmeticRandomRange(5, 11);
       particle.color = color;
       particle.glow = glow;
       particle.rotation = Math.random() * Math.PI * 2;
-      particle.rotationSpeed = type === 'spark' ? randomRange(-8, 8) : randomRange(-2, 2);
-      particle.stretch = type === 'spark' ? randomRange(1.3, 2.8) : randomRange(0.3, 1);
+      particle.rotationSpeed =
+        type === 'spark' ? cosmeticRandomRange(-8, 8) : cosmeticRandomRange(-2, 2);
+      particle.stretch =
+        type === 'spark' ? cosmeticRandomRange(1.3, 2.8) : cosmeticRandomRange(0.3, 1);
       particle.drag = type === 'spark' ? 0.82 : 0.9;
       particle.type = type;
       particle.target = undefined;
@@ -1287,13 +995,13 @@ export class Game {
     const target = { ...this.novaAnchor };
     for (let i = 0; i < actualCount; i++) {
       const angle = Math.random() * Math.PI * 2;
-      const offset = randomRange(6, 42);
+      const offset = cosmeticRandomRange(6, 42);
       const startX = origin.x + Math.cos(angle) * offset;
       const startY = origin.y + Math.sin(angle) * offset;
-      const launchSpeed = randomRange(110, 220);
+      const launchSpeed = cosmeticRandomRange(110, 220);
       const velocityX = Math.cos(angle) * launchSpeed;
-      const velocityY = Math.sin(angle) * launchSpeed - randomRange(70, 160);
-      const life = randomRange(0.9, 1.6);
+      const velocityY = Math.sin(angle) * launchSpeed - cosmeticRandomRange(70, 160);
+      const life = cosmeticRandomRange(0.9, 1.6);
       const shard = this.allocateParticle();
       shard.position.x = startX;
       shard.position.y = startY;
@@ -1301,12 +1009,12 @@ export class Game {
       shard.velocity.y = velocityY;
       shard.life = life;
       shard.maxLife = life;
-      shard.size = randomRange(18, 26);
+      shard.size = cosmeticRandomRange(18, 26);
       shard.color = '#a0fff0';
       shard.glow = 'rgba(126, 255, 226, 0.95)';
       shard.rotation = Math.random() * Math.PI * 2;
-      shard.rotationSpeed = randomRange(-5, 5);
-      shard.stretch = randomRange(0.5, 1.05);
+      shard.rotationSpeed = cosmeticRandomRange(-5, 5);
+      shard.stretch = cosmeticRandomRange(0.5, 1.05);
       shard.drag = 0.9;
       shard.type = 'shard';
       if (!shard.target) {
@@ -1315,7 +1023,7 @@ export class Game {
         shard.target.x = target.x;
         shard.target.y = target.y;
       }
-      shard.attraction = randomRange(14, 20);
+      shard.attraction = cosmeticRandomRange(14, 20);
       this.particles.push(shard);
     }
   }
@@ -1333,106 +1041,44 @@ export class Game {
   }
 
   private tryActivateNovaPulse() {
-    if (!this.running || this.paused || this.drafting || this.lives <= 0) {
-      return;
-    }
-    if (!this.isNovaPulseReady()) {
+    if (!this.running || this.paused || this.core.isDrafting || this.core.isOver || this.replayPlayer) {
       return;
     }
-    this.activateNovaPulse();
+    this.pendingInputs.push({ type: 'nova' });
   }
 
-  private activateNovaPulse() {
+  private handleNovaActivated(affected: Vector2[]) {
     this.spawnNovaBurst();
-    this.novaCharge = 0;
-    for (const enemy of this.enemies) {
-      if (!enemy.alive) continue;
-      const capped = Math.min(enemy.position.y, this.height - this.bottomSafeZone - 80);
-      enemy.position.y = Math.max(40, capped - 200);
-      enemy.velocity.y = Math.min(enemy.velocity.y, -420);
-      enemy.applyKnockback(620);
-      enemy.applySlow(3.8, 0.4);
-      this.spawnParticles(enemy.position, '#80ffe8', 6, 160, 120);
+    for (const position of affected) {
+      this.spawnParticles(position, '#80ffe8', 6, 160, 120);
     }
     this.addScreenShake(9, 0.55);
     this.spawnNovaShards(this.novaAnchor, 14);
-    this.updateHud();
   }
 
-  private isNovaPulseReady() {
-    return this.novaCharge >= this.novaChargeMax - 0.01;
-  }
-
-  private launchOrb(target: Vector2) {
-    const drag = subtract(this.cannonPosition, target);
-    const power = length(drag);
-    if (power < 20 || this.launchCooldown > 0 || this.lives <= 0) {
+  private handleGameOver() {
+    if (this.replayPlayer) {
       return;
     }
-    this.spawnParticles(this.cannonPosition, '#38f3ff', 10, 200, 70);
-    const direction = normalize(drag);
-    const speed = (550 + clamp(power, 0, 280) * 3.2) * 3;
-    const baseAngle = Math.atan2(direction.y, direction.x);
-    const count = this.modifiers.tripleLaunch ? 3 : 1;
-    const spread = 0.22;
-    const offsets = count === 1 ? [0] : [-spread, 0, spread];
-    for (const offset of offsets) {
-      const theta = baseAngle + offset;
-      const velocity = {
-        x: Math.cos(theta) * speed,
-        y: Math.sin(theta) * speed,
-      };
-      const orb = new Orb(
-        { ...this.cannonPosition },
-        velocity,
-        {
-          radius: 16 * this.modifiers.orbSizeMultiplier,
-          splitOnImpact: this.modifiers.splitOnImpact,
-        },
-      );
-      this.orbs.push(orb);
+    if (this.core.isResumable) {
+      clearRunSave();
     }
-    this.launchCooldown = 0.35;
-    this.focus = clamp(this.focus - 5, 0, 100);
-  }
-
-  private handleGameOver() {
-    this.hud.showToast('Run Terminated - Tap to reset');
+    const snapshot = this.core.getSnapshot();
+    this.hud.showToast(snapshot.cleared ? 'Run Cleared!' : 'Run Terminated - Tap to reset');
+    this.runEndedHandler?.(snapshot);
     this.paused = true;
-    setTimeout(() => {
-      this.reset();
+    // Cleared runs wait for the shell to move on instead of restarting.
+    if (snapshot.cleared) {
+      return;
+    }
+    this.gameOverTimeout = window.setTimeout(() => {
+      this.reset(this.seedLocked ? this.core.runSeed : createRunSeed());
       this.paused = false;
       this.lastTime = performance.now();
+      this.accumulator = 0;
     }, 1200);
   }
 
-  private createInitialModifiers(): ModifierState {
-    return {
-      orbSizeMultiplier: 1,
-      comboDamagePerTier: 0,
-      knockbackForce: 0,
-      homingStrength: 0,
-      splitOnImpact: false,
-      tripleLaunch: false,
-      damageMultiplier: 1,
-      comboHeatDamagePercent: 0,
-      bounceDamagePercent: 0,
-      bossDamageMultiplier: 1,
-      wallHitDamageBonusPercent: 0,
-    };
-  }
-
-  private createDefaultEnemyScaling(): EnemyWaveScaling {
-    return {
-      level: 0,
-      hpMultiplier: 1,
-      hpBonus: 0,
-      speedMultiplier: 1,
-      countMultiplier: 1,
-      cadenceMultiplier: 1,
-    };
-  }
-
   private detectPerformanceProfile(): PerformanceProfile {
     const hasWindow = typeof window !== 'undefined';
     const baseRatio = hasWindow ? window.devicePixelRatio ?? 1 : 1;
@@ -1488,10 +1134,10 @@ export class Game {
     this.backgroundStars = Array.from({ length: starCount }, () => ({
       xPercent: Math.random(),
       yPercent: Math.random(),
-      radius: randomRange(1.1, 2.6),
-      twinkleSpeed: randomRange(0.35, 1.15),
+      radius: cosmeticRandomRange(1.1, 2.6),
+      twinkleSpeed: cosmeticRandomRange(0.35, 1.15),
       twinklePhase: Math.random() * Math.PI * 2,
-      parallax: randomRange(0.3, 1),
+      parallax: cosmeticRandomRange(0.3, 1),
       color:
         Math.random() < 0.35
           ? 'rgba(88, 196, 255, 1)'
@@ -1538,15 +1184,26 @@ export class Game {
     }
   }
 
-  private reset() {
-    this.score = 0;
-    this.comboHeat = 0;
-    this.comboTimer = 0;
-    this.focus = 70;
-    this.lives = this.maxLives;
-    this.waveId = 'S1-W1';
-    this.orbs = [];
-    this.enemies = [];
+  private reset(seed?: number) {
+    const resume = this.pendingResume;
+    this.pendingResume = null;
+    if (this.replayPlayer) {
+      this.replayPlayer.restart();
+      this.replayEndAnnounced = false;
+    } else if (resume) {
+      this.core.restoreSave(resume);
+    } else {
+      this.core.reset(seed);
+    }
+    this.pauseOverlay.setExportAvailable(resume === null);
+    this.resetPresentation();
+    // resetPresentation closes the draft overlay, so a restored draft is offered again.
+    if (resume) {
+      this.core.announcePendingDraft();
+    }
+  }
+
+  private resetPresentation() {
     for (const particle of this.particles) {
       this.recycleParticle(particle);
     }
@@ -1556,55 +1213,45 @@ export class Game {
     }
     this.floatingTexts.length = 0;
     this.impactWaves.length = 0;
+    this.lightningBolts.length = 0;
     this.waveTransition = null;
-    this.waveIntroDelay = 0;
     this.screenShakeOffset = { x: 0, y: 0 };
     this.screenShakeTimer = 0;
     this.screenShakeDuration = 0;
     this.screenShakeIntensity = 0;
-    this.novaCharge = 0;
     this.pauseInputCooldown = 0;
-    this.availableMajorModifiers = [...MAJOR_MODIFIERS];
-    this.modifiers = this.createInitialModifiers();
-    this.playerModifierCounts.clear();
-    this.drafting = false;
-    this.pauseLocked = false;
-    this.completedWaves = 0;
-    this.enemyScaling = this.createDefaultEnemyScaling();
+    this.pendingInputs = [];
+    this.pointer.dragging = false;
+    this.pointer.pointerId = null;
+    this.aftertouch = { active: false, pointerId: null, direction: 0 };
     this.pauseOverlay.setVisible(false);
     this.syncPlayerModifiersOverlay();
     this.pauseOverlay.setEnemyModifiers([]);
     this.draft.cancel();
-    this.waveManager.reset();
     this.updateHud();
   }
 
   private syncPlayerModifiersOverlay() {
-    const modifiers: PauseOverlayPlayerModifier[] = [];
-    for (const [id, count] of this.playerModifierCounts) {
-      modifiers.push({ id, count });
-    }
-    this.pauseOverlay.setPlayerModifiers(modifiers);
+    this.pauseOverlay.setPlayerModifiers(this.core.getSnapshot().modifierCounts);
   }
 
-  private updateHud() {
-    const heat = Math.floor(this.comboHeat);
-    const tier = Math.floor(heat / 5);
-    const progress = (this.comboHeat % 5) / 5;
-    const specialReady = this.isNovaPulseReady();
+  private updateHud(snapshot: GameSnapshot = this.core.getSnapshot()) {
     const data: HudData = {
-      score: Math.floor(this.score),
-      comboHeat: heat,
-      comboTier: tier,
-      comboProgress: progress,
-      focus: this.focus,
-      lives: this.lives,
-      wave: this.waveManager.waveNumber,
-      lastModifier: this.modifiers.lastPicked,
-      specialCharge: this.novaCharge,
-      specialMax: this.novaChargeMax,
-      specialReady,
+      score: snapshot.score,
+      comboHeat: snapshot.comboHeat,
+      comboTier: snapshot.comboTier,
+      comboProgress: snapshot.comboProgress,
+      focus: snapshot.focus,
+      maxFocus: snapshot.maxFocus,
+      focusDraining: snapshot.focusDraining,
+      lives: snapshot.lives,
+      wave: snapshot.wave,
+      lastModifier: snapshot.lastModifier,
+      specialCharge: snapshot.novaCharge,
+      specialMax: snapshot.novaChargeMax,
+      specialReady: snapshot.novaReady,
       specialName: this.novaName,
+      boss: snapshot.boss,
     };
     this.hud.update(data);
   }
@@ -1624,16 +1271,6 @@ export class Game {
     };
   }
 
-  private scheduleWaveIntroDelay(duration: number) {
-    this.waveIntroDelay = Math.max(this.waveIntroDelay, duration);
-  }
-
-  public consumeWaveIntroDelay(): number {
-    const delay = this.waveIntroDelay;
-    this.waveIntroDelay = 0;
-    return delay;
-  }
-
   private drawWaveTransition(ctx: CanvasRenderingContext2D) {
     const transition = this.waveTransition;
     if (!transition) return;
@@ -1729,7 +1366,7 @@ export class Game {
     return 1 - Math.pow(-2 * clamped + 2, 3) / 2;
   }
 
-  private render() {
+  private render(alpha: number) {
     const ctx = this.ctx;
     ctx.clearRect(0, 0, this.width, this.height);
     ctx.save();
@@ -1739,10 +1376,23 @@ export class Game {
     this.drawBackground(ctx);
     this.drawAim(ctx);
 
-    for (const enemy of this.enemies) {
-      enemy.draw(ctx);
+    for (const field of this.core.fields) {
+      field.draw(ctx);
+    }
+
+    for (const bumper of this.core.bumpers) {
+      bumper.draw(ctx);
+    }
+
+    for (const enemy of this.core.enemies) {
+      enemy.draw(ctx, alpha);
     }
 
+    for (const powerup of this.core.powerups) {
+      powerup.draw(ctx);
+    }
+    this.drawBreachShield(ctx);
+
     for (const wave of this.impactWaves) {
       const progress = 1 - wave.life / wave.maxLife;
       const alpha = Math.max(0, wave.life / wave.maxLife);
@@ -1757,12 +1407,16 @@ export class Game {
       ctx.restore();
     }
 
-    this.drawChainLinks(ctx);
+    this.drawModifierEffects(ctx);
+    this.drawLightningBolts(ctx);
 
-    for (const orb of this.orbs) {
+    for (const orb of this.core.orbs) {
       if (!orb.alive) continue;
       ctx.save();
-      ctx.translate(orb.position.x, orb.position.y);
+      ctx.translate(
+        lerp(orb.previousPosition.x, orb.position.x, alpha),
+        lerp(orb.previousPosition.y, orb.position.y, alpha),
+      );
       const speed = length(orb.velocity);
       const momentum = clamp(speed / 1600, 0, 1);
       const heading = Math.atan2(orb.velocity.y, orb.velocity.x);
@@ -1899,38 +1553,67 @@ export class Game {
     ctx.restore();
   }
 
-  private drawChainLinks(ctx: CanvasRenderingContext2D) {
-    if (!this.modifiers.chainLightning) return;
-    const alive = this.orbs.filter((orb) => orb.alive);
-    if (alive.length < 2) return;
+  private drawBreachShield(ctx: CanvasRenderingContext2D) {
+    const shields = this.core.breachShieldCount;
+    if (shields <= 0) return;
+    const y = this.height - this.core.bottomSafeZone;
+    const pulse = (Math.sin(this.lastTime * 0.004) + 1) * 0.5;
     ctx.save();
-    const intensity = (Math.sin(this.lastTime * 0.012) + 1) * 0.25 + 0.45;
-    ctx.globalAlpha = intensity;
-    ctx.lineWidth = 3.5;
-    if (this.performance.enableShadows) {
-      ctx.shadowBlur = 18;
-      ctx.shadowColor = 'rgba(118, 169, 255, 0.85)';
-    } else {
-      ctx.shadowBlur = 0;
-      ctx.shadowColor = 'transparent';
-    }
-    for (let i = 0; i < alive.length; i++) {
-      for (let j = i + 1; j < alive.length; j++) {
-        const a = alive[i];
-        const b = alive[j];
-        const gradient = ctx.createLinearGradient(a.position.x, a.position.y, b.position.x, b.position.y);
-        gradient.addColorStop(0, 'rgba(118, 169, 255, 1)');
-        gradient.addColorStop(1, 'rgba(89, 255, 214, 1)');
-        ctx.strokeStyle = gradient;
-        ctx.beginPath();
-        ctx.moveTo(a.position.x, a.position.y);
-        ctx.lineTo(b.position.x, b.position.y);
-        ctx.stroke();
+    ctx.globalCompositeOperation = 'lighter';
+    const glow = ctx.createLinearGradient(0, y - 28, 0, y);
+    glow.addColorStop(0, 'rgba(157, 255, 207, 0)');
+    glow.addColorStop(1, `rgba(157, 255, 207, ${0.18 + pulse * 0.12})`);
+    ctx.fillStyle = glow;
+    ctx.fillRect(0, y - 28, this.width, 28);
+    ctx.strokeStyle = `rgba(157, 255, 207, ${0.55 + pulse * 0.35})`;
+    ctx.lineWidth = 2 + shields;
+    ctx.beginPath();
+    ctx.moveTo(0, y);
+    ctx.lineTo(this.width, y);
+    ctx.stroke();
+    ctx.restore();
+  }
+
+  // Bolts re-jitter every frame so the strike crackles while it fades.
+  private drawLightningBolts(ctx: CanvasRenderingContext2D) {
+    if (!this.lightningBolts.length) return;
+    ctx.save();
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    for (const bolt of this.lightningBolts) {
+      const dx = bolt.to.x - bolt.from.x;
+      const dy = bolt.to.y - bolt.from.y;
+      const span = Math.hypot(dx, dy) || 1;
+      const normal = { x: -dy / span, y: dx / span };
+      const segments = Math.max(3, Math.round(span / 40));
+      ctx.globalAlpha = bolt.life / bolt.maxLife;
+      ctx.strokeStyle = 'rgba(135, 187, 255, 0.95)';
+      ctx.lineWidth = 3;
+      ctx.beginPath();
+      ctx.moveTo(bolt.from.x, bolt.from.y);
+      for (let i = 1; i < segments; i++) {
+        const t = i / segments;
+        const jitter = (Math.random() - 0.5) * 26;
+        const x = bolt.from.x + dx * t + normal.x * jitter;
+        const y = bolt.from.y + dy * t + normal.y * jitter;
+        ctx.lineTo(x, y);
       }
+      ctx.lineTo(bolt.to.x, bolt.to.y);
+      ctx.stroke();
+      ctx.strokeStyle = 'rgba(255, 255, 255, 0.9)';
+      ctx.lineWidth = 1.2;
+      ctx.stroke();
     }
     ctx.restore();
   }
 
+  private drawModifierEffects(ctx: CanvasRenderingContext2D) {
+    const frame = { time: this.lastTime, enableShadows: this.performance.enableShadows };
+    for (const mod of this.core.draftedModifiers) {
+      MODIFIER_EFFECTS[mod.id]?.(ctx, mod, this.core, frame);
+    }
+  }
+
   private drawBackground(ctx: CanvasRenderingContext2D) {
     ctx.save();
     const enableShadows = this.performance.enableShadows;
@@ -1984,7 +1667,7 @@ export class Game {
     for (const star of this.backgroundStars) {
       const twinkle = (Math.sin(time * star.twinkleSpeed + star.twinklePhase) + 1) * 0.5;
       const x = star.xPercent * this.width - this.screenShakeOffset.x * (1 - star.parallax);
-      const yRange = this.height - this.bottomSafeZone * 0.4;
+      const yRange = this.height - this.core.bottomSafeZone * 0.4;
       const y = star.yPercent * yRange - this.screenShakeOffset.y * (1 - star.parallax);
       const radius = star.radius * (0.6 + twinkle * 0.7);
       ctx.globalAlpha = 0.25 + twinkle * 0.65;
@@ -2004,7 +1687,7 @@ export class Game {
 
     ctx.strokeStyle = 'rgba(79, 168, 255, 0.08)';
     ctx.lineWidth = 1;
-    const gridBottom = this.height - this.bottomSafeZone;
+    const gridBottom = this.height - this.core.bottomSafeZone;
     for (let y = gridBottom; y >= 0; y -= 100) {
       ctx.beginPath();
       ctx.moveTo(0, y);
@@ -2012,17 +1695,17 @@ export class Game {
       ctx.stroke();
     }
 
-    const comboGlow = clamp(this.comboHeat / 18, 0, 1);
+    const comboGlow = clamp(this.core.comboHeat / 18, 0, 1);
     if (comboGlow > 0) {
       ctx.save();
       ctx.globalCompositeOperation = 'lighter';
       ctx.globalAlpha = 0.14 + comboGlow * 0.32;
       const pulse = ctx.createRadialGradient(
         this.width / 2,
-        this.height - this.bottomSafeZone,
+        this.height - this.core.bottomSafeZone,
         this.width * 0.1,
         this.width / 2,
-        this.height - this.bottomSafeZone,
+        this.height - this.core.bottomSafeZone,
         this.width * 0.85,
       );
       pulse.addColorStop(0, 'rgba(255, 86, 177, 1)');
@@ -2039,24 +1722,25 @@ export class Game {
 
   private drawAim(ctx: CanvasRenderingContext2D) {
     if (!this.pointer.dragging) return;
-    const drag = subtract(this.cannonPosition, this.pointer.current);
+    const drag = subtract(this.core.cannonPosition, this.pointer.current);
     const dir = normalize(drag);
     const lengthPixels = clamp(length(drag), 0, 280);
+    const reach = 0.6 * (1 + metaUpgradeBonus(this.core.mode.metaUpgrades, 'aimGuide'));
     ctx.save();
-    ctx.translate(this.cannonPosition.x, this.cannonPosition.y);
+    ctx.translate(this.core.cannonPosition.x, this.core.cannonPosition.y);
     ctx.strokeStyle = 'rgba(0, 255, 213, 0.6)';
     ctx.setLineDash([8, 6]);
     ctx.lineWidth = 4;
     ctx.beginPath();
     ctx.moveTo(0, 0);
-    ctx.lineTo(dir.x * lengthPixels * 0.6, dir.y * lengthPixels * 0.6);
+    ctx.lineTo(dir.x * lengthPixels * reach, dir.y * lengthPixels * reach);
     ctx.stroke();
     ctx.restore();
   }
 
   private drawCannon(ctx: CanvasRenderingContext2D) {
     ctx.save();
-    ctx.translate(this.cannonPosition.x, this.cannonPosition.y);
+    ctx.translate(this.core.cannonPosition.x, this.core.cannonPosition.y);
     ctx.fillStyle = '#10152f';
     const width = 100;
     const height = 80;
@@ -0,0 +1,1339 @@
+import type {
+  AmplifierBoost,
+  ArenaFieldConfig,
+  BossStatus,
+  BumperConfig,
+  DifficultyDefinition,
+  DraftOffer,
+  EnemyKind,
+  EnemyWaveScaling,
+  GameInput,
+  GameSnapshot,
+  ModifierRarity,
+  ModifierState,
+  PowerupKind,
+  RunModeConfig,
+  RunModifierId,
+  Vector2,
+  WaveStartAnnouncement,
+} from './types';
+import {
+  clamp,
+  distanceSq,
+  distanceToSegmentSq,
+  dot,
+  length,
+  normalize,
+  reflect,
+  scale,
+  subtract,
+} from './utils';
+import { Orb } from './entities/Orb';
+import type { EnemyHit, EnemyPart } from './entities/colliders';
+import type { Enemy } from './entities/Enemy';
+import { Boss } from './entities/Boss';
+import { type ArenaField, createArenaField } from './entities/ArenaField';
+import { Bumper } from './entities/Bumper';
+import { rollEliteAffixes } from './entities/eliteAffixes';
+import { createEnemy, getEnemyDefinition } from './entities/enemies';
+import { POWERUP_COLORS, POWERUP_KINDS, Powerup } from './entities/Powerup';
+import { WaveManager } from './waves/WaveManager';
+import {
+  MAJOR_MODIFIERS,
+  MODIFIER_MAP,
+  UPGRADE_MODIFIERS,
+  type ActiveModifier,
+  type DamageEvent,
+  type DraftModifier,
+  type LaunchEvent,
+  type ModifierHooks,
+} from './modifiers';
+import { BOSS_RUSH_CORE_MODIFIERS, BOSS_RUSH_FIGHTS } from './bossRush';
+import { CAMPAIGN_BOSS_WAVE } from './campaign';
+import { metaUpgradeBonus } from './profile';
+import { Rng, createRunSeed } from './rng';
+import { ReplayRecorder, type ReplayData } from './replay/Replay';
+import { RUN_SAVE_VERSION, type RunSaveData } from './runSave';
+
+export const SIMULATION_STEP = 1 / 120;
+
+export interface DamageNumberOptions {
+  // Killing blow (or a broken part).
+  critical?: boolean;
+  // Weak-point hit that dealt bonus damage.
+  crit?: boolean;
+  shield?: boolean;
+}
+
+export type OrbHazardResult = 'drained' | 'destroyed';
+
+// Presentation hooks. Every method is optional so the core runs untouched in
+// Node with no listener at all; the browser Game wires these into the canvas
+// effects and DOM overlays.
+export interface GameCoreListener {
+  spawnParticles?(position: Vector2, color: string, count: number, speed: number, radius: number): void;
+  spawnImpactWave?(position: Vector2, maxRadius?: number, duration?: number, color?: string): void;
+  addScreenShake?(intensity: number, duration?: number): void;
+  showToast?(message: string, duration?: number): void;
+  damageDealt?(position: Vector2, amount: number, options: DamageNumberOptions): void;
+  scoreAwarded?(position: Vector2, score: number): void;
+  waveStarted?(info: WaveStartAnnouncement): void;
+  waveCleared?(clearedWave: number, perfect: boolean): void;
+  novaCharged?(origin: Vector2, becameReady: boolean): void;
+  novaActivated?(affected: Vector2[]): void;
+  lightningStruck?(origin: Vector2, targets: Vector2[]): void;
+  draftOffered?(offer: DraftOffer): void;
+  draftClosed?(): void;
+  modifierApplied?(definition: DraftModifier): void;
+  // Fires once each wave boundary has settled (draft rolled) in resumable modes.
+  checkpointReached?(save: RunSaveData): void;
+  runEnded?(): void;
+}
+
+export interface GameCoreOptions {
+  difficulty: DifficultyDefinition;
+  mode?: RunModeConfig;
+  seed?: number;
+  width?: number;
+  height?: number;
+  listener?: GameCoreListener;
+}
+
+interface PendingDraft {
+  stage: DraftOffer['stage'];
+  options: DraftModifier[];
+}
+
+export class GameCore {
+  public width: number;
+  public height: number;
+  public readonly bottomSafeZone = 180;
+  public readonly baseEnemySpeed = 55;
+
+  public orbs: Orb[] = [];
+  public enemies: Enemy[] = [];
+  public bumpers: Bumper[] = [];
+  public fields: ArenaField[] = [];
+  public powerups: Powerup[] = [];
+  public modifiers: ModifierState;
+  public readonly rng: Rng;
+  public readonly mode: RunModeConfig;
+  public cannonPosition: Vector2;
+
+  private listener: GameCoreListener;
+  private readonly waveManager: WaveManager;
+  private readonly difficulty: DifficultyDefinition;
+  private readonly novaChargeMax = 100;
+  private readonly novaChargePerKill = 7;
+  private readonly maxLives = 3;
+  private readonly maxFocus: number;
+  private readonly maxBreachShields = 2;
+  private readonly maxMultiballOrbs = 12;
+  private readonly lightningTargets = 5;
+  private readonly lightningDamage = 3;
+  private readonly magnetDuration = 8;
+
+  private seed: number;
+  private tick = 0;
+  private frame = 0;
+  private recorder: ReplayRecorder;
+  private launchCooldown = 0;
+  private aftertouchActive = false;
+  private aftertouchDirection = 0;
+  private novaCharge = 0;
+  private waveIntroDelay = 0;
+  private score = 0;
+  private heat = 0;
+  private comboTimer = 0;
+  private focus = 70;
+  // Seconds left on the HUD's drain pulse after an enemy last siphoned Focus.
+  private focusDrainPulse = 0;
+  private lives: number;
+  private revivesLeft: number;
+  private waveId = 'S1-W1';
+  private over = false;
+  private cleared = false;
+  private breaches = 0;
+  private perfectWaves = 0;
+  private waveBreached = false;
+  private powerupDropChance = 0;
+  private breachShields = 0;
+  private magnetTimer = 0;
+  private availableMajorModifiers: DraftModifier[];
+  private pendingDraft: PendingDraft | null = null;
+  private completedWaves = 0;
+  private enemyScaling: EnemyWaveScaling;
+  // Drafted modifiers in pick order; hooks fire in this order.
+  private activeModifiers: ActiveModifier[] = [];
+
+  constructor(options: GameCoreOptions) {
+    this.difficulty = options.difficulty;
+    this.mode = options.mode ?? { id: 'standard', enemyModifiers: [] };
+    this.listener = options.listener ?? {};
+    this.width = options.width ?? 720;
+    this.height = options.height ?? 1280;
+    this.cannonPosition = { x: this.width / 2, y: this.height - this.bottomSafeZone / 2 };
+
+    this.seed = options.seed ?? createRunSeed();
+    this.rng = new Rng(this.seed);
+    this.waveManager = new WaveManager(this);
+    this.availableMajorModifiers = [...MAJOR_MODIFIERS];
+    this.modifiers = this.createInitialModifiers();
+    this.lives = this.maxLives;
+    this.maxFocus = 100 + metaUpgradeBonus(this.mode.metaUpgrades, 'focusCapacity');
+    this.revivesLeft = this.startingRevives;
+    this.enemyScaling = this.createDefaultEnemyScaling();
+    this.recorder = this.createRecorder();
+  }
+
+  get runSeed() {
+    return this.seed;
+  }
+
+  get difficultyId() {
+    return this.difficulty.id;
+  }
+
+  get hasActiveOrbs() {
+    return this.orbs.some((orb) => orb.alive);
+  }
+
+  get canLaunch() {
+    return !this.over && !this.pendingDraft && this.launchCooldown <= 0;
+  }
+
+  get isDrafting() {
+    return this.pendingDraft !== null;
+  }
+
+  get isOver() {
+    return this.over;
+  }
+
+  get comboHeat() {
+    return this.heat;
+  }
+
+  get comboTier() {
+    return Math.floor(this.heat / 5);
+  }
+
+  get breachShieldCount() {
+    return this.breachShields;
+  }
+
+  get isMagnetActive() {
+    return this.magnetTimer > 0;
+  }
+
+  get waveNumber() {
+    return this.waveManager.waveNumber;
+  }
+
+  get elapsedTicks() {
+    return this.tick;
+  }
+
+  // Counts every step() call, including the frozen ones while a draft is open,
+  // so replays can line inputs up with the exact call that consumed them.
+  get elapsedFrames() {
+    return this.frame;
+  }
+
+  setListener(listener: GameCoreListener) {
+    const previous = this.listener;
+    this.listener = listener;
+    return previous;
+  }
+
+  exportReplay(): ReplayData {
+    return this.recorder.snapshot(this.frame);
+  }
+
+  get draftedModifiers(): readonly ActiveModifier[] {
+    return this.activeModifiers;
+  }
+
+  // Only open-ended runs resume; modes with a finish line are short enough to
+  // replay, and playtests belong to the editor session that started them.
+  get isResumable() {
+    return this.mode.id === 'standard' && !this.mode.playtest;
+  }
+
+  createSave(): RunSaveData {
+    return {
+      version: RUN_SAVE_VERSION,
+      seed: this.seed,
+      difficultyId: this.difficulty.id,
+      mode: this.mode,
+      rngState: this.rng.getState(),
+      tick: this.tick,
+      score: this.score,
+      lives: this.lives,
+      revivesLeft: this.revivesLeft,
+      focus: this.focus,
+      comboHeat: this.heat,
+      comboTimer: this.comboTimer,
+      wave: this.waveManager.waveNumber,
+      waveId: this.waveId,
+      completedWaves: this.completedWaves,
+      breaches: this.breaches,
+      perfectWaves: this.perfectWaves,
+      novaCharge: this.novaCharge,
+      breachShields: this.breachShields,
+      modifiers: { ...this.modifiers },
+      activeModifiers: this.activeModifiers.map((mod) => ({ ...mod })),
+      availableMajorModifiers: this.availableMajorModifiers.map((mod) => mod.id),
+      draft: this.pendingDraft
+        ? {
+            stage: this.pendingDraft.stage,
+            options: this.pendingDraft.options.map((option) => option.id),
+          }
+        : null,
+    };
+  }
+
+  // Rebuilds a run from a wave-boundary checkpoint. Expects a save already
+  // checked by parseRunSave, so every modifier id resolves. The replay
+  // recorder restarts too, which makes a resumed run's replay unplayable.
+  restoreSave(save: RunSaveData) {
+    this.reset(save.seed);
+    this.rng.setState(save.rngState);
+    this.tick = save.tick;
+    this.score = save.score;
+    this.lives = save.lives;
+    this.revivesLeft = save.revivesLeft;
+    this.focus = save.focus;
+    this.heat = save.comboHeat;
+    this.comboTimer = save.comboTimer;
+    this.waveId = save.waveId;
+    this.completedWaves = save.completedWaves;
+    this.breaches = save.breaches;
+    this.perfectWaves = save.perfectWaves;
+    this.novaCharge = save.novaCharge;
+    this.breachShields = save.breachShields;
+    this.modifiers = { ...save.modifiers };
+    this.activeModifiers = save.activeModifiers.map((mod) => ({ ...mod }));
+    this.availableMajorModifiers = this.lookupModifiers(save.availableMajorModifiers);
+    this.pendingDraft = save.draft
+      ? { stage: save.draft.stage, options: this.lookupModifiers(save.draft.options) }
+      : null;
+    this.waveManager.restore(save.wave);
+  }
+
+  private lookupModifiers(ids: readonly RunModifierId[]): DraftModifier[] {
+    return ids.flatMap((id) => MODIFIER_MAP.get(id) ?? []);
+  }
+
+  // Re-sends an open draft to the listener, e.g. after the UI was rebuilt
+  // around a restored run.
+  announcePendingDraft() {
+    if (this.pendingDraft) {
+      this.offerDraft(this.pendingDraft);
+    }
+  }
+
+  resize(width: number, height: number) {
+    this.width = width;
+    this.height = height;
+    this.cannonPosition = { x: this.width / 2, y: this.height - this.bottomSafeZone / 2 };
+    for (const bumper of this.bumpers) {
+      bumper.layout(width, height);
+    }
+    for (const field of this.fields) {
+      field.layout(width, height);
+    }
+    this.recorder.recordResize(this.frame, width, height);
+  }
+
+  reset(seed = this.seed) {
+    this.seed = seed;
+    this.rng.reseed(seed);
+    this.tick = 0;
+    this.frame = 0;
+    this.recorder = this.createRecorder();
+    this.score = 0;
+    this.heat = 0;
+    this.comboTimer = 0;
+    this.focus = 70;
+    this.focusDrainPulse = 0;
+    this.lives = this.maxLives;
+    this.revivesLeft = this.startingRevives;
+    this.waveId = 'S1-W1';
+    this.over = false;
+    this.cleared = false;
+    this.breaches = 0;
+    this.perfectWaves = 0;
+    this.waveBreached = false;
+    this.orbs = [];
+    this.enemies = [];
+    this.bumpers = [];
+    this.fields = [];
+    this.powerups = [];
+    this.powerupDropChance = 0;
+    this.breachShields = 0;
+    this.magnetTimer = 0;
+    this.launchCooldown = 0;
+    this.aftertouchActive = false;
+    this.aftertouchDirection = 0;
+    this.waveIntroDelay = 0;
+    this.novaCharge = 0;
+    this.availableMajorModifiers = [...MAJOR_MODIFIERS];
+    this.modifiers = this.createInitialModifiers();
+    this.activeModifiers = [];
+    this.pendingDraft = null;
+    this.completedWaves = 0;
+    this.enemyScaling = this.createDefaultEnemyScaling();
+    this.waveManager.reset();
+    if (this.mode.id === 'bossRush') {
+      this.grantCoreModifiers(BOSS_RUSH_CORE_MODIFIERS);
+    }
+  }
+
+  step(dt: number, inputs: readonly GameInput[] = []) {
+    for (const input of inputs) {
+      this.recorder.record(this.frame, input);
+      this.applyInput(input);
+    }
+    this.frame += 1;
+    if (this.over || this.pendingDraft) {
+      return;
+    }
+
+    this.tick += 1;
+    this.launchCooldown = Math.max(0, this.launchCooldown - dt);
+    this.focusDrainPulse = Math.max(0, this.focusDrainPulse - dt);
+    this.waveManager.update(dt);
+
+    if (this.aftertouchActive && this.focus > 0) {
+      const force = this.aftertouchDirection * 680 * dt;
+      for (const orb of this.orbs) {
+        if (!orb.alive) continue;
+        orb.velocity.x += force;
+      }
+      this.focus = clamp(this.focus - 20 * dt, 0, this.maxFocus);
+    }
+
+    for (const orb of this.orbs) {
+      orb.update(dt, this);
+    }
+
+    for (const enemy of this.enemies) {
+      if (enemy.alive) {
+        enemy.update(dt, this);
+      }
+    }
+
+    for (const bumper of this.bumpers) {
+      bumper.update(dt);
+    }
+    for (const field of this.fields) {
+      field.update(dt);
+    }
+
+    this.magnetTimer = Math.max(0, this.magnetTimer - dt);
+    for (const powerup of this.powerups) {
+      powerup.update(dt, this);
+    }
+
+    this.handleCollisions();
+    this.collectPowerups();
+
+    for (const mod of this.activeModifiers) {
+      this.modifierHooks(mod).update?.(mod, this, dt);
+    }
+
+    this.orbs = this.orbs.filter((orb) => orb.alive);
+    this.enemies = this.enemies.filter((enemy) => enemy.alive);
+    this.powerups = this.powerups.filter((powerup) => powerup.alive);
+
+    this.comboTimer += dt;
+    if (this.comboTimer > 2 && this.heat > 0) {
+      this.heat = Math.max(0, this.heat - dt * 2);
+    }
+  }
+
+  getSnapshot(): GameSnapshot {
+    const heat = Math.floor(this.heat);
+    const modifierCounts: GameSnapshot['modifierCounts'] = [];
+    for (const { id, stacks } of this.activeModifiers) {
+      modifierCounts.push({ id, count: stacks });
+    }
+    return {
+      tick: this.tick,
+      seed: this.seed,
+      difficultyId: this.difficulty.id,
+      modeId: this.mode.id,
+      score: Math.floor(this.score),
+      lives: this.lives,
+      maxLives: this.maxLives,
+      focus: this.focus,
+      maxFocus: this.maxFocus,
+      focusDraining: this.focusDrainPulse > 0,
+      comboHeat: heat,
+      comboTier: Math.floor(heat / 5),
+      comboProgress: (this.heat % 5) / 5,
+      wave: this.waveManager.waveNumber,
+      waveId: this.waveId,
+      completedWaves: this.completedWaves,
+      novaCharge: this.novaCharge,
+      novaChargeMax: this.novaChargeMax,
+      novaReady: this.isNovaPulseReady(),
+      lastModifier: this.modifiers.lastPicked,
+      modifierCounts,
+      draft: this.pendingDraft
+        ? {
+            stage: this.pendingDraft.stage,
+            options: this.pendingDraft.options.map((option) => option.id),
+          }
+        : null,
+      over: this.over,
+      cleared: this.cleared,
+      breaches: this.breaches,
+      perfectWaves: this.perfectWaves,
+      boss: this.getBossStatus(),
+      orbs: this.orbs.map((orb) => ({
+        id: orb.id,
+        position: { ...orb.position },
+        velocity: { ...orb.velocity },
+        radius: orb.radius,
+      })),
+      enemies: this.enemies.map((enemy) => ({
+        type: enemy.type,
+        position: { ...enemy.position },
+        radius: enemy.radius,
+        hp: enemy.hp,
+        maxHp: enemy.maxHp,
+        shield: enemy.shield,
+        isElite: enemy.isElite,
+        isBoss: enemy.isBoss,
+      })),
+    };
+  }
+
+  private applyInput(input: GameInput) {
+    switch (input.type) {
+      case 'launch':
+        this.launchOrb(input.target);
+        break;
+      case 'aftertouch':
+        this.aftertouchActive = input.active && this.hasActiveOrbs;
+        this.aftertouchDirection = input.active ? clamp(input.direction, -1, 1) : 0;
+        break;
+      case 'nova':
+        if (!this.over && !this.pendingDraft && this.lives > 0 && this.isNovaPulseReady()) {
+          this.activateNovaPulse();
+        }
+        break;
+      case 'draft':
+        this.resolveDraftChoice(input.modifierId);
+        break;
+    }
+  }
+
+  get activeBoss(): Boss | null {
+    for (const enemy of this.enemies) {
+      if (enemy.alive && enemy instanceof Boss) {
+        return enemy;
+      }
+    }
+    return null;
+  }
+
+  getBossStatus(): BossStatus | null {
+    return this.activeBoss?.getStatus() ?? null;
+  }
+
+  setBumpers(configs: readonly BumperConfig[]) {
+    this.bumpers = configs.map((config) => new Bumper(config, this.width, this.height));
+  }
+
+  setArenaFields(configs: readonly ArenaFieldConfig[]) {
+    this.fields = configs.map((config) => createArenaField(config, this.width, this.height));
+  }
+
+  setPowerupDropChance(chance: number) {
+    this.powerupDropChance = clamp(chance, 0, 1);
+  }
+
+  // Lets bosses drop extra fields mid-fight; they last until the next wave loads.
+  addArenaField(config: ArenaFieldConfig) {
+    this.fields.push(createArenaField(config, this.width, this.height));
+  }
+
+  onWaveStart(info: WaveStartAnnouncement) {
+    this.waveId = info.blueprintId;
+    this.enemyScaling = { ...info.scaling };
+    this.waveBreached = false;
+    this.scheduleWaveIntroDelay(1.35);
+    this.recorder.markWave(info.waveNumber, this.frame - 1);
+    for (const mod of this.activeModifiers) {
+      this.modifierHooks(mod).onWaveStart?.(mod, this, info.waveNumber);
+    }
+    this.listener.waveStarted?.(info);
+  }
+
+  onWaveComplete() {
+    this.score += 500;
+    this.restoreFocus(15);
+    this.completedWaves += 1;
+    const perfect = !this.waveBreached;
+    if (perfect) {
+      this.perfectWaves += 1;
+    }
+    this.listener.waveCleared?.(Math.max(1, this.completedWaves), perfect);
+    const finalWave = this.finalWave;
+    if (finalWave !== null && this.completedWaves >= finalWave) {
+      this.cleared = true;
+      this.handleGameOver();
+      return;
+    }
+    this.beginModifierDraft();
+    if (this.isResumable && !this.over) {
+      this.listener.checkpointReached?.(this.createSave());
+    }
+  }
+
+  // Modes with a finish line end the run once this many waves are cleared.
+  private get finalWave() {
+    switch (this.mode.id) {
+      case 'bossRush':
+        return BOSS_RUSH_FIGHTS;
+      case 'campaign':
+        return CAMPAIGN_BOSS_WAVE;
+      default:
+        return this.mode.playtest && this.mode.wavePack ? this.mode.wavePack.waves.length : null;
+    }
+  }
+
+  // Applies random core mods outside the draft, e.g. Boss Rush's starting kit.
+  private grantCoreModifiers(count: number) {
+    for (let i = 0; i < count && this.availableMajorModifiers.length > 0; i++) {
+      const pick = this.rng.pick(this.availableMajorModifiers);
+      this.applyModifier(pick);
+      this.availableMajorModifiers = this.availableMajorModifiers.filter(
+        (mod) => mod.id !== pick.id,
+      );
+    }
+  }
+
+  private beginModifierDraft() {
+    if (this.pendingDraft || this.lives <= 0) {
+      return;
+    }
+    const upgradeOptions = this.pickUpgradeOptions();
+    if (upgradeOptions.length > 0) {
+      this.offerDraft({ stage: 'upgrade', options: upgradeOptions });
+      return;
+    }
+    this.offerMajorDraft();
+  }
+
+  private offerMajorDraft() {
+    // Boss Rush offers a core mod after every fight instead of every third wave.
+    const majorInterval = this.mode.id === 'bossRush' ? 1 : 3;
+    const shouldOfferMajor =
+      this.availableMajorModifiers.length > 0 && this.completedWaves % majorInterval === 0;
+    if (shouldOfferMajor) {
+      const majorOptions = this.pickMajorOptions();
+      if (majorOptions.length > 0) {
+        this.offerDraft({ stage: 'major', options: majorOptions });
+        return;
+      }
+    }
+    this.closeDraft();
+  }
+
+  private offerDraft(draft: PendingDraft) {
+    this.pendingDraft = draft;
+    const offer: DraftOffer =
+      draft.stage === 'upgrade'
+        ? {
+            stage: 'upgrade',
+            options: draft.options.map((option) => option.id),
+            title: 'Choose your enhancement',
+            subtitle: 'Stack tuning upgrades or restore a heart between waves.',
+          }
+        : {
+            stage: 'major',
+            options: draft.options.map((option) => option.id),
+            title: 'Choose a core modifier',
+            subtitle: 'Select one of the experimental puck mods.',
+          };
+    this.listener.draftOffered?.(offer);
+  }
+
+  private closeDraft() {
+    this.pendingDraft = null;
+    this.listener.draftClosed?.();
+  }
+
+  private resolveDraftChoice(id: RunModifierId) {
+    const draft = this.pendingDraft;
+    if (!draft) return;
+    const choice = draft.options.find((option) => option.id === id);
+    if (!choice) return;
+    this.applyModifier(choice);
+    if (draft.stage === 'major') {
+      this.availableMajorModifiers = this.availableMajorModifiers.filter(
+        (mod) => mod.id !== choice.id,
+      );
+      this.closeDraft();
+      return;
+    }
+    this.pendingDraft = null;
+    this.offerMajorDraft();
+  }
+
+  private pickMajorOptions(): DraftModifier[] {
+    if (this.availableMajorModifiers.length === 0) {
+      return [];
+    }
+    if (this.availableMajorModifiers.length <= 3) {
+      return [...this.availableMajorModifiers];
+    }
+    const pool = [...this.availableMajorModifiers];
+    const selections: DraftModifier[] = [];
+    const fallback: Record<ModifierRarity, ModifierRarity[]> = {
+      common: ['common', 'uncommon', 'rare'],
+      uncommon: ['uncommon', 'rare', 'common'],
+      rare: ['rare', 'uncommon', 'common'],
+    };
+    for (let i = 0; i < 3; i++) {
+      if (!pool.length) break;
+      const desired = this.rollRarity();
+      let candidates: DraftModifier[] = [];
+      for (const bucket of fallback[desired]) {
+        candidates = pool.filter((mod) => mod.rarity === bucket);
+        if (candidates.length) break;
+      }
+      if (!candidates.length) {
+        candidates = pool;
+      }
+      const pick = this.rng.pick(candidates);
+      selections.push(pick);
+      pool.splice(pool.indexOf(pick), 1);
+    }
+    return selections;
+  }
+
+  private pickUpgradeOptions(): DraftModifier[] {
+    const context = { lives: this.lives, maxLives: this.maxLives };
+    const available = UPGRADE_MODIFIERS.filter(
+      (modifier) => !modifier.available || modifier.available(this.modifiers, context),
+    );
+    if (available.length <= 3) {
+      return [...available];
+    }
+    const pool = [...available];
+    const selections: DraftModifier[] = [];
+    for (let i = 0; i < 3; i++) {
+      if (!pool.length) break;
+      const pickIndex = this.rng.int(pool.length);
+      selections.push(pool[pickIndex]);
+      pool.splice(pickIndex, 1);
+    }
+    return selections;
+  }
+
+  private rollRarity(): ModifierRarity {
+    const roll = this.rng.random();
+    if (roll < 0.6) return 'common';
+    if (roll < 0.9) return 'uncommon';
+    return 'rare';
+  }
+
+  private applyModifier(definition: DraftModifier) {
+    if (definition.instant) {
+      definition.onPick?.({ id: definition.id, stacks: 1, timer: 0 }, this);
+      this.modifiers.lastPicked = definition.id;
+      return;
+    }
+    const previousSize = this.modifiers.orbSizeMultiplier;
+    definition.apply?.(this.modifiers);
+    this.modifiers.lastPicked = definition.id;
+    let mod = this.activeModifiers.find((entry) => entry.id === definition.id);
+    if (mod) {
+      mod.stacks += 1;
+    } else {
+      mod = { id: definition.id, stacks: 1, timer: 0 };
+      this.activeModifiers.push(mod);
+    }
+
+    if (this.modifiers.orbSizeMultiplier !== previousSize && previousSize > 0) {
+      const ratio = this.modifiers.orbSizeMultiplier / previousSize;
+      for (const orb of this.orbs) {
+        orb.radius *= ratio;
+      }
+    }
+
+    definition.onPick?.(mod, this);
+    this.listener.modifierApplied?.(definition);
+    this.listener.showToast?.(`${definition.name} equipped!`, 1600);
+  }
+
+  hasModifier(id: RunModifierId) {
+    return this.activeModifiers.some((mod) => mod.id === id);
+  }
+
+  private modifierHooks(mod: ActiveModifier): ModifierHooks {
+    return MODIFIER_MAP.get(mod.id) ?? {};
+  }
+
+  onEnemyKilled(enemy: Enemy, orb: Orb) {
+    // Elites pay out per affix; the fixed elite types count as one.
+    const eliteRank = enemy.isElite && !enemy.isBoss ? Math.max(1, enemy.affixes.length) : 0;
+    if (enemy.grantsScore) {
+      const { scoreValue } = getEnemyDefinition(enemy.type);
+      const baseScore = (scoreValue + enemy.maxHp * 15) * (1 + eliteRank * 0.5);
+      const tier = Math.floor(this.heat / 5);
+      const multiplier = 1 + tier * 0.1;
+      const delta = Math.round(baseScore * multiplier);
+      this.score += delta;
+      this.emitScorePop(enemy.position, delta);
+    }
+    const impactRadius = enemy.isBoss || enemy.isElite ? 220 : 150;
+    this.listener.spawnImpactWave?.(enemy.position, impactRadius);
+
+    this.heat += 1;
+    this.comboTimer = 0;
+    this.restoreFocus(10);
+    this.chargeNovaPulse(enemy.position, this.novaChargePerKill * (1 + eliteRank));
+    this.rollPowerupDrop(enemy);
+    for (const mod of this.activeModifiers) {
+      this.modifierHooks(mod).onKill?.(mod, this, enemy, orb);
+    }
+  }
+
+  // Only rolls when the wave allows drops so drop-free waves keep their RNG stream.
+  private rollPowerupDrop(enemy: Enemy) {
+    if (this.powerupDropChance <= 0 || this.rng.random() >= this.powerupDropChance) return;
+    const kind = POWERUP_KINDS[Math.floor(this.rng.random() * POWERUP_KINDS.length)];
+    const floor = this.height - this.bottomSafeZone - 60;
+    const position = {
+      x: clamp(enemy.position.x, 40, this.width - 40),
+      y: clamp(enemy.position.y, 60, floor),
+    };
+    this.powerups.push(new Powerup(kind, position));
+    this.listener.spawnParticles?.(position, `rgb(${POWERUP_COLORS[kind]})`, 8, 40, 100);
+  }
+
+  private collectPowerups() {
+    for (const powerup of this.powerups) {
+      if (!powerup.alive) continue;
+      const orb = this.orbs.find(
+        (candidate) =>
+          candidate.alive &&
+          distanceSq(candidate.position, powerup.position) <=
+            (candidate.radius + powerup.radius) ** 2,
+      );
+      if (orb) {
+        powerup.alive = false;
+        this.applyPowerup(powerup.kind, powerup.position, orb);
+      }
+    }
+  }
+
+  private applyPowerup(kind: PowerupKind, position: Vector2, orb: Orb) {
+    const color = `rgb(${POWERUP_COLORS[kind]})`;
+    this.listener.spawnParticles?.(position, color, 16, 80, 200);
+    this.listener.spawnImpactWave?.(position, 120, 0.35, color);
+    switch (kind) {
+      case 'multiball': {
+        const live = this.orbs.filter((candidate) => candidate.alive);
+        let budget = this.maxMultiballOrbs - live.length;
+        for (const candidate of live) {
+          if (budget <= 0) break;
+          this.splitOrb(candidate);
+          budget -= 1;
+        }
+        this.listener.showToast?.('Multiball!');
+        break;
+      }
+      case 'lightning':
+        this.strikeLightning(position, orb);
+        this.listener.showToast?.('Lightning Strike!');
+        break;
+      case 'shield':
+        this.breachShields = Math.min(this.maxBreachShields, this.breachShields + 1);
+        this.listener.showToast?.('Breach Shield Up!');
+        break;
+      case 'magnet':
+        this.magnetTimer = this.magnetDuration;
+        this.listener.showToast?.('Magnet!');
+        break;
+    }
+  }
+
+  private strikeLightning(origin: Vector2, orb: Orb) {
+    const targets = this.enemies
+      .filter((enemy) => enemy.alive)
+      .sort((a, b) => distanceSq(a.position, origin) - distanceSq(b.position, origin))
+      .slice(0, this.lightningTargets);
+    const damage = this.scalePlayerDamage(this.lightningDamage * this.modifiers.damageMultiplier);
+    for (const enemy of targets) {
+      enemy.takeDamage(damage, this, orb);
+      this.listener.spawnParticles?.(enemy.position, '#87bbff', 10, 60, 120);
+    }
+    this.listener.lightningStruck?.(
+      origin,
+      targets.map((enemy) => ({ ...enemy.position })),
+    );
+    this.listener.addScreenShake?.(5, 0.25);
+  }
+
+  private chargeNovaPulse(origin: Vector2, amount: number) {
+    const wasReady = this.isNovaPulseReady();
+    this.novaCharge = clamp(this.novaCharge + amount, 0, this.novaChargeMax);
+    this.listener.novaCharged?.(origin, !wasReady && this.isNovaPulseReady());
+  }
+
+  onEnemyBreach(enemy: Enemy) {
+    // Only an enraged boss sinks this far. Shields can't stop it and it takes
+    // every remaining heart, though Second Wind still gets a last say.
+    if (this.breachShields > 0 && !enemy.isBoss) {
+      this.breachShields -= 1;
+      this.listener.showToast?.('Shield held the line!');
+      this.listener.spawnImpactWave?.(enemy.position, 200, 0.45, 'rgba(157, 255, 207, 0.9)');
+      return;
+    }
+    this.breaches += 1;
+    this.waveBreached = true;
+    this.lives = enemy.isBoss ? 0 : Math.max(0, this.lives - 1);
+    this.heat = 0;
+    this.listener.showToast?.(enemy.isBoss ? 'The boss broke through!' : 'Breach! -1 Heart');
+    if (this.lives <= 0 && this.revivesLeft > 0) {
+      this.revivesLeft -= 1;
+      this.lives = 1;
+      this.listener.showToast?.('Second Wind! Back on one heart', 2000);
+      this.listener.spawnImpactWave?.(
+        this.cannonPosition,
+        this.width * 0.6,
+        0.8,
+        'rgba(255, 211, 107, 0.9)',
+      );
+      this.listener.addScreenShake?.(8, 0.4);
+      return;
+    }
+    if (this.lives <= 0) {
+      this.handleGameOver();
+    }
+  }
+
+  onOrbOutOfBounds(_orb: Orb) {
+    if (!this.hasActiveOrbs && this.lives > 0) {
+      this.listener.showToast?.('Reloaded');
+    }
+  }
+
+  // Resource hooks for enemies and hazards. Both clamp to the Focus meter and
+  // return how much actually moved.
+  drainFocus(amount: number) {
+    const drained = Math.min(this.focus, Math.max(0, amount));
+    this.focus -= drained;
+    if (drained > 0) {
+      this.focusDrainPulse = 0.25;
+    }
+    return drained;
+  }
+
+  restoreFocus(amount: number) {
+    const restored = Math.min(this.maxFocus - this.focus, Math.max(0, amount));
+    this.focus += restored;
+    return restored;
+  }
+
+  restoreLife() {
+    if (this.lives >= this.maxLives) return;
+    this.lives += 1;
+    this.listener.showToast?.('Heart restored!', 1600);
+  }
+
+  // Enemy-to-orb hazards (lasers and the like) land here. Focus buffers the
+  // hit when enough is banked; otherwise the orb is destroyed outright.
+  hitOrbWithHazard(orb: Orb, focusCost: number): OrbHazardResult {
+    if (this.focus >= focusCost) {
+      this.focus = clamp(this.focus - focusCost, 0, this.maxFocus);
+      this.listener.spawnParticles?.(orb.position, '#ffd36b', 10, 60, 120);
+      this.listener.addScreenShake?.(3, 0.2);
+      return 'drained';
+    }
+    orb.alive = false;
+    this.listener.spawnParticles?.(orb.position, '#ff5a6e', 18, 80, 160);
+    this.listener.addScreenShake?.(6, 0.3);
+    this.listener.showToast?.('Orb vaporized!', 1000);
+    return 'destroyed';
+  }
+
+  emitWallHit(position: Vector2, orb?: Orb) {
+    if (orb) {
+      orb.bounceCount += 1;
+      for (const mod of this.activeModifiers) {
+        this.modifierHooks(mod).onWallBounce?.(mod, this, orb);
+      }
+    }
+    this.listener.spawnParticles?.(position, '#39d6ff', 5, 40, 120);
+  }
+
+  emitShieldHit(position: Vector2) {
+    this.listener.spawnParticles?.(position, '#92f3ff', 8, 30, 80);
+  }
+
+  emitShieldBreak(position: Vector2) {
+    this.listener.spawnParticles?.(position, '#e0ffbf', 16, 60, 180);
+    this.listener.showToast?.('Shield Broken!');
+    this.listener.spawnImpactWave?.(position, 180, 0.4, 'rgba(224, 255, 191, 0.9)');
+    this.listener.addScreenShake?.(4, 0.3);
+  }
+
+  emitAmplifier(position: Vector2, boost: AmplifierBoost, color: string) {
+    this.listener.spawnParticles?.(position, color, 18, 80, 220);
+    this.listener.spawnImpactWave?.(position, 140, 0.35, color);
+    this.listener.showToast?.(boost === 'damage' ? 'Damage Amped!' : 'Speed Amped!');
+  }
+
+  emitPartBroken(position: Vector2) {
+    this.listener.spawnParticles?.(position, '#ffe57d', 14, 60, 150);
+    this.listener.spawnImpactWave?.(position, 120, 0.35, 'rgba(255, 229, 125, 0.85)');
+    this.listener.addScreenShake?.(5, 0.25);
+  }
+
+  emitBossPhase(boss: Boss) {
+    this.listener.showToast?.(`${boss.bossName}: ${boss.phase.name}`, 1800);
+    this.listener.spawnImpactWave?.(boss.position, 260, 0.6, 'rgba(255, 150, 245, 0.85)');
+    this.listener.addScreenShake?.(10, 0.5);
+  }
+
+  emitBossTelegraph(boss: Boss, message: string) {
+    this.listener.showToast?.(message, 1100);
+    this.listener.spawnImpactWave?.(
+      boss.position,
+      boss.radius * 2.6,
+      0.8,
+      'rgba(255, 179, 230, 0.7)',
+    );
+  }
+
+  emitBossEnrage(boss: Boss) {
+    this.listener.showToast?.(`${boss.bossName} is enraged!`, 2000);
+    this.listener.spawnImpactWave?.(boss.position, 320, 0.7, 'rgba(255, 90, 110, 0.85)');
+    this.listener.addScreenShake?.(12, 0.6);
+  }
+
+  emitSporeCloud(position: Vector2) {
+    this.listener.spawnParticles?.(position, '#c599ff', 20, 50, 140);
+  }
+
+  emitRepairPulse(position: Vector2) {
+    this.listener.spawnParticles?.(position, '#8cffd6', 6, 30, 90);
+  }
+
+  emitRepairInterrupted(position: Vector2) {
+    this.listener.spawnParticles?.(position, '#f4fff9', 10, 60, 160);
+    this.listener.spawnImpactWave?.(position, 90, 0.3, 'rgba(140, 255, 214, 0.8)');
+  }
+
+  emitWarp(from: Vector2, to: Vector2) {
+    this.listener.spawnParticles?.(from, '#b3a4ff', 14, 40, 140);
+    this.listener.spawnParticles?.(to, '#f1edff', 10, 30, 110);
+    this.listener.spawnImpactWave?.(to, 110, 0.3, 'rgba(179, 164, 255, 0.85)');
+  }
+
+  emitEliteDash(position: Vector2) {
+    this.listener.spawnParticles?.(position, '#ffd684', 10, 60, 180);
+  }
+
+  emitStun(position: Vector2) {
+    this.listener.spawnParticles?.(position, '#fff096', 12, 50, 140);
+    this.listener.spawnImpactWave?.(position, 130, 0.35, 'rgba(255, 240, 150, 0.85)');
+  }
+
+  emitScorePop(position: Vector2, score: number) {
+    this.listener.scoreAwarded?.(position, score);
+  }
+
+  emitDamageNumber(position: Vector2, amount: number, options: DamageNumberOptions = {}) {
+    if (amount <= 0 || !Number.isFinite(amount)) {
+      return;
+    }
+    this.listener.damageDealt?.(position, amount, options);
+  }
+
+  laneToWorld(lane: number): Vector2 {
+    const lanes = 6;
+    const padding = 120;
+    const usableWidth = this.width - padding * 2;
+    const step = usableWidth / (lanes - 1);
+    return { x: padding + step * (lane - 1), y: -60 };
+  }
+
+  spawnEnemy(type: EnemyKind, params: { position: Vector2; hp: number; speed: number }) {
+    const scaling = this.enemyScaling;
+    const scaledHpValue = params.hp * scaling.hpMultiplier + scaling.hpBonus;
+    const minimumHp = params.hp + Math.floor(scaling.level / 3);
+    const baseHp = Math.max(1, Math.max(Math.round(scaledHpValue), minimumHp));
+    const hp = Math.max(1, Math.round(baseHp * this.difficulty.enemyHpMultiplier));
+    const speed = params.speed * scaling.speedMultiplier;
+    const spawnParams = { position: params.position, hp, speed, rng: this.rng };
+
+    const enemy = createEnemy(type, spawnParams);
+    this.enemies.push(enemy);
+    return enemy;
+  }
+
+  // Bosses and the built-in elite types keep their own kit.
+  promoteToElite(enemy: Enemy, affixCount: number) {
+    if (enemy.isBoss || enemy.isElite) return;
+    const affixes = rollEliteAffixes(enemy, affixCount, this.rng);
+    if (affixes.length) {
+      enemy.promoteToElite(affixes);
+    }
+  }
+
+  private handleCollisions() {
+    for (const orb of this.orbs) {
+      if (!orb.alive) continue;
+      for (const bumper of this.bumpers) {
+        if (bumper.collide(orb)) {
+          // Bumpers count as walls for bounce and wall-hit modifiers.
+          this.emitWallHit(orb.position, orb);
+          this.listener.spawnParticles?.(orb.position, '#ff96f5', 6, 60, 120);
+        }
+      }
+      for (const enemy of this.enemies) {
+        if (!enemy.alive) continue;
+        const hit = enemy.hitTest(orb.position, orb.radius);
+        if (hit) {
+          this.resolveEnemyHit(orb, enemy, hit);
+          if (!orb.alive) {
+            break;
+          }
+        }
+      }
+    }
+  }
+
+  private resolveEnemyHit(orb: Orb, enemy: Enemy, hit: EnemyHit) {
+    if (hit.shielded) {
+      // Front shields soak the hit and bounce the orb straight back off the
+      // bubble; orbs already leaving pass through.
+      if (dot(orb.velocity, hit.normal) < 0) {
+        enemy.absorbShieldHit(this.computeOrbDamage(orb, enemy), this, orb.position);
+        orb.velocity = reflect(orb.velocity, hit.normal);
+      }
+      return;
+    }
+    if (!hit.part) {
+      this.resolveOrbHit(orb, enemy);
+      return;
+    }
+    if (enemy.isPartVulnerable(hit.part)) {
+      this.resolveOrbHit(orb, enemy, hit.point, hit.part.damageMultiplier, hit.part);
+      return;
+    }
+    // Armored parts deflect incoming orbs without taking damage and let orbs
+    // that slipped through a slit escape again.
+    if (dot(orb.velocity, hit.normal) >= 0) {
+      return;
+    }
+    orb.velocity = reflect(orb.velocity, hit.normal);
+    this.emitShieldHit(orb.position);
+  }
+
+  private resolveOrbHit(
+    orb: Orb,
+    enemy: Enemy,
+    hitPoint = enemy.position,
+    damageScale = 1,
+    part: EnemyPart | null = null,
+  ) {
+    const impactPoint = { ...hitPoint };
+    const direction = normalize(orb.velocity);
+    const damage = this.computeOrbDamage(orb, enemy) * damageScale;
+    if (part?.hp !== undefined) {
+      enemy.damagePart(part, damage, this, orb);
+    } else {
+      enemy.takeDamage(damage, this, orb, direction);
+    }
+    this.listener.spawnParticles?.(impactPoint, orb.color, 12, 40, 140);
+
+    for (const mod of this.activeModifiers) {
+      this.modifierHooks(mod).onHit?.(mod, this, { orb, enemy, point: impactPoint });
+    }
+
+    if (orb.splitOnImpact) {
+      this.splitOrb(orb);
+      return;
+    }
+
+    const relative = subtract(orb.position, impactPoint);
+    const dir = normalize(relative);
+    const speed = length(orb.velocity) * 0.7 + 320;
+    orb.velocity = scale(dir, speed);
+  }
+
+  private splitOrb(orb: Orb) {
+    const speed = length(orb.velocity);
+    const angle = Math.atan2(orb.velocity.y, orb.velocity.x);
+    const spread = 0.28;
+    const offsets = [-spread, spread];
+    for (const offset of offsets) {
+      const theta = angle + offset;
+      const vel = { x: Math.cos(theta) * speed, y: Math.sin(theta) * speed };
+      const clone = orb.cloneWithVelocity(vel);
+      this.orbs.push(clone);
+    }
+    orb.alive = false;
+  }
+
+  // Blast and chain damage are base values; difficulty scaling applies here.
+  triggerExplosion(center: Vector2, source: Orb, radius: number, damage: number) {
+    this.listener.spawnParticles?.(center, '#ff9a61', 18, 120, radius);
+    this.listener.spawnImpactWave?.(center, radius * 1.4, 0.5, 'rgba(255, 170, 120, 0.9)');
+    this.listener.addScreenShake?.(8, 0.35);
+    const radiusSq = radius * radius;
+    for (const enemy of this.enemies) {
+      if (!enemy.alive) continue;
+      if (distanceSq(enemy.position, center) <= radiusSq) {
+        enemy.takeDamage(this.scalePlayerDamage(damage), this, source);
+      }
+    }
+  }
+
+  tickChainLightning(damage: number, range: number) {
+    const aliveOrbs = this.orbs.filter((orb) => orb.alive);
+    if (aliveOrbs.length < 2) return;
+    const rangeSq = range * range;
+    const affected = new Set<Enemy>();
+    const scaledDamage = this.scalePlayerDamage(damage);
+    for (let i = 0; i < aliveOrbs.length; i++) {
+      for (let j = i + 1; j < aliveOrbs.length; j++) {
+        const a = aliveOrbs[i];
+        const b = aliveOrbs[j];
+        for (const enemy of this.enemies) {
+          if (!enemy.alive || affected.has(enemy)) continue;
+          const distSq = distanceToSegmentSq(enemy.position, a.position, b.position);
+          if (distSq <= rangeSq) {
+            enemy.takeDamage(scaledDamage, this, a);
+            this.listener.spawnParticles?.(enemy.position, '#87bbff', 6, 40, 90);
+            affected.add(enemy);
+          }
+        }
+      }
+    }
+  }
+
+  private computeOrbDamage(orb: Orb, enemy: Enemy) {
+    const damage: DamageEvent = {
+      orb,
+      enemy,
+      amount: orb.damage * this.modifiers.damageMultiplier,
+      bonus: 0,
+    };
+    for (const mod of this.activeModifiers) {
+      this.modifierHooks(mod).modifyDamage?.(mod, this, damage);
+    }
+    return this.scalePlayerDamage(damage.amount + damage.bonus);
+  }
+
+  private scalePlayerDamage(amount: number) {
+    return amount * this.difficulty.playerDamageMultiplier;
+  }
+
+  private activateNovaPulse() {
+    this.novaCharge = 0;
+    const affected: Vector2[] = [];
+    for (const enemy of this.enemies) {
+      if (!enemy.alive) continue;
+      const capped = Math.min(enemy.position.y, this.height - this.bottomSafeZone - 80);
+      enemy.position.y = Math.max(40, capped - 200);
+      enemy.velocity.y = Math.min(enemy.velocity.y, -420);
+      enemy.applyKnockback(620);
+      enemy.applySlow(3.8, 0.4);
+      affected.push({ ...enemy.position });
+    }
+    this.listener.novaActivated?.(affected);
+  }
+
+  private isNovaPulseReady() {
+    return this.novaCharge >= this.novaChargeMax - 0.01;
+  }
+
+  private launchOrb(target: Vector2) {
+    const drag = subtract(this.cannonPosition, target);
+    const power = length(drag);
+    if (power < 20 || !this.canLaunch || this.lives <= 0) {
+      return;
+    }
+    this.listener.spawnParticles?.(this.cannonPosition, '#38f3ff', 10, 200, 70);
+    const direction = normalize(drag);
+    const speed = (550 + clamp(power, 0, 280) * 3.2) * 3;
+    const launch: LaunchEvent = {
+      angles: [Math.atan2(direction.y, direction.x)],
+      orb: { radius: 16 * this.modifiers.orbSizeMultiplier },
+    };
+    for (const mod of this.activeModifiers) {
+      this.modifierHooks(mod).onLaunch?.(mod, this, launch);
+    }
+    for (const theta of launch.angles) {
+      const velocity = {
+        x: Math.cos(theta) * speed,
+        y: Math.sin(theta) * speed,
+      };
+      this.orbs.push(new Orb({ ...this.cannonPosition }, velocity, { ...launch.orb }));
+    }
+    this.launchCooldown = 0.35;
+    this.focus = clamp(this.focus - 5, 0, this.maxFocus);
+  }
+
+  private handleGameOver() {
+    this.over = true;
+    this.listener.runEnded?.();
+  }
+
+  private get startingRevives() {
+    return metaUpgradeBonus(this.mode.metaUpgrades, 'secondWind');
+  }
+
+  private createRecorder() {
+    return new ReplayRecorder(
+      this.seed,
+      this.difficulty.id,
+      this.mode,
+      Math.round(1 / SIMULATION_STEP),
+      this.width,
+      this.height,
+    );
+  }
+
+  private createInitialModifiers(): ModifierState {
+    return {
+      orbSizeMultiplier: 1,
+      homingStrength: 0,
+      damageMultiplier: 1,
+    };
+  }
+
+  private createDefaultEnemyScaling(): EnemyWaveScaling {
+    return {
+      level: 0,
+      hpMultiplier: 1,
+      hpBonus: 0,
+      speedMultiplier: 1,
+      countMultiplier: 1,
+      cadenceMultiplier: 1,
+      eliteChance: 0,
+      eliteAffixes: 1,
+    };
+  }
+
+  private scheduleWaveIntroDelay(duration: number) {
+    this.waveIntroDelay = Math.max(this.waveIntroDelay, duration);
+  }
+
+  public consumeWaveIntroDelay(): number {
+    const delay = this.waveIntroDelay;
+    this.waveIntroDelay = 0;
+    return delay;
+  }
+}
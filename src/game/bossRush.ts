@@ -0,0 +1,41 @@
+import { readStored, writeStored } from './storage';
+import type { RunModeConfig } from './types';
+
+export const BOSS_RUSH_FIGHTS = 3;
+// Core mods rolled at the start so the first fight is winnable without the
+// upgrades a normal run would have banked by then.
+export const BOSS_RUSH_CORE_MODIFIERS = 2;
+
+const BOSS_RUSH_BEST_STORAGE_KEY = 'slingpunk:boss-rush-best';
+
+export function createBossRushMode(): RunModeConfig {
+  return { id: 'bossRush', enemyModifiers: [] };
+}
+
+export function formatClearTime(seconds: number) {
+  const minutes = Math.floor(seconds / 60);
+  const remainder = (seconds - minutes * 60).toFixed(1).padStart(4, '0');
+  return `${minutes}:${remainder}`;
+}
+
+function readBossRushBests(): Record<string, number> {
+  const parsed = readStored(BOSS_RUSH_BEST_STORAGE_KEY);
+  return parsed && typeof parsed === 'object' ? (parsed as Record<string, number>) : {};
+}
+
+export function loadBossRushBest(difficultyId: string): number | null {
+  const best = readBossRushBests()[difficultyId];
+  return typeof best === 'number' ? best : null;
+}
+
+// Returns true when the clear time beats the stored best for that difficulty.
+export function recordBossRushTime(difficultyId: string, seconds: number) {
+  const bests = readBossRushBests();
+  const previous = bests[difficultyId];
+  if (typeof previous === 'number' && previous <= seconds) {
+    return false;
+  }
+  bests[difficultyId] = seconds;
+  writeStored(BOSS_RUSH_BEST_STORAGE_KEY, bests);
+  return true;
+}
@@ -0,0 +1,188 @@
+import { readStored, writeStored } from './storage';
+import type {
+  ArenaFieldConfig,
+  BumperConfig,
+  EnemyKind,
+  GameSnapshot,
+  RunModeConfig,
+} from './types';
+import type { EnemyModifierId } from './waves/enemyModifiers';
+
+export const CAMPAIGN_ARENA_WAVES = 5;
+// The boss closes out each arena after its regular waves.
+export const CAMPAIGN_BOSS_WAVE = CAMPAIGN_ARENA_WAVES + 1;
+
+const CAMPAIGN_STORAGE_KEY = 'slingpunk:campaign';
+
+export interface CampaignArena {
+  id: string;
+  name: string;
+  tagline: string;
+  accent: string;
+  boss: EnemyKind;
+  bossName: string;
+  mutations: EnemyModifierId[];
+  bumpers: BumperConfig[];
+  fields: ArenaFieldConfig[];
+  // Score needed for the second star.
+  scoreTarget: number;
+}
+
+export const CAMPAIGN_ARENAS: CampaignArena[] = [
+  {
+    id: 'neon-gutter',
+    name: 'Neon Gutter',
+    tagline: 'Where every operative learns to sling.',
+    accent: '#58f7ff',
+    boss: 'DiskJockey',
+    bossName: 'The Disk Jockey',
+    mutations: [],
+    bumpers: [],
+    fields: [],
+    scoreTarget: 30000,
+  },
+  {
+    id: 'spore-yards',
+    name: 'Spore Yards',
+    tagline: 'The gloobs breed faster out here.',
+    accent: '#d5a8ff',
+    boss: 'MotherGloob',
+    bossName: 'Mother Gloob',
+    mutations: ['broodSwarm'],
+    bumpers: [
+      { shape: 'circle', x: 0.3, y: 0.46, radius: 26 },
+      { shape: 'circle', x: 0.7, y: 0.46, radius: 26 },
+    ],
+    fields: [{ kind: 'amplifier', x: 0.5, y: 0.58, boost: 'damage' }],
+    scoreTarget: 45000,
+  },
+  {
+    id: 'data-vault',
+    name: 'Data Vault',
+    tagline: 'Armored hosts guard the stacks.',
+    accent: '#7dffb5',
+    boss: 'Archivist9000',
+    bossName: 'Archivist-9000',
+    mutations: ['reinforcedCarapace'],
+    bumpers: [
+      { shape: 'bar', x: 0.26, y: 0.4, length: 120, angle: 0.35 },
+      { shape: 'bar', x: 0.74, y: 0.4, length: 120, angle: -0.35 },
+    ],
+    fields: [],
+    scoreTarget: 55000,
+  },
+  {
+    id: 'bass-cathedral',
+    name: 'Bass Cathedral',
+    tagline: 'Everything moves to the beat. Faster.',
+    accent: '#ff96f5',
+    boss: 'DiskJockey',
+    bossName: 'The Disk Jockey',
+    mutations: ['overclocked'],
+    bumpers: [
+      { shape: 'circle', x: 0.2, y: 0.38, radius: 24 },
+      { shape: 'circle', x: 0.5, y: 0.5, radius: 24 },
+      { shape: 'circle', x: 0.8, y: 0.38, radius: 24 },
+    ],
+    fields: [
+      { kind: 'fan', x: 0.14, y: 0.58, width: 110, height: 180, angle: -Math.PI / 3 },
+      { kind: 'fan', x: 0.86, y: 0.58, width: 110, height: 180, angle: (-Math.PI * 2) / 3 },
+    ],
+    scoreTarget: 65000,
+  },
+  {
+    id: 'brood-pits',
+    name: 'Brood Pits',
+    tagline: 'The hatcheries never stop.',
+    accent: '#ff9ad8',
+    boss: 'MotherGloob',
+    bossName: 'Mother Gloob',
+    mutations: ['rapidIncubation', 'feralSurge'],
+    bumpers: [],
+    fields: [{ kind: 'gravityWell', x: 0.5, y: 0.44, radius: 150 }],
+    scoreTarget: 75000,
+  },
+  {
+    id: 'core-archive',
+    name: 'Core Archive',
+    tagline: 'The last record of the old city.',
+    accent: '#ffe57d',
+    boss: 'Archivist9000',
+    bossName: 'Archivist-9000',
+    mutations: ['ironcladHosts', 'overclocked'],
+    bumpers: [
+      { shape: 'triangle', x: 0.26, y: 0.5, size: 34 },
+      { shape: 'triangle', x: 0.5, y: 0.38, size: 30, rotation: Math.PI },
+      { shape: 'triangle', x: 0.74, y: 0.5, size: 34 },
+    ],
+    fields: [
+      { kind: 'amplifier', x: 0.5, y: 0.6, boost: 'speed' },
+      { kind: 'gravityWell', x: 0.5, y: 0.26, radius: 110, strength: -1800 },
+    ],
+    scoreTarget: 90000,
+  },
+];
+
+export interface CampaignArenaProgress {
+  arena: CampaignArena;
+  index: number;
+  unlocked: boolean;
+  stars: number;
+}
+
+export function getCampaignArena(id: string | undefined) {
+  return CAMPAIGN_ARENAS.find((arena) => arena.id === id) ?? null;
+}
+
+export function createCampaignMode(arena: CampaignArena): RunModeConfig {
+  return { id: 'campaign', enemyModifiers: [...arena.mutations], arenaId: arena.id };
+}
+
+// One star for clearing the arena, a second for hitting the score target with
+// at most one breach, and a third for flawless play on top: no breaches and
+// every wave Perfect.
+export function rateArena(arena: CampaignArena, snapshot: GameSnapshot) {
+  if (!snapshot.cleared) {
+    return 0;
+  }
+  let stars = 1;
+  if (snapshot.score >= arena.scoreTarget && snapshot.breaches <= 1) {
+    stars += 1;
+    if (snapshot.breaches === 0 && snapshot.perfectWaves >= CAMPAIGN_BOSS_WAVE) {
+      stars += 1;
+    }
+  }
+  return stars;
+}
+
+function readCampaignStars(): Record<string, number> {
+  const parsed = readStored(CAMPAIGN_STORAGE_KEY);
+  return parsed && typeof parsed === 'object' ? (parsed as Record<string, number>) : {};
+}
+
+// An arena unlocks once the one before it has been cleared at least once.
+export function loadCampaignProgress(): CampaignArenaProgress[] {
+  const stars = readCampaignStars();
+  return CAMPAIGN_ARENAS.map((arena, index) => {
+    const earned = stars[arena.id];
+    const previous = index > 0 ? stars[CAMPAIGN_ARENAS[index - 1].id] : undefined;
+    return {
+      arena,
+      index,
+      unlocked: index === 0 || (typeof previous === 'number' && previous > 0),
+      stars: typeof earned === 'number' ? earned : 0,
+    };
+  });
+}
+
+// Returns true when the rating improves on the stored stars for that arena.
+export function recordArenaStars(arenaId: string, stars: number) {
+  const progress = readCampaignStars();
+  const previous = progress[arenaId];
+  if (stars <= 0 || (typeof previous === 'number' && previous >= stars)) {
+    return false;
+  }
+  progress[arenaId] = stars;
+  writeStored(CAMPAIGN_STORAGE_KEY, progress);
+  return true;
+}
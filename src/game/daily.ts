@@ -0,0 +1,74 @@
+import { DEFAULT_DIFFICULTY } from './difficulty';
+import { Rng } from './rng';
+import { readStored, writeStored } from './storage';
+import type { DifficultyDefinition, EnemyModifierSummary, RunModeConfig } from './types';
+import { describeEnemyModifiers, rollEnemyModifiers } from './waves/enemyModifiers';
+
+const DAILY_MUTATION_COUNT = 2;
+const DAILY_BEST_STORAGE_KEY = 'slingpunk:daily-best';
+const DAILY_BEST_HISTORY = 30;
+
+export interface DailyRun {
+  key: string;
+  seed: number;
+  difficulty: DifficultyDefinition;
+  mode: RunModeConfig;
+  mutations: EnemyModifierSummary[];
+}
+
+export function getDailyKey(date = new Date()) {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+// FNV-1a over the date key, so every player gets the same seed for a given day.
+function hashKey(key: string) {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < key.length; i++) {
+    hash ^= key.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+export function createDailyRun(date = new Date()): DailyRun {
+  const key = getDailyKey(date);
+  const seed = hashKey(`slingpunk-daily:${key}`);
+  // Mutations roll from their own stream so they don't shift the run's own rolls.
+  const mutationRng = new Rng(hashKey(`mutations:${key}`));
+  const enemyModifiers = rollEnemyModifiers(DAILY_MUTATION_COUNT, mutationRng);
+  return {
+    key,
+    seed,
+    difficulty: DEFAULT_DIFFICULTY,
+    mode: { id: 'daily', enemyModifiers, dailyKey: key },
+    mutations: describeEnemyModifiers(enemyModifiers),
+  };
+}
+
+function readDailyBests(): Record<string, number> {
+  const parsed = readStored(DAILY_BEST_STORAGE_KEY);
+  return parsed && typeof parsed === 'object' ? (parsed as Record<string, number>) : {};
+}
+
+export function loadDailyBest(key: string): number | null {
+  const best = readDailyBests()[key];
+  return typeof best === 'number' ? best : null;
+}
+
+// Returns true when the score beats the stored best for that day.
+export function recordDailyScore(key: string, score: number) {
+  const bests = readDailyBests();
+  const previous = bests[key];
+  if (typeof previous === 'number' && previous >= score) {
+    return false;
+  }
+  bests[key] = score;
+  const keys = Object.keys(bests).sort();
+  for (const stale of keys.slice(0, Math.max(0, keys.length - DAILY_BEST_HISTORY))) {
+    delete bests[stale];
+  }
+  writeStored(DAILY_BEST_STORAGE_KEY, bests);
+  return true;
+}
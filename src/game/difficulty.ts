@@ -9,6 +9,7 @@ export const DIFFICULTIES: DifficultyDefinition[] = [
       'Amplified cannon output and softened hostiles give you breathing room to learn the sling.',
     playerDamageMultiplier: 1.25,
     enemyHpMultiplier: 0.75,
+    shardMultiplier: 0.75,
   },
   {
     id: 'vanguard',
@@ -18,6 +19,7 @@ export const DIFFICULTIES: DifficultyDefinition[] = [
       'Baseline Slingpunk tuning where enemy resilience and cannon output are evenly matched.',
     playerDamageMultiplier: 1,
     enemyHpMultiplier: 1,
+    shardMultiplier: 1,
     isDefault: true,
   },
   {
@@ -28,6 +30,7 @@ export const DIFFICULTIES: DifficultyDefinition[] = [
       'Outnumbered and outgunned—hostiles surge with reinforced plating while your cannon is throttled.',
     playerDamageMultiplier: 0.85,
     enemyHpMultiplier: 1.35,
+    shardMultiplier: 1.5,
   },
 ];
 
@@ -0,0 +1,235 @@
+import type { GameCore } from '../GameCore';
+import type { AmplifierBoost, ArenaFieldConfig, Vector2 } from '../types';
+import type { Orb } from './Orb';
+
+type ConfigOf<K extends ArenaFieldConfig['kind']> = Extract<ArenaFieldConfig, { kind: K }>;
+
+export abstract class ArenaField {
+  public readonly config: ArenaFieldConfig;
+  public position: Vector2 = { x: 0, y: 0 };
+  protected time = 0;
+
+  constructor(config: ArenaFieldConfig, width: number, height: number) {
+    this.config = config;
+    this.layout(width, height);
+  }
+
+  layout(width: number, height: number) {
+    this.position = { x: this.config.x * width, y: this.config.y * height };
+  }
+
+  update(dt: number) {
+    this.time += dt;
+  }
+
+  // Called once per orb each simulation step, before the orb integrates.
+  abstract affect(orb: Orb, dt: number, game: GameCore): void;
+
+  abstract draw(ctx: CanvasRenderingContext2D): void;
+}
+
+export class GravityWell extends ArenaField {
+  private readonly radius: number;
+  private readonly strength: number;
+
+  constructor(config: ConfigOf<'gravityWell'>, width: number, height: number) {
+    super(config, width, height);
+    this.radius = config.radius ?? 150;
+    this.strength = config.strength ?? 2400;
+  }
+
+  affect(orb: Orb, dt: number) {
+    const dx = this.position.x - orb.position.x;
+    const dy = this.position.y - orb.position.y;
+    const distance = Math.hypot(dx, dy);
+    if (distance >= this.radius || distance < 1) return;
+    // Linear falloff keeps the pull strong but finite at the center.
+    const pull = this.strength * (1 - distance / this.radius);
+    orb.velocity.x += (dx / distance) * pull * dt;
+    orb.velocity.y += (dy / distance) * pull * dt;
+  }
+
+  draw(ctx: CanvasRenderingContext2D) {
+    const { x, y } = this.position;
+    const repels = this.strength < 0;
+    const tint = repels ? '255, 170, 110' : '150, 120, 255';
+    ctx.save();
+    const glow = ctx.createRadialGradient(x, y, 0, x, y, this.radius);
+    glow.addColorStop(0, `rgba(${tint}, 0.32)`);
+    glow.addColorStop(1, `rgba(${tint}, 0)`);
+    ctx.fillStyle = glow;
+    ctx.beginPath();
+    ctx.arc(x, y, this.radius, 0, Math.PI * 2);
+    ctx.fill();
+
+    ctx.lineWidth = 2;
+    for (let i = 0; i < 3; i++) {
+      const phase = (this.time * 0.5 + i / 3) % 1;
+      const ringPhase = repels ? phase : 1 - phase;
+      ctx.strokeStyle = `rgba(${tint}, ${0.5 * Math.sin(ringPhase * Math.PI)})`;
+      ctx.beginPath();
+      ctx.arc(x, y, this.radius * (0.15 + ringPhase * 0.85), 0, Math.PI * 2);
+      ctx.stroke();
+    }
+    ctx.fillStyle = 'rgba(10, 4, 24, 0.9)';
+    ctx.strokeStyle = `rgba(${tint}, 0.85)`;
+    ctx.beginPath();
+    ctx.arc(x, y, 12, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.stroke();
+    ctx.restore();
+  }
+}
+
+export class Fan extends ArenaField {
+  private readonly halfWidth: number;
+  private readonly halfHeight: number;
+  private readonly direction: Vector2;
+  private readonly force: number;
+
+  constructor(config: ConfigOf<'fan'>, width: number, height: number) {
+    super(config, width, height);
+    this.halfWidth = (config.width ?? 140) / 2;
+    this.halfHeight = (config.height ?? 220) / 2;
+    const angle = config.angle ?? -Math.PI / 2;
+    this.direction = { x: Math.cos(angle), y: Math.sin(angle) };
+    this.force = config.force ?? 1600;
+  }
+
+  affect(orb: Orb, dt: number) {
+    if (
+      Math.abs(orb.position.x - this.position.x) > this.halfWidth ||
+      Math.abs(orb.position.y - this.position.y) > this.halfHeight
+    ) {
+      return;
+    }
+    orb.velocity.x += this.direction.x * this.force * dt;
+    orb.velocity.y += this.direction.y * this.force * dt;
+  }
+
+  draw(ctx: CanvasRenderingContext2D) {
+    const { x, y } = this.position;
+    const { halfWidth, halfHeight, direction } = this;
+    ctx.save();
+    ctx.fillStyle = 'rgba(120, 255, 220, 0.07)';
+    ctx.strokeStyle = 'rgba(120, 255, 220, 0.35)';
+    ctx.lineWidth = 1.5;
+    ctx.setLineDash([8, 6]);
+    ctx.fillRect(x - halfWidth, y - halfHeight, halfWidth * 2, halfHeight * 2);
+    ctx.strokeRect(x - halfWidth, y - halfHeight, halfWidth * 2, halfHeight * 2);
+    ctx.setLineDash([]);
+
+    ctx.beginPath();
+    ctx.rect(x - halfWidth, y - halfHeight, halfWidth * 2, halfHeight * 2);
+    ctx.clip();
+    // Chevrons scroll along the push direction so players can read the flow.
+    const span = Math.hypot(halfWidth, halfHeight);
+    const spacing = 36;
+    const drift = (this.time * 90) % spacing;
+    const normal = { x: -direction.y, y: direction.x };
+    ctx.strokeStyle = 'rgba(120, 255, 220, 0.55)';
+    ctx.lineWidth = 3;
+    ctx.lineCap = 'round';
+    for (let along = -span; along <= span; along += spacing) {
+      for (const across of [-0.5, 0, 0.5]) {
+        const cx = x + direction.x * (along + drift) + normal.x * across * span;
+        const cy = y + direction.y * (along + drift) + normal.y * across * span;
+        ctx.beginPath();
+        ctx.moveTo(cx - direction.x * 8 + normal.x * 9, cy - direction.y * 8 + normal.y * 9);
+        ctx.lineTo(cx, cy);
+        ctx.lineTo(cx - direction.x * 8 - normal.x * 9, cy - direction.y * 8 - normal.y * 9);
+        ctx.stroke();
+      }
+    }
+    ctx.restore();
+  }
+}
+
+const AMPLIFIER_COLORS: Record<AmplifierBoost, string> = {
+  damage: '255, 214, 102',
+  speed: '102, 240, 255',
+};
+
+export class Amplifier extends ArenaField {
+  public spent = false;
+  private readonly radius: number;
+  private readonly boost: AmplifierBoost;
+  private readonly amount: number;
+  private burnout = 0;
+
+  constructor(config: ConfigOf<'amplifier'>, width: number, height: number) {
+    super(config, width, height);
+    this.radius = config.radius ?? 34;
+    this.boost = config.boost;
+    this.amount = config.amount ?? (config.boost === 'damage' ? 1 : 0.6);
+  }
+
+  override update(dt: number) {
+    super.update(dt);
+    if (this.spent) {
+      this.burnout = Math.min(1, this.burnout + dt * 2);
+    }
+  }
+
+  affect(orb: Orb, _dt: number, game: GameCore) {
+    if (this.spent) return;
+    const dx = orb.position.x - this.position.x;
+    const dy = orb.position.y - this.position.y;
+    if (dx * dx + dy * dy > this.radius * this.radius) return;
+    this.spent = true;
+    if (this.boost === 'damage') {
+      orb.damage *= 1 + this.amount;
+      orb.color = `rgb(${AMPLIFIER_COLORS.damage})`;
+    } else {
+      orb.velocity.x *= 1 + this.amount;
+      orb.velocity.y *= 1 + this.amount;
+    }
+    game.emitAmplifier(this.position, this.boost, `rgb(${AMPLIFIER_COLORS[this.boost]})`);
+  }
+
+  draw(ctx: CanvasRenderingContext2D) {
+    const { x, y } = this.position;
+    const color = AMPLIFIER_COLORS[this.boost];
+    ctx.save();
+    if (this.spent) {
+      // Burnt-out rings linger as a faint dashed outline.
+      ctx.strokeStyle = `rgba(${color}, ${0.5 - this.burnout * 0.3})`;
+      ctx.lineWidth = 2;
+      ctx.setLineDash([4, 8]);
+      ctx.beginPath();
+      ctx.arc(x, y, this.radius * (1 + this.burnout * 0.25), 0, Math.PI * 2);
+      ctx.stroke();
+      ctx.restore();
+      return;
+    }
+    const pulse = 0.5 + Math.sin(this.time * 4) * 0.5;
+    ctx.strokeStyle = `rgba(${color}, ${0.65 + pulse * 0.35})`;
+    ctx.lineWidth = 4;
+    ctx.beginPath();
+    ctx.arc(x, y, this.radius, 0, Math.PI * 2);
+    ctx.stroke();
+    ctx.lineWidth = 2;
+    ctx.strokeStyle = `rgba(${color}, 0.4)`;
+    ctx.beginPath();
+    ctx.arc(x, y, this.radius + 6 + pulse * 4, 0, Math.PI * 2);
+    ctx.stroke();
+
+    ctx.fillStyle = `rgba(${color}, 0.9)`;
+    ctx.font = '700 15px Rajdhani, sans-serif';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(this.boost === 'damage' ? 'DMG' : 'SPD', x, y);
+    ctx.restore();
+  }
+}
+
+export function createArenaField(config: ArenaFieldConfig, width: number, height: number) {
+  switch (config.kind) {
+    case 'gravityWell':
+      return new GravityWell(config, width, height);
+    case 'fan':
+      return new Fan(config, width, height);
+    case 'amplifier':
+      return new Amplifier(config, width, height);
+  }
+}
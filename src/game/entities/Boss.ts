@@ -0,0 +1,107 @@
+import type { GameCore } from '../GameCore';
+import type { BossStatus, EnemyKind } from '../types';
+import { Enemy, type EnemyParams } from './Enemy';
+import { getEnemyDefinition } from './enemyRegistry';
+
+export interface BossPhase {
+  name: string;
+  // Fraction of max HP at or below which this phase takes over.
+  threshold: number;
+}
+
+export interface BossDefinition {
+  phases: BossPhase[];
+  enrageAfter: number;
+}
+
+export abstract class Boss extends Enemy {
+  public readonly bossName: string;
+  protected readonly phases: BossPhase[];
+  protected phaseIndex = 0;
+  protected enraged = false;
+  private enrageTimer: number;
+  protected enrageElapsed = 0;
+
+  constructor(type: EnemyKind, params: EnemyParams, definition: BossDefinition) {
+    super(type, params);
+    this.isBoss = true;
+    this.bossName = getEnemyDefinition(type).name;
+    this.phases = definition.phases;
+    this.enrageTimer = definition.enrageAfter;
+  }
+
+  get phase() {
+    return this.phases[this.phaseIndex];
+  }
+
+  get isEnraged() {
+    return this.enraged;
+  }
+
+  override update(dt: number, game: GameCore) {
+    super.update(dt, game);
+    if (!this.alive) return;
+
+    const hpRatio = this.hp / this.maxHp;
+    while (
+      this.phaseIndex < this.phases.length - 1 &&
+      hpRatio <= this.phases[this.phaseIndex + 1].threshold
+    ) {
+      this.phaseIndex += 1;
+      this.onPhaseEnter(this.phases[this.phaseIndex], game);
+      game.emitBossPhase(this);
+    }
+
+    if (this.enraged) {
+      this.enrageElapsed += dt;
+    } else {
+      this.enrageTimer -= dt;
+      if (this.enrageTimer <= 0) {
+        this.enraged = true;
+        this.onEnrage(game);
+        game.emitBossEnrage(this);
+      }
+    }
+  }
+
+  // Bosses hold their ground instead of being shoved up by knockback mods.
+  public override applyKnockback(_force: number) {}
+
+  public override applyStun(_duration: number) {}
+
+  getStatus(): BossStatus {
+    return {
+      name: this.bossName,
+      hp: Math.max(0, this.hp),
+      maxHp: this.maxHp,
+      phase: this.phaseIndex + 1,
+      phaseCount: this.phases.length,
+      phaseName: this.phase.name,
+      enraged: this.enraged,
+      enrageSeconds: Math.max(0, this.enrageTimer),
+      vulnerable: this.parts.some(
+        (part) => part.enabled && part.kind === 'core' && this.isPartVulnerable(part),
+      ),
+    };
+  }
+
+  // How far below its hover line an enraged boss has sunk. Starts slow and
+  // accelerates, so a stalled fight ends in a breach two minutes after enrage.
+  protected get enrageDescent() {
+    return this.enrageElapsed * (2 + this.enrageElapsed * 0.05);
+  }
+
+  // Adds called in after the enrage pay no score, so dragging the fight out
+  // to farm them earns nothing.
+  protected spawnMinion(game: GameCore, type: EnemyKind, params: EnemyParams) {
+    const minion = game.spawnEnemy(type, params);
+    if (this.enraged) {
+      minion.grantsScore = false;
+    }
+    return minion;
+  }
+
+  protected onPhaseEnter(_phase: BossPhase, _game: GameCore) {}
+
+  protected onEnrage(_game: GameCore) {}
+}
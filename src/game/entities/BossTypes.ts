@@ -0,0 +1,766 @@
+import type { GameCore } from '../GameCore';
+import type { Vector2 } from '../types';
+import { clamp, distanceToSegmentSq, lerp, randomRange } from '../utils';
+import { Boss, type BossPhase } from './Boss';
+import type { ArcPart, CirclePart, EnemyPart } from './colliders';
+import type { EnemySpawnParams } from './Enemy';
+import type { EnemyDefinition } from './enemyRegistry';
+import type { Orb } from './Orb';
+
+interface DiskJockeyPhaseTuning {
+  spin: number;
+  slit: number;
+  minionInterval: number;
+  scratchInterval: number;
+}
+
+const DISK_JOCKEY_TUNING: DiskJockeyPhaseTuning[] = [
+  { spin: 0.7, slit: 0.6, minionInterval: 0, scratchInterval: 0 },
+  { spin: 1.15, slit: 0.46, minionInterval: 9, scratchInterval: 4.5 },
+  { spin: 1.6, slit: 0.36, minionInterval: 7, scratchInterval: 3 },
+];
+
+// Spinning record of shield plates around a weak core. Orbs have to thread
+// the slits between plates to land damage; later phases spin faster, scratch
+// (reverse direction) and call in backup dancers.
+export class DiskJockey extends Boss {
+  private readonly core: CirclePart;
+  private readonly plates: ArcPart[] = [];
+  private readonly hoverRatio = 0.24;
+  private readonly maxCrowd = 14;
+  private rotation = 0;
+  private spinDirection = 1;
+  private scratchTimer = 0;
+  private minionTimer = 0;
+  private enrageSpawnTimer = 4;
+
+  constructor(params: EnemySpawnParams) {
+    super(
+      'DiskJockey',
+      {
+        position: params.position,
+        hp: params.hp,
+        speed: params.speed,
+      },
+      {
+        phases: [
+          { name: 'Warm-Up', threshold: 1 },
+          { name: 'The Drop', threshold: 0.6 },
+          { name: 'Encore', threshold: 0.3 },
+        ],
+        enrageAfter: 110,
+      },
+    );
+    this.rotation = randomRange(0, Math.PI * 2, params.rng);
+    this.core = {
+      id: 'core',
+      kind: 'core',
+      shape: 'circle',
+      enabled: true,
+      damageMultiplier: 1.5,
+      offset: { x: 0, y: 0 },
+      radius: 38,
+    };
+    for (let i = 0; i < 4; i++) {
+      this.plates.push({
+        id: `plate-${i}`,
+        kind: 'plate',
+        shape: 'arc',
+        enabled: true,
+        damageMultiplier: 0,
+        innerRadius: 74,
+        outerRadius: 100,
+        startAngle: 0,
+        endAngle: 0,
+      });
+    }
+    // Plates first so they shield the core from orbs overlapping both.
+    this.parts.push(...this.plates, this.core);
+    this.layoutPlates();
+  }
+
+  protected behavior(dt: number, game: GameCore) {
+    const tuning = this.tuning;
+    const hoverY = game.height * this.hoverRatio;
+    const entering = this.position.y < hoverY;
+    this.velocity.y = entering
+      ? this.baseSpeed * 1.6
+      : (hoverY + this.enrageDescent - this.position.y) * 2;
+    if (!entering) {
+      const targetX = game.width / 2 + Math.sin(this.elapsed * 0.45) * game.width * 0.2;
+      this.velocity.x += clamp((targetX - this.position.x) * 3 * dt, -90, 90);
+    }
+
+    if (tuning.scratchInterval > 0) {
+      this.scratchTimer -= dt;
+      if (this.scratchTimer <= 0) {
+        this.scratchTimer = tuning.scratchInterval;
+        this.spinDirection *= -1;
+      }
+    }
+    const spin = tuning.spin * (this.enraged ? 1.35 : 1);
+    this.rotation += spin * this.spinDirection * dt;
+    this.layoutPlates();
+
+    if (tuning.minionInterval > 0) {
+      this.minionTimer -= dt;
+      if (this.minionTimer <= 0) {
+        this.minionTimer = tuning.minionInterval;
+        this.spawnDancers(game, 'GloobZigzag');
+      }
+    }
+
+    if (this.enraged) {
+      this.enrageSpawnTimer -= dt;
+      if (this.enrageSpawnTimer <= 0) {
+        // Calls come faster the longer the enrage runs.
+        this.enrageSpawnTimer = Math.max(1.5, 4 - this.enrageElapsed * 0.05);
+        this.spawnDancers(game, 'SplitterGloob');
+      }
+    }
+  }
+
+  protected override onPhaseEnter(_phase: BossPhase, game: GameCore) {
+    this.minionTimer = 1.5;
+    this.scratchTimer = this.tuning.scratchInterval;
+    if (this.phaseIndex === 1) {
+      // The Drop: speaker stacks blast orbs away from the center lanes.
+      game.addArenaField({ kind: 'fan', x: 0.32, y: 0.5, width: 120, height: 150, angle: Math.PI });
+      game.addArenaField({ kind: 'fan', x: 0.68, y: 0.5, width: 120, height: 150, angle: 0 });
+    }
+  }
+
+  protected getColor(): string {
+    return 'rgba(255, 150, 245, 0.92)';
+  }
+
+  override draw(ctx: CanvasRenderingContext2D, alpha = 1) {
+    super.draw(ctx, alpha);
+    const x = lerp(this.previousPosition.x, this.position.x, alpha);
+    const y = lerp(this.previousPosition.y, this.position.y, alpha);
+    ctx.save();
+    ctx.translate(x, y);
+    for (const plate of this.plates) {
+      ctx.beginPath();
+      ctx.arc(0, 0, plate.outerRadius, plate.startAngle, plate.endAngle);
+      ctx.arc(0, 0, plate.innerRadius, plate.endAngle, plate.startAngle, true);
+      ctx.closePath();
+      ctx.fillStyle = this.enraged ? 'rgba(120, 20, 60, 0.92)' : 'rgba(40, 12, 70, 0.92)';
+      ctx.fill();
+      ctx.lineWidth = 3;
+      ctx.strokeStyle = this.enraged ? 'rgba(255, 110, 140, 0.9)' : 'rgba(255, 150, 245, 0.85)';
+      ctx.stroke();
+    }
+    ctx.globalAlpha = 0.35;
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.5)';
+    ctx.lineWidth = 1.5;
+    ctx.beginPath();
+    ctx.arc(0, 0, (this.plates[0].innerRadius + this.plates[0].outerRadius) / 2, 0, Math.PI * 2);
+    ctx.stroke();
+    ctx.restore();
+  }
+
+  private get tuning() {
+    return DISK_JOCKEY_TUNING[Math.min(this.phaseIndex, DISK_JOCKEY_TUNING.length - 1)];
+  }
+
+  private layoutPlates() {
+    const count = this.plates.length;
+    const slice = (Math.PI * 2) / count;
+    const slit = this.tuning.slit;
+    this.plates.forEach((plate, index) => {
+      plate.startAngle = this.rotation + index * slice + slit / 2;
+      plate.endAngle = this.rotation + (index + 1) * slice - slit / 2;
+    });
+  }
+
+  private spawnDancers(game: GameCore, type: 'GloobZigzag' | 'SplitterGloob') {
+    if (game.enemies.length >= this.maxCrowd) return;
+    for (const side of [-1, 1]) {
+      this.spawnMinion(game, type, {
+        position: {
+          x: clamp(this.position.x + side * randomRange(110, 150, game.rng), 60, game.width - 60),
+          y: this.position.y + 40,
+        },
+        hp: 2,
+        speed: game.baseEnemySpeed,
+      });
+    }
+  }
+}
+
+type MotherGloobState = 'idle' | 'windup' | 'inhale';
+
+interface MotherGloobPhaseTuning {
+  idle: number;
+  windup: number;
+  inhale: number;
+  brood: number;
+}
+
+const MOTHER_GLOOB_TUNING: MotherGloobPhaseTuning[] = [
+  { idle: 4.6, windup: 0.9, inhale: 2.4, brood: 2 },
+  { idle: 3.8, windup: 0.8, inhale: 2.1, brood: 3 },
+  { idle: 3, windup: 0.65, inhale: 1.8, brood: 3 },
+];
+
+// Bloated broodmother whose membrane shrugs off every hit except while she
+// inhales. Each exhale births SplitterGloobs, feeding the splitter chain.
+export class MotherGloob extends Boss {
+  private readonly core: CirclePart;
+  private readonly hoverRatio = 0.22;
+  private readonly maxCrowd = 16;
+  private state: MotherGloobState = 'idle';
+  private stateTimer: number;
+
+  constructor(params: EnemySpawnParams) {
+    super(
+      'MotherGloob',
+      {
+        position: params.position,
+        hp: params.hp,
+        speed: params.speed,
+      },
+      {
+        phases: [
+          { name: 'Brooding', threshold: 1 },
+          { name: 'Swarm Call', threshold: 0.55 },
+          { name: 'Frenzy', threshold: 0.25 },
+        ],
+        enrageAfter: 120,
+      },
+    );
+    this.stateTimer = randomRange(2.5, 3.5, params.rng);
+    this.core = {
+      id: 'core',
+      kind: 'core',
+      shape: 'circle',
+      enabled: true,
+      damageMultiplier: 1.25,
+      offset: { x: 0, y: 0 },
+      radius: 58,
+    };
+    this.parts.push(this.core);
+  }
+
+  override isPartVulnerable(part: EnemyPart) {
+    return part === this.core && this.state === 'inhale';
+  }
+
+  // Splash damage (explosions, chain lightning) only lands during the inhale too.
+  override takeDamage(amount: number, game: GameCore, orb: Orb, direction?: Vector2) {
+    if (this.state !== 'inhale') {
+      game.emitShieldHit(this.position);
+      return;
+    }
+    super.takeDamage(amount, game, orb, direction);
+  }
+
+  protected behavior(dt: number, game: GameCore) {
+    const hoverY = game.height * this.hoverRatio;
+    const entering = this.position.y < hoverY;
+    this.velocity.y = entering
+      ? this.baseSpeed * 1.4
+      : (hoverY + this.enrageDescent - this.position.y) * 2;
+    if (!entering && this.state === 'idle') {
+      const targetX = game.width / 2 + Math.sin(this.elapsed * 0.3) * game.width * 0.16;
+      this.velocity.x += clamp((targetX - this.position.x) * 2 * dt, -60, 60);
+    } else {
+      this.velocity.x *= 0.9;
+    }
+
+    if (entering) return;
+    this.stateTimer -= dt;
+    if (this.stateTimer > 0) return;
+
+    const tuning = this.tuning;
+    switch (this.state) {
+      case 'idle':
+        this.state = 'windup';
+        this.stateTimer = tuning.windup;
+        game.emitBossTelegraph(this, 'Mother Gloob is inhaling!');
+        break;
+      case 'windup':
+        this.state = 'inhale';
+        this.stateTimer = tuning.inhale;
+        break;
+      case 'inhale':
+        this.state = 'idle';
+        this.stateTimer = tuning.idle;
+        this.spawnBrood(game, tuning.brood + (this.enraged ? 2 : 0));
+        break;
+    }
+  }
+
+  protected override onPhaseEnter(_phase: BossPhase, game: GameCore) {
+    this.spawnBrood(game, 2);
+  }
+
+  protected getColor(): string {
+    return 'rgba(255, 120, 200, 0.92)';
+  }
+
+  override draw(ctx: CanvasRenderingContext2D, alpha = 1) {
+    const x = lerp(this.previousPosition.x, this.position.x, alpha);
+    const y = lerp(this.previousPosition.y, this.position.y, alpha);
+    const swell =
+      this.state === 'windup'
+        ? 1 + (1 - this.stateTimer / this.tuning.windup) * 0.14
+        : this.state === 'inhale'
+          ? 1.14
+          : 1;
+
+    if (this.state !== 'idle') {
+      ctx.save();
+      ctx.translate(x, y);
+      ctx.globalCompositeOperation = 'lighter';
+      const streaks = 10;
+      for (let i = 0; i < streaks; i++) {
+        const angle = (i / streaks) * Math.PI * 2 + this.elapsed * 0.6;
+        const travel = (this.elapsed * 1.8 + i * 0.37) % 1;
+        const outer = this.radius * (2.4 - travel * 1.1);
+        const inner = outer - this.radius * 0.45;
+        ctx.globalAlpha = this.state === 'inhale' ? 0.55 * (1 - travel) : 0.3 * (1 - travel);
+        ctx.strokeStyle = '#ffb3e6';
+        ctx.lineWidth = 3;
+        ctx.beginPath();
+        ctx.moveTo(Math.cos(angle) * outer, Math.sin(angle) * outer);
+        ctx.lineTo(Math.cos(angle) * inner, Math.sin(angle) * inner);
+        ctx.stroke();
+      }
+      ctx.restore();
+    }
+
+    ctx.save();
+    ctx.translate(x, y);
+    ctx.scale(swell, swell);
+    ctx.translate(-x, -y);
+    super.draw(ctx, alpha);
+    ctx.restore();
+
+    ctx.save();
+    ctx.translate(x, y);
+    if (this.state === 'inhale') {
+      const mouth = ctx.createRadialGradient(0, 0, 4, 0, 0, this.radius * 0.55);
+      mouth.addColorStop(0, 'rgba(255, 255, 255, 0.95)');
+      mouth.addColorStop(0.6, 'rgba(255, 120, 200, 0.75)');
+      mouth.addColorStop(1, 'rgba(255, 120, 200, 0)');
+      ctx.fillStyle = mouth;
+      ctx.beginPath();
+      ctx.arc(0, 0, this.radius * 0.55, 0, Math.PI * 2);
+      ctx.fill();
+    } else {
+      ctx.globalAlpha = 0.55;
+      ctx.strokeStyle = 'rgba(200, 240, 255, 0.8)';
+      ctx.lineWidth = 4;
+      ctx.setLineDash([10, 8]);
+      ctx.beginPath();
+      ctx.arc(0, 0, this.radius * swell + 4, 0, Math.PI * 2);
+      ctx.stroke();
+      ctx.setLineDash([]);
+    }
+    ctx.restore();
+  }
+
+  private get tuning() {
+    return MOTHER_GLOOB_TUNING[Math.min(this.phaseIndex, MOTHER_GLOOB_TUNING.length - 1)];
+  }
+
+  private spawnBrood(game: GameCore, count: number) {
+    for (let i = 0; i < count; i++) {
+      if (game.enemies.length >= this.maxCrowd) return;
+      const angle = Math.PI * (0.15 + (0.7 * (i + 0.5)) / count);
+      this.spawnMinion(game, 'SplitterGloob', {
+        position: {
+          x: clamp(this.position.x + Math.cos(angle) * this.radius * 1.6, 60, game.width - 60),
+          y: this.position.y + Math.sin(angle) * this.radius * 1.2,
+        },
+        hp: 2,
+        speed: game.baseEnemySpeed * randomRange(0.9, 1.1, game.rng),
+      });
+    }
+  }
+}
+
+type ArchivistState = 'idle' | 'charging' | 'sweeping' | 'exposed';
+
+interface ArchivistPhaseTuning {
+  idle: number;
+  charge: number;
+  sweep: number;
+  // Half-angle of the sweep, measured from straight down.
+  arc: number;
+  beams: number;
+  exposed: number;
+}
+
+const ARCHIVIST_TUNING: ArchivistPhaseTuning[] = [
+  { idle: 4.2, charge: 1.2, sweep: 2.4, arc: 0.8, beams: 1, exposed: 7 },
+  { idle: 3.6, charge: 1, sweep: 2, arc: 0.95, beams: 1, exposed: 6 },
+  { idle: 3.2, charge: 0.9, sweep: 1.8, arc: 1, beams: 2, exposed: 5 },
+];
+
+const ARCHIVIST_JOINTS: Vector2[] = [
+  { x: -86, y: -12 },
+  { x: 86, y: -12 },
+  { x: -54, y: 52 },
+  { x: 54, y: 52 },
+];
+
+const LASER_HALF_WIDTH = 9;
+const LASER_FOCUS_COST = 30;
+const CORE_DROP = 110;
+
+// Filing-cabinet war machine. Its core sits behind shutters held up by four
+// joints; breaking every joint drops the core into reach for a short window
+// before the joints are rebuilt. Telegraphed laser sweeps burn Focus or
+// vaporize orbs outright when the player has none to spare.
+export class Archivist9000 extends Boss {
+  private readonly core: CirclePart;
+  private readonly joints: CirclePart[] = [];
+  private readonly hoverRatio = 0.2;
+  private state: ArchivistState = 'idle';
+  private stateTimer: number;
+  private sweepDirection = 1;
+  private drop = 0;
+  private readonly scorched = new Set<Orb>();
+
+  constructor(params: EnemySpawnParams) {
+    super(
+      'Archivist9000',
+      {
+        position: params.position,
+        hp: params.hp,
+        speed: params.speed,
+      },
+      {
+        phases: [
+          { name: 'Cataloguing', threshold: 1 },
+          { name: 'Redaction', threshold: 0.6 },
+          { name: 'Purge Protocol', threshold: 0.3 },
+        ],
+        enrageAfter: 130,
+      },
+    );
+    this.stateTimer = randomRange(2, 3, params.rng);
+    const jointHp = Math.max(3, Math.round(params.hp * 0.1));
+    ARCHIVIST_JOINTS.forEach((offset, index) => {
+      this.joints.push({
+        id: `joint-${index}`,
+        kind: 'joint',
+        shape: 'circle',
+        enabled: true,
+        damageMultiplier: 1,
+        hp: jointHp,
+        maxHp: jointHp,
+        offset: { ...offset },
+        radius: 18,
+      });
+    });
+    this.core = {
+      id: 'core',
+      kind: 'core',
+      shape: 'circle',
+      enabled: true,
+      damageMultiplier: 1.5,
+      offset: { x: 0, y: 0 },
+      radius: 40,
+    };
+    this.parts.push(...this.joints, this.core);
+  }
+
+  override isPartVulnerable(part: EnemyPart) {
+    if (part === this.core) {
+      return this.state === 'exposed';
+    }
+    return part.kind === 'joint' && this.state !== 'exposed';
+  }
+
+  // Splash damage (explosions, chain lightning) can't reach a locked core either.
+  override takeDamage(amount: number, game: GameCore, orb: Orb, direction?: Vector2) {
+    if (this.state !== 'exposed') {
+      game.emitShieldHit(this.position);
+      return;
+    }
+    super.takeDamage(amount, game, orb, direction);
+  }
+
+  protected behavior(dt: number, game: GameCore) {
+    this.drop += ((this.state === 'exposed' ? CORE_DROP : 0) - this.drop) * Math.min(1, dt * 4);
+    const hoverY = game.height * this.hoverRatio + this.drop + this.enrageDescent;
+    const entering = this.position.y < game.height * this.hoverRatio;
+    this.velocity.y = entering ? this.baseSpeed * 1.5 : (hoverY - this.position.y) * 2;
+    if (!entering && this.state === 'idle') {
+      const targetX = game.width / 2 + Math.sin(this.elapsed * 0.35) * game.width * 0.18;
+      this.velocity.x += clamp((targetX - this.position.x) * 2 * dt, -70, 70);
+    } else {
+      this.velocity.x *= 0.9;
+    }
+
+    if (entering) return;
+
+    if (this.state === 'sweeping') {
+      this.sweepLasers(game);
+    }
+
+    this.stateTimer -= dt;
+    if (this.stateTimer > 0) return;
+
+    const tuning = this.tuning;
+    switch (this.state) {
+      case 'idle':
+        this.state = 'charging';
+        this.stateTimer = tuning.charge;
+        game.emitBossTelegraph(this, 'Archivist-9000 is charging a sweep!');
+        break;
+      case 'charging':
+        this.state = 'sweeping';
+        this.stateTimer = tuning.sweep;
+        this.scorched.clear();
+        break;
+      case 'sweeping':
+        this.enterIdle();
+        this.sweepDirection *= -1;
+        break;
+      case 'exposed':
+        this.rebuildJoints();
+        this.enterIdle();
+        game.emitBossTelegraph(this, 'Archivist-9000 re-indexed its joints');
+        break;
+    }
+  }
+
+  protected override onPartBroken(part: EnemyPart, game: GameCore) {
+    if (part.shape === 'circle') {
+      game.emitPartBroken(this.partPosition(part));
+    }
+    if (this.joints.some((joint) => joint.enabled)) return;
+    this.state = 'exposed';
+    this.stateTimer = this.tuning.exposed;
+    this.scorched.clear();
+    game.emitBossTelegraph(this, 'Archivist-9000 core exposed!');
+  }
+
+  protected getColor(): string {
+    return 'rgba(125, 255, 181, 0.92)';
+  }
+
+  override draw(ctx: CanvasRenderingContext2D, alpha = 1) {
+    const x = lerp(this.previousPosition.x, this.position.x, alpha);
+    const y = lerp(this.previousPosition.y, this.position.y, alpha);
+    this.drawLasers(ctx, x, y);
+
+    ctx.save();
+    ctx.translate(x, y);
+    for (const joint of this.joints) {
+      ctx.globalAlpha = joint.enabled ? 0.7 : 0.2;
+      ctx.strokeStyle = 'rgba(200, 255, 225, 0.8)';
+      ctx.lineWidth = 5;
+      ctx.beginPath();
+      ctx.moveTo(0, 0);
+      ctx.lineTo(joint.offset.x, joint.offset.y);
+      ctx.stroke();
+    }
+    ctx.restore();
+
+    super.draw(ctx, alpha);
+
+    ctx.save();
+    ctx.translate(x, y);
+    if (this.state !== 'exposed') {
+      ctx.globalAlpha = 0.8;
+      ctx.strokeStyle = 'rgba(200, 255, 225, 0.85)';
+      ctx.lineWidth = 5;
+      ctx.setLineDash([12, 6]);
+      ctx.beginPath();
+      ctx.arc(0, 0, this.core.radius + 4, 0, Math.PI * 2);
+      ctx.stroke();
+      ctx.setLineDash([]);
+    }
+    for (const joint of this.joints) {
+      ctx.save();
+      ctx.translate(joint.offset.x, joint.offset.y);
+      ctx.beginPath();
+      for (let i = 0; i < 6; i++) {
+        const angle = (i / 6) * Math.PI * 2;
+        const px = Math.cos(angle) * joint.radius;
+        const py = Math.sin(angle) * joint.radius;
+        if (i === 0) {
+          ctx.moveTo(px, py);
+        } else {
+          ctx.lineTo(px, py);
+        }
+      }
+      ctx.closePath();
+      ctx.globalAlpha = joint.enabled ? 1 : 0.3;
+      ctx.fillStyle = joint.enabled ? 'rgba(4, 30, 22, 0.95)' : 'rgba(30, 30, 36, 0.8)';
+      ctx.fill();
+      ctx.lineWidth = 2.5;
+      ctx.strokeStyle = joint.enabled ? '#7dffb5' : 'rgba(160, 160, 170, 0.6)';
+      ctx.stroke();
+      if (joint.enabled && joint.hp !== undefined && joint.maxHp) {
+        ctx.strokeStyle = '#ffe57d';
+        ctx.lineWidth = 3;
+        ctx.lineCap = 'round';
+        ctx.beginPath();
+        ctx.arc(
+          0,
+          0,
+          joint.radius + 5,
+          -Math.PI / 2,
+          -Math.PI / 2 + Math.PI * 2 * (joint.hp / joint.maxHp),
+        );
+        ctx.stroke();
+      }
+      ctx.restore();
+    }
+    ctx.restore();
+  }
+
+  private get tuning() {
+    return ARCHIVIST_TUNING[Math.min(this.phaseIndex, ARCHIVIST_TUNING.length - 1)];
+  }
+
+  private get laserOrigin(): Vector2 {
+    return { x: this.position.x, y: this.position.y + this.core.radius * 0.6 };
+  }
+
+  private enterIdle() {
+    this.state = 'idle';
+    this.stateTimer = this.tuning.idle * (this.enraged ? 0.55 : 1);
+  }
+
+  private rebuildJoints() {
+    for (const joint of this.joints) {
+      joint.enabled = true;
+      joint.hp = joint.maxHp;
+    }
+  }
+
+  // Angles are measured from straight down; twin beams mirror each other.
+  private beamAngles() {
+    const tuning = this.tuning;
+    const progress =
+      this.state === 'sweeping' ? 1 - Math.max(0, this.stateTimer) / tuning.sweep : 0;
+    const angle = lerp(-tuning.arc, tuning.arc, progress) * this.sweepDirection;
+    return tuning.beams > 1 ? [angle, -angle] : [angle];
+  }
+
+  private sweepLasers(game: GameCore) {
+    const origin = this.laserOrigin;
+    const reach = Math.hypot(game.width, game.height);
+    for (const angle of this.beamAngles()) {
+      const end = {
+        x: origin.x + Math.sin(angle) * reach,
+        y: origin.y + Math.cos(angle) * reach,
+      };
+      for (const orb of game.orbs) {
+        if (!orb.alive || this.scorched.has(orb)) continue;
+        const hitRadius = LASER_HALF_WIDTH + orb.radius;
+        if (distanceToSegmentSq(orb.position, origin, end) <= hitRadius * hitRadius) {
+          // One hit per orb per sweep, so a drained orb can escape the beam.
+          this.scorched.add(orb);
+          game.hitOrbWithHazard(orb, LASER_FOCUS_COST);
+        }
+      }
+    }
+  }
+
+  private drawLasers(ctx: CanvasRenderingContext2D, x: number, y: number) {
+    if (this.state !== 'charging' && this.state !== 'sweeping') return;
+    const originY = y + this.core.radius * 0.6;
+    const reach = 2400;
+    ctx.save();
+    ctx.translate(x, originY);
+    if (this.state === 'charging') {
+      const arc = this.tuning.arc;
+      const flicker = 0.35 + Math.sin(this.elapsed * 24) * 0.15;
+      ctx.globalAlpha = 0.12;
+      ctx.fillStyle = '#ff5a6e';
+      ctx.beginPath();
+      ctx.moveTo(0, 0);
+      ctx.arc(0, 0, reach, Math.PI / 2 - arc, Math.PI / 2 + arc);
+      ctx.closePath();
+      ctx.fill();
+      ctx.globalAlpha = flicker;
+      ctx.strokeStyle = '#ff5a6e';
+      ctx.lineWidth = 2;
+      ctx.setLineDash([14, 10]);
+      for (const angle of this.beamAngles()) {
+        ctx.beginPath();
+        ctx.moveTo(0, 0);
+        ctx.lineTo(Math.sin(angle) * reach, Math.cos(angle) * reach);
+        ctx.stroke();
+      }
+      ctx.setLineDash([]);
+    } else {
+      ctx.globalCompositeOperation = 'lighter';
+      ctx.lineCap = 'round';
+      for (const angle of this.beamAngles()) {
+        const endX = Math.sin(angle) * reach;
+        const endY = Math.cos(angle) * reach;
+        ctx.globalAlpha = 0.35;
+        ctx.strokeStyle = '#ff5a6e';
+        ctx.lineWidth = LASER_HALF_WIDTH * 3;
+        ctx.beginPath();
+        ctx.moveTo(0, 0);
+        ctx.lineTo(endX, endY);
+        ctx.stroke();
+        ctx.globalAlpha = 0.95;
+        ctx.strokeStyle = '#fff0f2';
+        ctx.lineWidth = LASER_HALF_WIDTH * 0.8;
+        ctx.beginPath();
+        ctx.moveTo(0, 0);
+        ctx.lineTo(endX, endY);
+        ctx.stroke();
+      }
+    }
+    ctx.restore();
+  }
+}
+
+// Keyed by enemy kind; `./enemies` registers the table.
+export const BOSS_DEFINITIONS = {
+  DiskJockey: {
+    name: 'The Disk Jockey',
+    codex: 'Boss. Thread orbs through the gaps in its spinning plates to reach the core.',
+    create: (params) => new DiskJockey(params),
+    radius: 38,
+    scoreValue: 100,
+    visual: {
+      kind: 'mechanical',
+      accent: '#ff96f5',
+      secondary: 'rgba(30, 6, 52, 0.94)',
+      core: '#ffe6fd',
+      sides: 12,
+    },
+  },
+  MotherGloob: {
+    name: 'Mother Gloob',
+    codex: 'Boss. Only takes damage while inhaling, and every exhale births Splitter Gloobs.',
+    create: (params) => new MotherGloob(params),
+    radius: 58,
+    scoreValue: 100,
+    visual: {
+      kind: 'organic',
+      accent: '#ff9ad8',
+      secondary: 'rgba(48, 6, 40, 0.94)',
+      core: '#ffe3f4',
+      spikes: 9,
+    },
+  },
+  Archivist9000: {
+    name: 'Archivist-9000',
+    codex: 'Boss. Break all four joints to drop its core, and dodge the laser sweeps.',
+    create: (params) => new Archivist9000(params),
+    radius: 40,
+    scoreValue: 100,
+    visual: {
+      kind: 'mechanical',
+      accent: '#7dffb5',
+      secondary: 'rgba(4, 30, 22, 0.94)',
+      core: '#e4fff0',
+      sides: 8,
+    },
+  },
+} satisfies Record<string, EnemyDefinition>;
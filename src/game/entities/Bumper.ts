@@ -0,0 +1,219 @@
+import type { BumperConfig, Vector2 } from '../types';
+import { clamp, dot, reflect } from '../utils';
+import type { Orb } from './Orb';
+
+const BOUNCE_BOOST = 1.05;
+
+interface PolygonContact {
+  point: Vector2;
+  normal: Vector2;
+  distSq: number;
+}
+
+export class Bumper {
+  public readonly config: BumperConfig;
+  public position: Vector2 = { x: 0, y: 0 };
+  // Bounding radius: exact for circles, circumscribed for polygons.
+  public radius: number;
+  public flash = 0;
+  // World-space corners for triangles and bars, wound clockwise on screen.
+  private vertices: Vector2[] = [];
+
+  constructor(config: BumperConfig, width: number, height: number) {
+    this.config = config;
+    this.radius = 34;
+    this.layout(width, height);
+  }
+
+  layout(width: number, height: number) {
+    const config = this.config;
+    this.position = { x: config.x * width, y: config.y * height };
+    if (config.shape === 'circle') {
+      this.radius = config.radius ?? 34;
+      this.vertices = [];
+      return;
+    }
+    if (config.shape === 'triangle') {
+      const size = config.size ?? 42;
+      // Rotation 0 points the apex straight up the arena.
+      const rotation = (config.rotation ?? 0) - Math.PI / 2;
+      this.radius = size;
+      this.vertices = [0, 1, 2].map((index) => {
+        const angle = rotation + (index * Math.PI * 2) / 3;
+        return {
+          x: this.position.x + Math.cos(angle) * size,
+          y: this.position.y + Math.sin(angle) * size,
+        };
+      });
+      return;
+    }
+    const halfLength = (config.length ?? 120) / 2;
+    const halfThickness = (config.thickness ?? 16) / 2;
+    const angle = config.angle ?? 0;
+    const along = { x: Math.cos(angle), y: Math.sin(angle) };
+    const across = { x: -along.y, y: along.x };
+    this.radius = Math.hypot(halfLength, halfThickness);
+    this.vertices = [
+      [-1, -1],
+      [1, -1],
+      [1, 1],
+      [-1, 1],
+    ].map(([u, v]) => ({
+      x: this.position.x + along.x * halfLength * u + across.x * halfThickness * v,
+      y: this.position.y + along.y * halfLength * u + across.y * halfThickness * v,
+    }));
+  }
+
+  update(dt: number) {
+    this.flash = Math.max(0, this.flash - dt * 3);
+  }
+
+  // Returns the contact normal when the orb was bounced off this bumper.
+  collide(orb: Orb): Vector2 | null {
+    const dx = orb.position.x - this.position.x;
+    const dy = orb.position.y - this.position.y;
+    const reach = this.radius + orb.radius;
+    if (dx * dx + dy * dy > reach * reach) {
+      return null;
+    }
+    const contact = this.vertices.length ? this.contactPolygon(orb) : this.contactCircle(orb);
+    if (!contact) {
+      return null;
+    }
+    orb.position.x = contact.point.x + contact.normal.x * orb.radius;
+    orb.position.y = contact.point.y + contact.normal.y * orb.radius;
+    // Orbs already moving away were only nudged out; they don't count as a bounce.
+    if (dot(orb.velocity, contact.normal) >= 0) {
+      return null;
+    }
+    const bounced = reflect(orb.velocity, contact.normal);
+    orb.velocity.x = bounced.x * BOUNCE_BOOST;
+    orb.velocity.y = bounced.y * BOUNCE_BOOST;
+    this.flash = 1;
+    return contact.normal;
+  }
+
+  draw(ctx: CanvasRenderingContext2D) {
+    const { x, y } = this.position;
+    ctx.save();
+    const glow = ctx.createRadialGradient(x, y, this.radius * 0.2, x, y, this.radius * 1.6);
+    glow.addColorStop(0, `rgba(255, 120, 240, ${0.35 + this.flash * 0.4})`);
+    glow.addColorStop(1, 'rgba(255, 120, 240, 0)');
+    ctx.fillStyle = glow;
+    ctx.beginPath();
+    ctx.arc(x, y, this.radius * 1.6, 0, Math.PI * 2);
+    ctx.fill();
+
+    ctx.fillStyle = 'rgba(24, 8, 44, 0.92)';
+    ctx.strokeStyle = `rgba(255, 150, 245, ${0.7 + this.flash * 0.3})`;
+    ctx.lineWidth = 3 + this.flash * 2;
+    ctx.lineJoin = 'round';
+    ctx.beginPath();
+    this.tracePath(ctx, 1);
+    ctx.fill();
+    ctx.stroke();
+
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.35)';
+    ctx.lineWidth = 2;
+    ctx.beginPath();
+    if (this.config.shape === 'bar') {
+      const [a, b, c, d] = this.vertices;
+      ctx.moveTo((a.x + d.x) / 2, (a.y + d.y) / 2);
+      ctx.lineTo((b.x + c.x) / 2, (b.y + c.y) / 2);
+    } else {
+      this.tracePath(ctx, 0.55);
+    }
+    ctx.stroke();
+    ctx.restore();
+  }
+
+  private tracePath(ctx: CanvasRenderingContext2D, inset: number) {
+    const { x, y } = this.position;
+    if (!this.vertices.length) {
+      ctx.arc(x, y, this.radius * inset, 0, Math.PI * 2);
+      return;
+    }
+    this.vertices.forEach((vertex, index) => {
+      const px = x + (vertex.x - x) * inset;
+      const py = y + (vertex.y - y) * inset;
+      if (index === 0) {
+        ctx.moveTo(px, py);
+      } else {
+        ctx.lineTo(px, py);
+      }
+    });
+    ctx.closePath();
+  }
+
+  private contactCircle(orb: Orb) {
+    const dx = orb.position.x - this.position.x;
+    const dy = orb.position.y - this.position.y;
+    const distance = Math.hypot(dx, dy) || 1;
+    const normal = { x: dx / distance, y: dy / distance };
+    return {
+      point: {
+        x: this.position.x + normal.x * this.radius,
+        y: this.position.y + normal.y * this.radius,
+      },
+      normal,
+    };
+  }
+
+  // Finds the closest point on the polygon outline. Faces reflect about their
+  // edge normal and corners about the direction from the corner to the orb.
+  // Orbs that tunnelled inside are pushed out through the shallowest face.
+  private contactPolygon(orb: Orb): { point: Vector2; normal: Vector2 } | null {
+    const center = orb.position;
+    let closest: PolygonContact | null = null;
+    let inside = true;
+    let shallowest: { depth: number; normal: Vector2; point: Vector2 } | null = null;
+
+    for (let i = 0; i < this.vertices.length; i++) {
+      const a = this.vertices[i];
+      const b = this.vertices[(i + 1) % this.vertices.length];
+      const edge = { x: b.x - a.x, y: b.y - a.y };
+      const edgeLength = Math.hypot(edge.x, edge.y) || 1;
+      // Clockwise winding on a y-down canvas puts the outside on the left.
+      const faceNormal = { x: edge.y / edgeLength, y: -edge.x / edgeLength };
+      const side = (center.x - a.x) * faceNormal.x + (center.y - a.y) * faceNormal.y;
+      if (side > 0) {
+        inside = false;
+      } else if (!shallowest || -side < shallowest.depth) {
+        shallowest = {
+          depth: -side,
+          normal: faceNormal,
+          point: { x: center.x - faceNormal.x * side, y: center.y - faceNormal.y * side },
+        };
+      }
+
+      const t = clamp(
+        ((center.x - a.x) * edge.x + (center.y - a.y) * edge.y) / (edgeLength * edgeLength),
+        0,
+        1,
+      );
+      const point = { x: a.x + edge.x * t, y: a.y + edge.y * t };
+      const dx = center.x - point.x;
+      const dy = center.y - point.y;
+      const distSq = dx * dx + dy * dy;
+      if (!closest || distSq < closest.distSq) {
+        closest = { point, normal: faceNormal, distSq };
+      }
+    }
+
+    if (inside && shallowest) {
+      return { point: shallowest.point, normal: shallowest.normal };
+    }
+    if (!closest || closest.distSq > orb.radius * orb.radius) {
+      return null;
+    }
+    const distance = Math.sqrt(closest.distSq);
+    const normal =
+      distance > 0
+        ? {
+            x: (center.x - closest.point.x) / distance,
+            y: (center.y - closest.point.y) / distance,
+          }
+        : closest.normal;
+    return { point: closest.point, normal };
+  }
+}
@@ -1,94 +1,50 @@
-import type { Game } from '../Game';
+import type { GameCore } from '../GameCore';
+import type { RandomSource } from '../rng';
 import type { EnemyKind, Vector2 } from '../types';
+import { lerp } from '../utils';
+import {
+  hitTestCircle,
+  hitTestPart,
+  type CirclePart,
+  type EnemyHit,
+  type EnemyPart,
+} from './colliders';
+import { getEliteAffix, type EliteAffix, type EliteAffixId } from './eliteAffixes';
+import { getEnemyDefinition } from './enemyRegistry';
 import type { Orb } from './Orb';
 
-type EnemyVisualKind = 'organic' | 'mechanical' | 'crystal';
-
-interface EnemyVisualProfile {
-  kind: EnemyVisualKind;
-  accent: string;
-  secondary: string;
-  core: string;
-  spikes?: number;
-  sides?: number;
+// Bubble that only covers `arc` radians centered on `facing` (world angle).
+// Hits outside the arc reach the body untouched.
+export interface DirectionalShield {
+  facing: number;
+  arc: number;
+  hp: number;
+  maxHp: number;
+  // RGB triple; defaults to the Shieldy Gloob mint.
+  tint?: string;
 }
 
-const ENEMY_VISUALS: Record<EnemyKind, EnemyVisualProfile> = {
-  GloobZigzag: {
-    kind: 'organic',
-    accent: '#58f7ff',
-    secondary: 'rgba(10, 22, 44, 0.95)',
-    core: '#d7fbff',
-    spikes: 6,
-  },
-  SplitterGloob: {
-    kind: 'organic',
-    accent: '#ff8fe9',
-    secondary: 'rgba(38, 6, 41, 0.92)',
-    core: '#ffe0f9',
-    spikes: 6,
-  },
-  ShieldyGloob: {
-    kind: 'organic',
-    accent: '#c2ffd6',
-    secondary: 'rgba(8, 46, 34, 0.92)',
-    core: '#f6fff9',
-    spikes: 5,
-  },
-  Splitterling: {
-    kind: 'crystal',
-    accent: '#ffc86f',
-    secondary: 'rgba(50, 18, 0, 0.92)',
-    core: '#fff2c1',
-    spikes: 4,
-  },
-  Magnetron: {
-    kind: 'mechanical',
-    accent: '#9ed1ff',
-    secondary: 'rgba(8, 20, 48, 0.92)',
-    core: '#d4efff',
-    sides: 6,
-  },
-  SporePuff: {
-    kind: 'organic',
-    accent: '#d5a8ff',
-    secondary: 'rgba(22, 4, 38, 0.92)',
-    core: '#f5e6ff',
-    spikes: 8,
-  },
-  BulwarkGloob: {
-    kind: 'mechanical',
-    accent: '#84d7ff',
-    secondary: 'rgba(12, 34, 52, 0.92)',
-    core: '#d9f5ff',
-    sides: 8,
-  },
-  WarpStalker: {
-    kind: 'crystal',
-    accent: '#ff84d7',
-    secondary: 'rgba(30, 0, 44, 0.92)',
-    core: '#ffe4fb',
-    spikes: 5,
-  },
-  AegisSentinel: {
-    kind: 'mechanical',
-    accent: '#ffe57d',
-    secondary: 'rgba(44, 28, 0, 0.92)',
-    core: '#fff5cb',
-    sides: 5,
-  },
-};
+// Front shields sit this far outside the body circle.
+const FRONT_SHIELD_GAP = 14;
 
+export interface EnemySpawnParams {
+  position: Vector2;
+  hp: number;
+  speed: number;
+  rng: RandomSource;
+}
+
+// Radius comes from the kind's registry entry.
 export interface EnemyParams {
   position: Vector2;
   hp: number;
-  radius: number;
   speed: number;
 }
 
 export abstract class Enemy {
   public readonly type: EnemyKind;
   public position: Vector2;
+  public previousPosition: Vector2;
   public velocity: Vector2 = { x: 0, y: 0 };
   public radius: number;
   public hp: number;
@@ -97,23 +53,42 @@ export abstract class Enemy {
   public alive = true;
   public isElite = false;
   public isBoss = false;
+  // Cleared for boss adds called in during an enrage.
+  public grantsScore = true;
+  public frontShield: DirectionalShield | null = null;
+  public readonly affixes: EliteAffix[] = [];
+  // Extra colliders; an enemy without parts collides as a single body circle.
+  public readonly parts: EnemyPart[] = [];
   protected elapsed = 0;
   protected baseSpeed: number;
   private slowTimer = 0;
   private slowFactor = 1;
   private knockback = 0;
+  private stunTimer = 0;
+  private hasteTimer = 0;
+  private hasteFactor = 1;
 
   constructor(type: EnemyKind, params: EnemyParams) {
     this.type = type;
     this.position = { ...params.position };
-    this.radius = params.radius;
+    this.previousPosition = { ...params.position };
+    this.radius = getEnemyDefinition(type).radius;
     this.hp = params.hp;
     this.maxHp = params.hp;
     this.baseSpeed = params.speed;
   }
 
-  update(dt: number, game: Game) {
+  update(dt: number, game: GameCore) {
+    this.previousPosition.x = this.position.x;
+    this.previousPosition.y = this.position.y;
     this.elapsed += dt;
+    if (this.stunTimer > 0) {
+      // Stunned enemies hold still and skip their behavior entirely.
+      this.stunTimer = Math.max(0, this.stunTimer - dt);
+      this.velocity.x = 0;
+      this.velocity.y = 0;
+      return;
+    }
     this.behavior(dt, game);
 
     if (this.knockback > 0) {
@@ -130,9 +105,22 @@ export abstract class Enemy {
       }
     }
 
+    if (this.hasteTimer > 0) {
+      // Behaviors reset the descent speed every step, so only that axis is hastened.
+      this.velocity.y *= this.hasteFactor;
+      this.hasteTimer = Math.max(0, this.hasteTimer - dt);
+      if (this.hasteTimer === 0) {
+        this.hasteFactor = 1;
+      }
+    }
+
     this.position.x += this.velocity.x * dt;
     this.position.y += this.velocity.y * dt;
 
+    for (const affix of this.affixes) {
+      getEliteAffix(affix.id).update?.(this, affix, dt, game);
+    }
+
     // Damp horizontal velocity slightly
     this.velocity.x *= 1 - Math.min(0.12, dt * 2);
 
@@ -142,31 +130,34 @@ export abstract class Enemy {
     }
   }
 
-  draw(ctx: CanvasRenderingContext2D) {
+  draw(ctx: CanvasRenderingContext2D, alpha = 1) {
     ctx.save();
-    ctx.translate(this.position.x, this.position.y);
+    ctx.translate(
+      lerp(this.previousPosition.x, this.position.x, alpha),
+      lerp(this.previousPosition.y, this.position.y, alpha),
+    );
     const hpRatio = Math.max(0, Math.min(1, this.hp / this.maxHp));
     const mainColor = this.getColor();
-    const visual = ENEMY_VISUALS[this.type];
-    const accent = visual?.accent ?? mainColor;
-    const secondary = visual?.secondary ?? 'rgba(10, 5, 35, 0.9)';
-    const core = visual?.core ?? 'rgba(255, 255, 255, 0.85)';
+    const { visual } = getEnemyDefinition(this.type);
+    const { accent, secondary, core } = visual;
     const radius = this.radius;
 
     if (this.isElite || this.isBoss) {
+      // Affixed elites take the halo colour of their first affix.
+      const eliteGlow = this.affixes.length
+        ? getEliteAffix(this.affixes[0].id).glow
+        : '255, 214, 132';
       ctx.save();
       ctx.globalCompositeOperation = 'lighter';
       ctx.globalAlpha = this.isBoss ? 0.4 : 0.28;
-      ctx.fillStyle = this.isBoss
-        ? 'rgba(255, 153, 94, 0.45)'
-        : 'rgba(255, 214, 132, 0.32)';
+      ctx.fillStyle = this.isBoss ? 'rgba(255, 153, 94, 0.45)' : `rgba(${eliteGlow}, 0.32)`;
       ctx.beginPath();
       ctx.arc(0, 0, radius * (this.isBoss ? 1.8 : 1.55), 0, Math.PI * 2);
       ctx.fill();
       ctx.restore();
     }
 
-    if (visual?.kind === 'organic') {
+    if (visual.kind === 'organic') {
       const spikes = (visual.spikes ?? 6) * 2;
       const wobble = 0.16 + (1 - hpRatio) * 0.08;
       const gradient = ctx.createRadialGradient(0, 0, radius * 0.25, 0, 0, radius * 1.05);
@@ -204,7 +195,7 @@ export abstract class Enemy {
       ctx.arc(0, 0, pulse, 0, Math.PI * 2);
       ctx.fill();
       ctx.restore();
-    } else if (visual?.kind === 'mechanical') {
+    } else if (visual.kind === 'mechanical') {
       const sides = visual.sides ?? 6;
       const rotation = this.elapsed * 0.8;
       ctx.save();
@@ -260,7 +251,7 @@ export abstract class Enemy {
       ctx.stroke();
       ctx.restore();
     } else {
-      const spikes = (visual?.spikes ?? 5) * 2;
+      const spikes = (visual.spikes ?? 5) * 2;
       const rotation = this.elapsed * 0.7;
       ctx.save();
       ctx.rotate(rotation);
@@ -340,6 +331,28 @@ export abstract class Enemy {
       ctx.restore();
     }
 
+    const front = this.frontShield;
+    if (front) {
+      const half = front.arc / 2;
+      const strength = Math.max(0, front.hp / front.maxHp);
+      const bubble = radius + FRONT_SHIELD_GAP;
+      const tint = front.tint ?? '194, 255, 214';
+      ctx.save();
+      ctx.fillStyle = `rgba(${tint}, ${0.08 + strength * 0.1})`;
+      ctx.beginPath();
+      ctx.arc(0, 0, bubble, front.facing - half, front.facing + half);
+      ctx.arc(0, 0, radius * 0.6, front.facing + half, front.facing - half, true);
+      ctx.closePath();
+      ctx.fill();
+      ctx.lineCap = 'round';
+      ctx.lineWidth = 3 + strength * 3 + Math.sin(this.elapsed * 6) * 0.6;
+      ctx.strokeStyle = `rgba(${tint}, ${0.5 + strength * 0.45})`;
+      ctx.beginPath();
+      ctx.arc(0, 0, bubble, front.facing - half, front.facing + half);
+      ctx.stroke();
+      ctx.restore();
+    }
+
     if (this.slowTimer > 0) {
       const slowRatio = Math.min(1, this.slowTimer);
       ctx.save();
@@ -353,13 +366,49 @@ export abstract class Enemy {
       ctx.restore();
     }
 
+    if (this.hasteTimer > 0) {
+      ctx.save();
+      ctx.strokeStyle = 'rgba(196, 142, 255, 0.55)';
+      ctx.lineWidth = 2;
+      ctx.lineCap = 'round';
+      for (const offset of [-0.35, 0.35]) {
+        ctx.beginPath();
+        ctx.moveTo(offset * radius, -radius - 4);
+        ctx.lineTo(offset * radius, -radius - 16);
+        ctx.stroke();
+      }
+      ctx.restore();
+    }
+
+    for (const affix of this.affixes) {
+      getEliteAffix(affix.id).draw(ctx, this, affix, this.elapsed);
+    }
+
+    if (this.stunTimer > 0) {
+      ctx.save();
+      ctx.fillStyle = 'rgba(255, 240, 150, 0.95)';
+      for (let i = 0; i < 3; i++) {
+        const angle = this.elapsed * 4 + (i / 3) * Math.PI * 2;
+        const starX = Math.cos(angle) * radius * 0.8;
+        const starY = -radius - 10 + Math.sin(angle) * 5;
+        ctx.beginPath();
+        ctx.arc(starX, starY, 3.5, 0, Math.PI * 2);
+        ctx.fill();
+      }
+      ctx.restore();
+    }
+
     ctx.restore();
   }
 
-  takeDamage(amount: number, game: Game, orb: Orb) {
+  // `direction` is the orb's travel direction on impact; splash damage has none
+  // and can never crit.
+  takeDamage(amount: number, game: GameCore, orb: Orb, direction?: Vector2) {
     if (!this.alive) return;
 
-    let remaining = amount;
+    const critMultiplier = direction ? this.getCritMultiplier(direction) : 1;
+    const crit = critMultiplier > 1;
+    let remaining = amount * critMultiplier;
     let shieldAbsorbed = 0;
     if (this.shield > 0) {
       const shieldBefore = this.shield;
@@ -383,20 +432,99 @@ export abstract class Enemy {
       this.hp -= remaining;
       const dealt = Math.min(before, remaining);
       this.onDamaged(game, dealt, orb);
+      for (const affix of this.affixes) {
+        getEliteAffix(affix.id).onDamaged?.(this, affix);
+      }
       if (this.hp <= 0) {
         this.alive = false;
         this.onDeath(game, orb);
+        for (const affix of this.affixes) {
+          getEliteAffix(affix.id).onDeath?.(this, game);
+        }
         game.onEnemyKilled(this, orb);
       }
       if (dealt > 0) {
-        game.emitDamageNumber(this.position, dealt, { critical: !this.alive });
+        game.emitDamageNumber(this.position, dealt, { critical: !this.alive, crit });
       }
     }
   }
 
-  protected onDamaged(_game: Game, _amount: number, _orb: Orb) {}
+  hitTest(point: Vector2, radius: number): EnemyHit | null {
+    if (this.parts.length === 0) {
+      if (this.frontShield) {
+        const reach = this.radius + FRONT_SHIELD_GAP;
+        const shieldHit = hitTestCircle(this.position, reach, point, radius);
+        if (shieldHit && this.isInShieldArc(shieldHit.normal)) {
+          return { part: null, ...shieldHit, shielded: true };
+        }
+      }
+      const hit = hitTestCircle(this.position, this.radius, point, radius);
+      return hit ? { part: null, ...hit } : null;
+    }
+    for (const part of this.parts) {
+      if (!part.enabled) continue;
+      const hit = hitTestPart(this.position, part, point, radius);
+      if (hit) {
+        return hit;
+      }
+    }
+    return null;
+  }
+
+  isInShieldArc(normal: Vector2) {
+    const shield = this.frontShield;
+    if (!shield) return false;
+    const delta = Math.atan2(normal.y, normal.x) - shield.facing;
+    return Math.abs(Math.atan2(Math.sin(delta), Math.cos(delta))) <= shield.arc / 2;
+  }
+
+  // Front shields soak the whole hit; anything past their last point is lost.
+  absorbShieldHit(amount: number, game: GameCore, point: Vector2) {
+    const shield = this.frontShield;
+    if (!this.alive || !shield) return;
+    const absorbed = Math.min(shield.hp, amount);
+    shield.hp -= amount;
+    game.emitShieldHit(point);
+    game.emitDamageNumber(this.position, absorbed, { shield: true });
+    if (shield.hp <= 0) {
+      this.frontShield = null;
+      game.emitShieldBreak(this.position);
+    }
+  }
+
+  // Plates always deflect; cores and joints can be gated by subclasses.
+  isPartVulnerable(part: EnemyPart) {
+    return part.kind !== 'plate';
+  }
+
+  partPosition(part: CirclePart): Vector2 {
+    return { x: this.position.x + part.offset.x, y: this.position.y + part.offset.y };
+  }
+
+  // Joints soak damage into their own pool instead of the enemy's HP.
+  damagePart(part: EnemyPart, amount: number, game: GameCore, orb: Orb) {
+    if (!this.alive || !part.enabled || part.hp === undefined) return;
+    const dealt = Math.min(part.hp, amount);
+    part.hp -= amount;
+    const position = part.shape === 'circle' ? this.partPosition(part) : this.position;
+    game.emitDamageNumber(position, dealt, { critical: part.hp <= 0 });
+    if (part.hp <= 0) {
+      part.hp = 0;
+      part.enabled = false;
+      this.onPartBroken(part, game, orb);
+    }
+  }
+
+  protected onPartBroken(_part: EnemyPart, _game: GameCore, _orb: Orb) {}
 
-  protected onDeath(_game: Game, _orb: Orb) {}
+  // Damage multiplier for a hit travelling along `direction`; above 1 is a crit.
+  protected getCritMultiplier(_direction: Vector2) {
+    return 1;
+  }
+
+  protected onDamaged(_game: GameCore, _amount: number, _orb: Orb) {}
+
+  protected onDeath(_game: GameCore, _orb: Orb) {}
 
   public applySlow(duration: number, factor: number) {
     this.slowTimer = Math.max(this.slowTimer, duration);
@@ -407,7 +535,32 @@ export abstract class Enemy {
     this.knockback = Math.max(this.knockback, force);
   }
 
-  protected abstract behavior(dt: number, game: Game): void;
+  public applyHaste(duration: number, factor: number) {
+    this.hasteTimer = Math.max(this.hasteTimer, duration);
+    this.hasteFactor = Math.max(this.hasteFactor, factor);
+  }
+
+  // Elites trade a chunk of extra HP for the threat their affixes add.
+  public promoteToElite(affixes: readonly EliteAffixId[]) {
+    this.isElite = true;
+    this.maxHp = Math.round(this.maxHp * 1.4);
+    this.hp = this.maxHp;
+    for (const id of affixes) {
+      const affix: EliteAffix = { id, timer: 0, active: 0 };
+      this.affixes.push(affix);
+      getEliteAffix(id).apply?.(this, affix);
+    }
+  }
+
+  public applyStun(duration: number) {
+    this.stunTimer = Math.max(this.stunTimer, duration);
+  }
+
+  get isStunned() {
+    return this.stunTimer > 0;
+  }
+
+  protected abstract behavior(dt: number, game: GameCore): void;
 
   protected abstract getColor(): string;
 }
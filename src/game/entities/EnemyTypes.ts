@@ -1,24 +1,25 @@
-import type { Game } from '../Game';
-import { add, clamp, randomRange } from '../utils';
+import type { GameCore } from '../GameCore';
 import type { Vector2 } from '../types';
+import { add, clamp, dot, lerp, randomRange } from '../utils';
+import type { CirclePart, SegmentPart } from './colliders';
 import type { Orb } from './Orb';
-import { Enemy } from './Enemy';
+import { Enemy, type EnemySpawnParams } from './Enemy';
+import type { EnemyDefinition } from './enemyRegistry';
 
 export class GloobZigzag extends Enemy {
   private readonly anchorX: number;
   private readonly amplitude: number;
   private readonly frequency: number;
 
-  constructor(params: { position: Vector2; hp: number; speed: number }) {
+  constructor(params: EnemySpawnParams) {
     super('GloobZigzag', {
       position: params.position,
       hp: params.hp,
-      radius: 30,
       speed: params.speed,
     });
     this.anchorX = params.position.x;
-    this.amplitude = randomRange(40, 70);
-    this.frequency = randomRange(1.4, 2.2);
+    this.amplitude = randomRange(40, 70, params.rng);
+    this.frequency = randomRange(1.4, 2.2, params.rng);
   }
 
   protected behavior(dt: number) {
@@ -36,28 +37,27 @@ export class GloobZigzag extends Enemy {
 export class SplitterGloob extends Enemy {
   private readonly anchorX: number;
 
-  constructor(params: { position: Vector2; hp: number; speed: number }) {
+  constructor(params: EnemySpawnParams) {
     super('SplitterGloob', {
       position: params.position,
       hp: params.hp,
-      radius: 28,
       speed: params.speed,
     });
     this.anchorX = params.position.x;
   }
 
-  protected behavior() {
+  protected behavior(dt: number) {
     this.velocity.y = this.baseSpeed * 0.9;
     const sway = Math.sin(this.elapsed * 1.5) * 30;
     const delta = this.anchorX + sway - this.position.x;
-    this.velocity.x += clamp(delta * 5 * 0.016, -120, 120);
+    this.velocity.x += clamp(delta * 5 * dt, -120, 120);
   }
 
   protected getColor(): string {
     return 'rgba(255, 139, 214, 0.9)';
   }
 
-  protected override onDeath(game: Game) {
+  protected override onDeath(game: GameCore) {
     const offset = 26;
     for (let i = -1; i <= 1; i += 2) {
       const spawnPos = add(this.position, { x: i * offset, y: 0 });
@@ -71,18 +71,17 @@ export class SplitterGloob extends Enemy {
 }
 
 export class Splitterling extends Enemy {
-  constructor(params: { position: Vector2; hp: number; speed: number }) {
+  constructor(params: EnemySpawnParams) {
     super('Splitterling', {
       position: params.position,
       hp: params.hp,
-      radius: 16,
       speed: params.speed,
     });
   }
 
-  protected behavior() {
+  protected behavior(dt: number) {
     this.velocity.y = this.baseSpeed * 1.3;
-    this.velocity.x += Math.sin(this.elapsed * 6) * 10;
+    this.velocity.x += Math.sin(this.elapsed * 6) * 600 * dt;
   }
 
   protected getColor(): string {
@@ -90,47 +89,51 @@ export class Splitterling extends Enemy {
   }
 }
 
+// Carries a front bubble that keeps turning toward the cannon. Straight shots
+// bounce off it; bank shots off the walls slip in from the side or behind.
 export class ShieldyGloob extends Enemy {
-  constructor(params: { position: Vector2; hp: number; speed: number }) {
+  constructor(params: EnemySpawnParams) {
     super('ShieldyGloob', {
       position: params.position,
       hp: params.hp,
-      radius: 32,
       speed: params.speed,
     });
-    this.shield = 2;
+    this.frontShield = { facing: Math.PI / 2, arc: Math.PI * 0.8, hp: 2, maxHp: 2 };
   }
 
-  protected behavior(dt: number) {
+  protected behavior(dt: number, game: GameCore) {
     this.velocity.y = this.baseSpeed * 0.8;
     this.velocity.x += Math.sin(this.elapsed * 2.4) * 20 * dt;
+
+    const shield = this.frontShield;
+    if (shield) {
+      const target = Math.atan2(
+        game.cannonPosition.y - this.position.y,
+        game.cannonPosition.x - this.position.x,
+      );
+      const delta = Math.atan2(Math.sin(target - shield.facing), Math.cos(target - shield.facing));
+      shield.facing += clamp(delta, -1.2 * dt, 1.2 * dt);
+    }
   }
 
   protected getColor(): string {
     return 'rgba(173, 255, 172, 0.9)';
   }
-
-  protected override onDamaged(game: Game, amount: number, orb: Orb) {
-    if (this.shield <= 0 && amount > 0) {
-      game.emitShieldBreak(this.position, orb);
-    }
-  }
 }
 
 export class Magnetron extends Enemy {
   private readonly pullStrength: number;
 
-  constructor(params: { position: Vector2; hp: number; speed: number }) {
+  constructor(params: EnemySpawnParams) {
     super('Magnetron', {
       position: params.position,
       hp: params.hp,
-      radius: 30,
       speed: params.speed,
     });
-    this.pullStrength = randomRange(90, 140);
+    this.pullStrength = randomRange(90, 140, params.rng);
   }
 
-  protected behavior(dt: number, game: Game) {
+  protected behavior(dt: number, game: GameCore) {
     this.velocity.y = this.baseSpeed;
     const orbs = game.orbs;
     for (const orb of orbs) {
@@ -152,28 +155,29 @@ export class Magnetron extends Enemy {
 }
 
 export class SporePuff extends Enemy {
-  constructor(params: { position: Vector2; hp: number; speed: number }) {
+  constructor(params: EnemySpawnParams) {
     super('SporePuff', {
       position: params.position,
       hp: params.hp,
-      radius: 26,
       speed: params.speed,
     });
   }
 
-  protected behavior(dt: number, game: Game) {
+  protected behavior(dt: number, game: GameCore) {
     this.velocity.y = this.baseSpeed * 0.7;
     this.velocity.x += Math.sin(this.elapsed * 1.8) * 14 * dt;
 
     // Slow nearby enemies slightly to create clusters
+    const dragX = Math.pow(0.99, dt * 60);
+    const dragY = Math.pow(0.96, dt * 60);
     for (const enemy of game.enemies) {
       if (enemy === this || !enemy.alive) continue;
       const dx = enemy.position.x - this.position.x;
       const dy = enemy.position.y - this.position.y;
       const distSq = dx * dx + dy * dy;
       if (distSq < 140 * 140) {
-        enemy.velocity.x *= 0.99;
-        enemy.velocity.y *= 0.96;
+        enemy.velocity.x *= dragX;
+        enemy.velocity.y *= dragY;
       }
     }
   }
@@ -182,7 +186,7 @@ export class SporePuff extends Enemy {
     return 'rgba(189, 126, 255, 0.9)';
   }
 
-  protected override onDeath(game: Game) {
+  protected override onDeath(game: GameCore) {
     game.emitSporeCloud(this.position);
   }
 }
@@ -190,26 +194,25 @@ export class SporePuff extends Enemy {
 export class BulwarkGloob extends Enemy {
   private surgeTimer: number;
 
-  constructor(params: { position: Vector2; hp: number; speed: number }) {
+  constructor(params: EnemySpawnParams) {
     super('BulwarkGloob', {
       position: params.position,
       hp: params.hp,
-      radius: 36,
       speed: params.speed * 0.85,
     });
     this.shield = 6;
     this.isElite = true;
-    this.surgeTimer = randomRange(1.8, 2.6);
+    this.surgeTimer = randomRange(1.8, 2.6, params.rng);
   }
 
-  protected behavior(dt: number) {
+  protected behavior(dt: number, game: GameCore) {
     this.velocity.y = this.baseSpeed * 0.55;
     this.velocity.x += Math.sin(this.elapsed * 0.9) * 16 * dt;
     this.shield = Math.min(8, this.shield + dt * 1.6);
 
     this.surgeTimer -= dt;
     if (this.surgeTimer <= 0) {
-      this.surgeTimer = randomRange(2.5, 3.6);
+      this.surgeTimer = randomRange(2.5, 3.6, game.rng);
       this.velocity.y += 60;
     }
   }
@@ -223,26 +226,25 @@ export class WarpStalker extends Enemy {
   private dashTimer: number;
   private targetX: number;
 
-  constructor(params: { position: Vector2; hp: number; speed: number }) {
+  constructor(params: EnemySpawnParams) {
     super('WarpStalker', {
       position: params.position,
       hp: params.hp,
-      radius: 24,
       speed: params.speed * 1.15,
     });
     this.isElite = true;
-    this.dashTimer = randomRange(1.1, 2.1);
+    this.dashTimer = randomRange(1.1, 2.1, params.rng);
     this.targetX = params.position.x;
   }
 
-  protected behavior(dt: number, game: Game) {
+  protected behavior(dt: number, game: GameCore) {
     const minX = 80;
     const maxX = game.width - 80;
     this.velocity.y = this.baseSpeed * 1.05;
 
     this.dashTimer -= dt;
     if (this.dashTimer <= 0) {
-      this.dashTimer = randomRange(1.4, 2.4);
+      this.dashTimer = randomRange(1.4, 2.4, game.rng);
       const livingOrbs = game.orbs.filter((orb) => orb.alive);
       if (livingOrbs.length) {
         let orb = livingOrbs[0];
@@ -259,10 +261,10 @@ export class WarpStalker extends Enemy {
             orb = candidate;
           }
         }
-        const offset = randomRange(-70, 70);
+        const offset = randomRange(-70, 70, game.rng);
         this.targetX = clamp(orb.position.x + offset, minX, maxX);
       } else {
-        this.targetX = clamp(this.position.x + randomRange(-140, 140), minX, maxX);
+        this.targetX = clamp(this.position.x + randomRange(-140, 140, game.rng), minX, maxX);
       }
       this.velocity.y += this.baseSpeed * 3.6;
     }
@@ -279,26 +281,25 @@ export class WarpStalker extends Enemy {
 export class AegisSentinel extends Enemy {
   private pulseTimer: number;
 
-  constructor(params: { position: Vector2; hp: number; speed: number }) {
+  constructor(params: EnemySpawnParams) {
     super('AegisSentinel', {
       position: params.position,
       hp: params.hp,
-      radius: 38,
       speed: params.speed * 0.75,
     });
     this.isElite = true;
     this.shield = 5;
-    this.pulseTimer = randomRange(2, 3.2);
+    this.pulseTimer = randomRange(2, 3.2, params.rng);
   }
 
-  protected behavior(dt: number, game: Game) {
+  protected behavior(dt: number, game: GameCore) {
     this.velocity.y = this.baseSpeed * 0.6;
     this.velocity.x += Math.sin(this.elapsed * 0.8) * 12 * dt;
     this.shield = Math.min(9, this.shield + dt * 1.4);
 
     this.pulseTimer -= dt;
     if (this.pulseTimer <= 0) {
-      this.pulseTimer = randomRange(2.6, 3.6);
+      this.pulseTimer = randomRange(2.6, 3.6, game.rng);
       for (const enemy of game.enemies) {
         if (enemy === this || !enemy.alive) continue;
         const dx = enemy.position.x - this.position.x;
@@ -316,3 +317,553 @@ export class AegisSentinel extends Enemy {
     return 'rgba(255, 229, 146, 0.95)';
   }
 }
+
+const REPAIR_RANGE = 240;
+const REPAIR_WINDUP = 0.9;
+// Fraction of the patient's max HP restored per second once the beam is live.
+const REPAIR_RATE = 0.14;
+
+// Hangs back behind the line and channels a heal beam into the most damaged
+// ally in range. Any hit on the bot snaps the beam and restarts the wind-up.
+export class RepairBot extends Enemy {
+  private patient: Enemy | null = null;
+  private channel = 0;
+  private cooldown = 0;
+  private pulseTimer = 0;
+
+  constructor(params: EnemySpawnParams) {
+    super('RepairBot', {
+      position: params.position,
+      hp: params.hp,
+      speed: params.speed * 0.7,
+    });
+    this.cooldown = randomRange(0.4, 1, params.rng);
+  }
+
+  protected behavior(dt: number, game: GameCore) {
+    this.velocity.y = this.baseSpeed * (this.patient ? 0.35 : 1);
+    this.velocity.x += Math.sin(this.elapsed * 1.7) * 18 * dt;
+
+    if (this.patient && !this.canTreat(this.patient)) {
+      this.releasePatient();
+    }
+    if (!this.patient) {
+      this.cooldown = Math.max(0, this.cooldown - dt);
+      if (this.cooldown > 0) return;
+      this.patient = this.findPatient(game);
+      this.channel = 0;
+      return;
+    }
+
+    this.channel += dt;
+    if (this.channel < REPAIR_WINDUP) return;
+    const patient = this.patient;
+    patient.hp = Math.min(patient.maxHp, patient.hp + patient.maxHp * REPAIR_RATE * dt);
+    this.pulseTimer -= dt;
+    if (this.pulseTimer <= 0) {
+      this.pulseTimer = 0.35;
+      game.emitRepairPulse(patient.position);
+    }
+  }
+
+  override takeDamage(amount: number, game: GameCore, orb: Orb, direction?: Vector2) {
+    if (this.alive && this.patient) {
+      game.emitRepairInterrupted(this.position);
+      this.releasePatient();
+      this.cooldown = 1.2;
+    }
+    super.takeDamage(amount, game, orb, direction);
+  }
+
+  protected getColor(): string {
+    return 'rgba(140, 255, 214, 0.92)';
+  }
+
+  override draw(ctx: CanvasRenderingContext2D, alpha = 1) {
+    const patient = this.patient;
+    if (patient) {
+      const x = lerp(this.previousPosition.x, this.position.x, alpha);
+      const y = lerp(this.previousPosition.y, this.position.y, alpha);
+      const tx = lerp(patient.previousPosition.x, patient.position.x, alpha);
+      const ty = lerp(patient.previousPosition.y, patient.position.y, alpha);
+      const charge = Math.min(1, this.channel / REPAIR_WINDUP);
+      const live = charge >= 1;
+      ctx.save();
+      ctx.lineCap = 'round';
+      ctx.strokeStyle = live
+        ? `rgba(140, 255, 214, ${0.55 + Math.sin(this.elapsed * 14) * 0.2})`
+        : `rgba(140, 255, 214, ${0.15 + charge * 0.25})`;
+      ctx.lineWidth = live ? 6 : 2;
+      if (!live) ctx.setLineDash([6, 8]);
+      ctx.beginPath();
+      ctx.moveTo(x, y);
+      ctx.lineTo(tx, ty);
+      ctx.stroke();
+      if (live) {
+        ctx.strokeStyle = 'rgba(240, 255, 250, 0.85)';
+        ctx.lineWidth = 2;
+        ctx.stroke();
+        ctx.strokeStyle = 'rgba(140, 255, 214, 0.6)';
+        ctx.beginPath();
+        ctx.arc(tx, ty, patient.radius + 8, 0, Math.PI * 2);
+        ctx.stroke();
+      }
+      ctx.restore();
+    }
+    super.draw(ctx, alpha);
+  }
+
+  private findPatient(game: GameCore) {
+    let best: Enemy | null = null;
+    let lowest = 1;
+    for (const enemy of game.enemies) {
+      if (!this.canTreat(enemy)) continue;
+      const ratio = enemy.hp / enemy.maxHp;
+      if (ratio < lowest) {
+        lowest = ratio;
+        best = enemy;
+      }
+    }
+    return best;
+  }
+
+  private canTreat(enemy: Enemy) {
+    if (enemy === this || !enemy.alive || enemy.isBoss || enemy.hp >= enemy.maxHp) {
+      return false;
+    }
+    const dx = enemy.position.x - this.position.x;
+    const dy = enemy.position.y - this.position.y;
+    return dx * dx + dy * dy <= REPAIR_RANGE * REPAIR_RANGE;
+  }
+
+  private releasePatient() {
+    this.patient = null;
+    this.channel = 0;
+    this.cooldown = Math.max(this.cooldown, 0.5);
+  }
+}
+
+const VOID_JELLY_WINDOW = 2.4;
+const VOID_JELLY_STUN = 2.5;
+const VOID_JELLY_STUN_BONUS = 1.6;
+
+// Slips out of the first hit by blinking away unharmed. A follow-up hit while
+// it is still destabilized stuns it, and stunned jellies take bonus damage.
+export class VoidJelly extends Enemy {
+  private destabilized = 0;
+
+  constructor(params: EnemySpawnParams) {
+    super('VoidJelly', {
+      position: params.position,
+      hp: params.hp,
+      speed: params.speed * 0.9,
+    });
+  }
+
+  protected behavior(dt: number) {
+    this.velocity.y = this.baseSpeed * (0.85 + Math.sin(this.elapsed * 2) * 0.25);
+    this.velocity.x += Math.sin(this.elapsed * 1.3) * 26 * dt;
+    this.destabilized = Math.max(0, this.destabilized - dt);
+  }
+
+  override takeDamage(amount: number, game: GameCore, orb: Orb, direction?: Vector2) {
+    if (!this.alive) return;
+    if (this.isStunned) {
+      super.takeDamage(amount * VOID_JELLY_STUN_BONUS, game, orb, direction);
+      return;
+    }
+    if (this.destabilized <= 0) {
+      this.warp(game);
+      this.destabilized = VOID_JELLY_WINDOW;
+      return;
+    }
+    this.destabilized = 0;
+    this.applyStun(VOID_JELLY_STUN);
+    game.emitStun(this.position);
+    super.takeDamage(amount * VOID_JELLY_STUN_BONUS, game, orb, direction);
+  }
+
+  protected getColor(): string {
+    return 'rgba(150, 128, 255, 0.85)';
+  }
+
+  override draw(ctx: CanvasRenderingContext2D, alpha = 1) {
+    super.draw(ctx, alpha);
+    if (this.destabilized <= 0) return;
+    const x = lerp(this.previousPosition.x, this.position.x, alpha);
+    const y = lerp(this.previousPosition.y, this.position.y, alpha);
+    const ratio = this.destabilized / VOID_JELLY_WINDOW;
+    ctx.save();
+    ctx.strokeStyle = `rgba(190, 170, 255, ${0.35 + ratio * 0.5})`;
+    ctx.lineWidth = 2;
+    ctx.setLineDash([3, 5]);
+    ctx.lineDashOffset = -this.elapsed * 40;
+    ctx.beginPath();
+    ctx.arc(x, y, this.radius + 18 + Math.sin(this.elapsed * 18) * 2, 0, Math.PI * 2);
+    ctx.stroke();
+    ctx.restore();
+  }
+
+  // Blinks up or sideways, never toward the breach line.
+  private warp(game: GameCore) {
+    const from = { ...this.position };
+    const angle = randomRange(-Math.PI, 0, game.rng);
+    const distance = randomRange(80, 130, game.rng);
+    this.position.x = clamp(from.x + Math.cos(angle) * distance, 60, game.width - 60);
+    this.position.y = Math.max(40, from.y + Math.sin(angle) * distance);
+    this.previousPosition = { ...this.position };
+    this.velocity = { x: 0, y: 0 };
+    game.emitWarp(from, this.position);
+  }
+}
+
+// Focus per second siphoned by each latched leech.
+const LEECH_DRAIN_RATE = 7;
+
+// Tethers itself to the cannon as soon as it is on screen and bleeds the
+// player's Focus meter until it dies.
+export class LeechLump extends Enemy {
+  private anchor: Vector2 = { x: 0, y: 0 };
+  private latched = false;
+  private siphoning = false;
+
+  constructor(params: EnemySpawnParams) {
+    super('LeechLump', {
+      position: params.position,
+      hp: params.hp,
+      speed: params.speed * 0.6,
+    });
+  }
+
+  protected behavior(dt: number, game: GameCore) {
+    this.velocity.y = this.baseSpeed * (0.8 + Math.sin(this.elapsed * 3) * 0.3);
+    this.velocity.x += Math.sin(this.elapsed * 0.7) * 14 * dt;
+    this.anchor = { ...game.cannonPosition };
+    this.latched = this.position.y > this.radius;
+    this.siphoning = this.latched && game.drainFocus(LEECH_DRAIN_RATE * dt) > 0;
+  }
+
+  protected getColor(): string {
+    return 'rgba(255, 107, 139, 0.9)';
+  }
+
+  override draw(ctx: CanvasRenderingContext2D, alpha = 1) {
+    if (this.latched) {
+      const x = lerp(this.previousPosition.x, this.position.x, alpha);
+      const y = lerp(this.previousPosition.y, this.position.y, alpha);
+      const sway = Math.sin(this.elapsed * 6) * 24;
+      const midX = (x + this.anchor.x) / 2 + sway;
+      const midY = (y + this.anchor.y) / 2;
+      ctx.save();
+      ctx.lineCap = 'round';
+      ctx.strokeStyle = this.siphoning
+        ? `rgba(255, 107, 139, ${0.45 + Math.sin(this.elapsed * 12) * 0.15})`
+        : 'rgba(255, 107, 139, 0.18)';
+      ctx.lineWidth = this.siphoning ? 5 : 2;
+      ctx.setLineDash(this.siphoning ? [14, 10] : [4, 10]);
+      // Dashes run toward the leech so the drain reads at a glance.
+      ctx.lineDashOffset = this.elapsed * 60;
+      ctx.beginPath();
+      ctx.moveTo(this.anchor.x, this.anchor.y);
+      ctx.quadraticCurveTo(midX, midY, x, y);
+      ctx.stroke();
+      ctx.restore();
+    }
+    super.draw(ctx, alpha);
+  }
+}
+
+const REFLECTOR_TURN_RATE = 1.6;
+const REFLECTOR_CRIT_MULTIPLIER = 2.5;
+
+// Keeps a V of mirror plates pointed at the cannon. Straight shots glance off
+// the plates; bank shots that land on its exposed back crit.
+export class ReflectorDrone extends Enemy {
+  private readonly body: CirclePart;
+  private readonly plates: SegmentPart[];
+  private facing = Math.PI / 2;
+
+  constructor(params: EnemySpawnParams) {
+    super('ReflectorDrone', {
+      position: params.position,
+      hp: params.hp,
+      speed: params.speed * 0.7,
+    });
+    this.body = {
+      id: 'body',
+      kind: 'core',
+      shape: 'circle',
+      enabled: true,
+      damageMultiplier: 1,
+      offset: { x: 0, y: 0 },
+      radius: 24,
+    };
+    this.plates = [-1, 1].map((side) => ({
+      id: side < 0 ? 'plate-left' : 'plate-right',
+      kind: 'plate' as const,
+      shape: 'segment' as const,
+      enabled: true,
+      damageMultiplier: 0,
+      start: { x: 0, y: 0 },
+      end: { x: 0, y: 0 },
+      thickness: 8,
+    }));
+    // Plates first so a shot clipping both reflects instead of landing.
+    this.parts.push(...this.plates, this.body);
+    this.layoutPlates();
+  }
+
+  protected behavior(dt: number, game: GameCore) {
+    this.velocity.y = this.baseSpeed;
+    this.velocity.x += Math.sin(this.elapsed * 1.1) * 30 * dt;
+
+    const target = Math.atan2(
+      game.cannonPosition.y - this.position.y,
+      game.cannonPosition.x - this.position.x,
+    );
+    let delta = target - this.facing;
+    delta = Math.atan2(Math.sin(delta), Math.cos(delta));
+    this.facing += clamp(delta, -REFLECTOR_TURN_RATE * dt, REFLECTOR_TURN_RATE * dt);
+    this.layoutPlates();
+  }
+
+  protected override getCritMultiplier(direction: Vector2) {
+    // Orbs travelling the way the drone faces came in from behind.
+    const forward = { x: Math.cos(this.facing), y: Math.sin(this.facing) };
+    return dot(direction, forward) > 0.3 ? REFLECTOR_CRIT_MULTIPLIER : 1;
+  }
+
+  protected getColor(): string {
+    return 'rgba(184, 196, 255, 0.92)';
+  }
+
+  override draw(ctx: CanvasRenderingContext2D, alpha = 1) {
+    super.draw(ctx, alpha);
+    const x = lerp(this.previousPosition.x, this.position.x, alpha);
+    const y = lerp(this.previousPosition.y, this.position.y, alpha);
+    ctx.save();
+    ctx.translate(x, y);
+
+    const rear = this.facing + Math.PI;
+    const pulse = 0.45 + Math.sin(this.elapsed * 5) * 0.2;
+    ctx.strokeStyle = `rgba(255, 157, 92, ${pulse})`;
+    ctx.lineWidth = 4;
+    ctx.beginPath();
+    ctx.arc(0, 0, this.radius + 6, rear - 0.7, rear + 0.7);
+    ctx.stroke();
+
+    ctx.lineCap = 'round';
+    for (const plate of this.plates) {
+      ctx.strokeStyle = 'rgba(14, 16, 46, 0.9)';
+      ctx.lineWidth = plate.thickness + 4;
+      ctx.beginPath();
+      ctx.moveTo(plate.start.x, plate.start.y);
+      ctx.lineTo(plate.end.x, plate.end.y);
+      ctx.stroke();
+      ctx.strokeStyle = 'rgba(226, 232, 255, 0.95)';
+      ctx.lineWidth = plate.thickness - 2;
+      ctx.stroke();
+    }
+    ctx.restore();
+  }
+
+  private layoutPlates() {
+    const forward = { x: Math.cos(this.facing), y: Math.sin(this.facing) };
+    const side = { x: -forward.y, y: forward.x };
+    const tip = { x: forward.x * 50, y: forward.y * 50 };
+    this.plates.forEach((plate, index) => {
+      const sign = index === 0 ? -1 : 1;
+      plate.start = tip;
+      plate.end = {
+        x: forward.x * 14 + side.x * 50 * sign,
+        y: forward.y * 14 + side.y * 50 * sign,
+      };
+    });
+  }
+}
+
+// Keyed by enemy kind; `./enemies` registers the table.
+export const ENEMY_DEFINITIONS = {
+  GloobZigzag: {
+    name: 'Zigzag Gloob',
+    codex: 'Weaves side to side on the way down. The bread and butter of every wave.',
+    create: (params) => new GloobZigzag(params),
+    radius: 30,
+    scoreValue: 100,
+    visual: {
+      kind: 'organic',
+      accent: '#58f7ff',
+      secondary: 'rgba(10, 22, 44, 0.95)',
+      core: '#d7fbff',
+      spikes: 6,
+    },
+  },
+  SplitterGloob: {
+    name: 'Splitter Gloob',
+    codex: 'Pops into a pair of Splitterlings, so one clean hit is never quite enough.',
+    create: (params) => new SplitterGloob(params),
+    radius: 28,
+    scoreValue: 100,
+    visual: {
+      kind: 'organic',
+      accent: '#ff8fe9',
+      secondary: 'rgba(38, 6, 41, 0.92)',
+      core: '#ffe0f9',
+      spikes: 6,
+    },
+  },
+  Splitterling: {
+    name: 'Splitterling',
+    codex: 'Fast, fragile shard shaken loose from a Splitter Gloob.',
+    create: (params) => new Splitterling(params),
+    radius: 16,
+    scoreValue: 100,
+    visual: {
+      kind: 'crystal',
+      accent: '#ffc86f',
+      secondary: 'rgba(50, 18, 0, 0.92)',
+      core: '#fff2c1',
+      spikes: 4,
+    },
+  },
+  ShieldyGloob: {
+    name: 'Shieldy Gloob',
+    codex: 'Turns a front bubble toward the cannon. Bank shots slip in from the side.',
+    create: (params) => new ShieldyGloob(params),
+    radius: 32,
+    scoreValue: 100,
+    visual: {
+      kind: 'organic',
+      accent: '#c2ffd6',
+      secondary: 'rgba(8, 46, 34, 0.92)',
+      core: '#f6fff9',
+      spikes: 5,
+    },
+  },
+  Magnetron: {
+    name: 'Magnetron',
+    codex: 'Drags passing orbs toward itself. Handy for trick shots, deadly for clean aim.',
+    create: (params) => new Magnetron(params),
+    radius: 30,
+    scoreValue: 100,
+    visual: {
+      kind: 'mechanical',
+      accent: '#9ed1ff',
+      secondary: 'rgba(8, 20, 48, 0.92)',
+      core: '#d4efff',
+      sides: 6,
+    },
+  },
+  SporePuff: {
+    name: 'Spore Puff',
+    codex: 'Slows its neighbors into clumps and bursts into a spore cloud when popped.',
+    create: (params) => new SporePuff(params),
+    radius: 26,
+    scoreValue: 100,
+    visual: {
+      kind: 'organic',
+      accent: '#d5a8ff',
+      secondary: 'rgba(22, 4, 38, 0.92)',
+      core: '#f5e6ff',
+      spikes: 8,
+    },
+  },
+  BulwarkGloob: {
+    name: 'Bulwark Gloob',
+    codex: 'Armored elite that regrows its shield and surges forward without warning.',
+    create: (params) => new BulwarkGloob(params),
+    radius: 36,
+    scoreValue: 100,
+    visual: {
+      kind: 'mechanical',
+      accent: '#84d7ff',
+      secondary: 'rgba(12, 34, 52, 0.92)',
+      core: '#d9f5ff',
+      sides: 8,
+    },
+  },
+  WarpStalker: {
+    name: 'Warp Stalker',
+    codex: 'Elite hunter that dashes into the path of your orbs.',
+    create: (params) => new WarpStalker(params),
+    radius: 24,
+    scoreValue: 100,
+    visual: {
+      kind: 'crystal',
+      accent: '#ff84d7',
+      secondary: 'rgba(30, 0, 44, 0.92)',
+      core: '#ffe4fb',
+      spikes: 5,
+    },
+  },
+  AegisSentinel: {
+    name: 'Aegis Sentinel',
+    codex: 'Elite warden whose pulses shield and patch up every ally nearby.',
+    create: (params) => new AegisSentinel(params),
+    radius: 38,
+    scoreValue: 100,
+    visual: {
+      kind: 'mechanical',
+      accent: '#ffe57d',
+      secondary: 'rgba(44, 28, 0, 0.92)',
+      core: '#fff5cb',
+      sides: 5,
+    },
+  },
+  RepairBot: {
+    name: 'Repair Bot',
+    codex: 'Hangs back and beams heals into wounded allies. Any hit snaps the beam.',
+    create: (params) => new RepairBot(params),
+    radius: 24,
+    scoreValue: 100,
+    visual: {
+      kind: 'mechanical',
+      accent: '#8cffd6',
+      secondary: 'rgba(4, 36, 30, 0.92)',
+      core: '#e8fff7',
+      sides: 6,
+    },
+  },
+  VoidJelly: {
+    name: 'Void Jelly',
+    codex: 'Blinks away from the first hit. Catch it while it is destabilized to stun it.',
+    create: (params) => new VoidJelly(params),
+    radius: 28,
+    scoreValue: 100,
+    visual: {
+      kind: 'organic',
+      accent: '#b3a4ff',
+      secondary: 'rgba(16, 6, 48, 0.88)',
+      core: '#f1edff',
+      spikes: 7,
+    },
+  },
+  LeechLump: {
+    name: 'Leech Lump',
+    codex: 'Tethers to the cannon and bleeds Focus until it is popped.',
+    create: (params) => new LeechLump(params),
+    radius: 26,
+    scoreValue: 100,
+    visual: {
+      kind: 'organic',
+      accent: '#ff6b8b',
+      secondary: 'rgba(52, 4, 20, 0.92)',
+      core: '#ffe1e8',
+      spikes: 10,
+    },
+  },
+  ReflectorDrone: {
+    name: 'Reflector Drone',
+    codex: 'Mirror plates glance straight shots away; its exposed back takes crits.',
+    create: (params) => new ReflectorDrone(params),
+    radius: 26,
+    scoreValue: 100,
+    visual: {
+      kind: 'mechanical',
+      accent: '#b8c4ff',
+      secondary: 'rgba(14, 16, 46, 0.94)',
+      core: '#eef1ff',
+      sides: 4,
+    },
+  },
+} satisfies Record<string, EnemyDefinition>;
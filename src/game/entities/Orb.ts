@@ -1,4 +1,4 @@
-import type { Game } from '../Game';
+import type { GameCore } from '../GameCore';
 import { normalize } from '../utils';
 import type { Vector2 } from '../types';
 
@@ -14,6 +14,7 @@ export interface OrbOptions {
 export class Orb {
   public readonly id: number;
   public position: Vector2;
+  public previousPosition: Vector2;
   public velocity: Vector2;
   public radius: number;
   public color: string;
@@ -26,6 +27,7 @@ export class Orb {
   constructor(position: Vector2, velocity: Vector2, options: OrbOptions = {}) {
     this.id = ORB_ID++;
     this.position = { ...position };
+    this.previousPosition = { ...position };
     this.velocity = { ...velocity };
     this.radius = options.radius ?? 16;
     this.color = options.color ?? '#38f3ff';
@@ -45,8 +47,10 @@ export class Orb {
     return copy;
   }
 
-  update(dt: number, game: Game) {
+  update(dt: number, game: GameCore) {
     if (!this.alive) return;
+    this.previousPosition.x = this.position.x;
+    this.previousPosition.y = this.position.y;
 
     const homing = game.modifiers.homingStrength;
     if (homing > 0) {
@@ -69,6 +73,10 @@ export class Orb {
       }
     }
 
+    for (const field of game.fields) {
+      field.affect(this, dt, game);
+    }
+
     // Gravity & slight drag
     this.velocity.y += 1400 * dt;
     this.velocity.x *= 1 - 0.02 * dt;
@@ -101,7 +109,7 @@ export class Orb {
     }
   }
 
-  private onWallBounce(game: Game) {
+  private onWallBounce(game: GameCore) {
     game.emitWallHit(this.position, this);
   }
 }
@@ -0,0 +1,160 @@
+import type { GameCore } from '../GameCore';
+import type { PowerupKind, Vector2 } from '../types';
+
+export const POWERUP_KINDS: readonly PowerupKind[] = ['multiball', 'lightning', 'shield', 'magnet'];
+
+export const POWERUP_COLORS: Record<PowerupKind, string> = {
+  multiball: '255, 211, 107',
+  lightning: '135, 187, 255',
+  shield: '157, 255, 207',
+  magnet: '255, 122, 217',
+};
+
+const POWERUP_LIFETIME = 7;
+// The last stretch of a pickup's life blinks as a warning.
+const POWERUP_EXPIRY_WARNING = 2;
+const MAGNET_PULL_SPEED = 520;
+const MAGNET_RANGE = 420;
+
+export class Powerup {
+  public readonly kind: PowerupKind;
+  public position: Vector2;
+  public readonly radius = 18;
+  public alive = true;
+  private age = 0;
+
+  constructor(kind: PowerupKind, position: Vector2) {
+    this.kind = kind;
+    this.position = { ...position };
+  }
+
+  update(dt: number, game: GameCore) {
+    this.age += dt;
+    if (this.age >= POWERUP_LIFETIME) {
+      this.alive = false;
+      return;
+    }
+    const target = game.isMagnetActive ? this.nearestOrb(game) : null;
+    if (target) {
+      const dx = target.x - this.position.x;
+      const dy = target.y - this.position.y;
+      const distance = Math.hypot(dx, dy) || 1;
+      const step = Math.min(distance, MAGNET_PULL_SPEED * dt);
+      this.position.x += (dx / distance) * step;
+      this.position.y += (dy / distance) * step;
+      return;
+    }
+    // Sinks slowly toward the breach line without ever crossing it.
+    const floor = game.height - game.bottomSafeZone - this.radius * 2;
+    this.position.y = Math.min(floor, this.position.y + 14 * dt);
+  }
+
+  draw(ctx: CanvasRenderingContext2D) {
+    const remaining = POWERUP_LIFETIME - this.age;
+    if (remaining < POWERUP_EXPIRY_WARNING && Math.floor(this.age * 8) % 2 === 0) {
+      return;
+    }
+    const color = POWERUP_COLORS[this.kind];
+    const bob = Math.sin(this.age * 3) * 4;
+    const spawnScale = Math.min(1, this.age * 5);
+    ctx.save();
+    ctx.translate(this.position.x, this.position.y + bob);
+    ctx.scale(spawnScale, spawnScale);
+
+    ctx.save();
+    ctx.globalCompositeOperation = 'lighter';
+    const glow = ctx.createRadialGradient(0, 0, this.radius * 0.3, 0, 0, this.radius * 2);
+    glow.addColorStop(0, `rgba(${color}, 0.55)`);
+    glow.addColorStop(1, `rgba(${color}, 0)`);
+    ctx.fillStyle = glow;
+    ctx.beginPath();
+    ctx.arc(0, 0, this.radius * 2, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.restore();
+
+    ctx.fillStyle = 'rgba(12, 8, 32, 0.88)';
+    ctx.strokeStyle = `rgb(${color})`;
+    ctx.lineWidth = 2.5;
+    ctx.beginPath();
+    ctx.arc(0, 0, this.radius, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.stroke();
+
+    ctx.fillStyle = `rgb(${color})`;
+    for (let i = 0; i < 3; i++) {
+      const angle = this.age * 2.4 + (i / 3) * Math.PI * 2;
+      const orbit = this.radius + 7;
+      ctx.beginPath();
+      ctx.arc(Math.cos(angle) * orbit, Math.sin(angle) * orbit, 2.2, 0, Math.PI * 2);
+      ctx.fill();
+    }
+
+    this.drawGlyph(ctx, color);
+    ctx.restore();
+  }
+
+  private drawGlyph(ctx: CanvasRenderingContext2D, color: string) {
+    ctx.strokeStyle = `rgb(${color})`;
+    ctx.fillStyle = `rgb(${color})`;
+    ctx.lineWidth = 2.5;
+    ctx.lineJoin = 'round';
+    ctx.lineCap = 'round';
+    ctx.beginPath();
+    switch (this.kind) {
+      case 'multiball':
+        for (const [x, y] of [
+          [0, -5],
+          [-5.5, 4],
+          [5.5, 4],
+        ]) {
+          ctx.moveTo(x + 4, y);
+          ctx.arc(x, y, 4, 0, Math.PI * 2);
+        }
+        ctx.fill();
+        break;
+      case 'lightning':
+        ctx.moveTo(3, -11);
+        ctx.lineTo(-5, 1);
+        ctx.lineTo(1, 1);
+        ctx.lineTo(-3, 11);
+        ctx.lineTo(5, -1);
+        ctx.lineTo(-1, -1);
+        ctx.closePath();
+        ctx.fill();
+        break;
+      case 'shield':
+        ctx.moveTo(0, -10);
+        ctx.lineTo(8, -6);
+        ctx.quadraticCurveTo(8, 6, 0, 10);
+        ctx.quadraticCurveTo(-8, 6, -8, -6);
+        ctx.closePath();
+        ctx.stroke();
+        break;
+      case 'magnet':
+        ctx.arc(0, -1, 6.5, Math.PI, 0, false);
+        ctx.moveTo(6.5, -1);
+        ctx.lineTo(6.5, 8);
+        ctx.moveTo(-6.5, -1);
+        ctx.lineTo(-6.5, 8);
+        ctx.lineWidth = 4;
+        ctx.stroke();
+        break;
+    }
+  }
+
+  private nearestOrb(game: GameCore): Vector2 | null {
+    let best: Vector2 | null = null;
+    let bestDistSq = MAGNET_RANGE * MAGNET_RANGE;
+    for (const orb of game.orbs) {
+      if (!orb.alive) continue;
+      const dx = orb.position.x - this.position.x;
+      const dy = orb.position.y - this.position.y;
+      const distSq = dx * dx + dy * dy;
+      if (distSq < bestDistSq) {
+        bestDistSq = distSq;
+        best = orb.position;
+      }
+    }
+    return best;
+  }
+}
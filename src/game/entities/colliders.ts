@@ -0,0 +1,141 @@
+import type { Vector2 } from '../types';
+
+export type EnemyPartKind = 'core' | 'plate' | 'joint';
+
+interface EnemyPartBase {
+  id: string;
+  kind: EnemyPartKind;
+  enabled: boolean;
+  // Scales orb damage on parts the owner reports as vulnerable.
+  damageMultiplier: number;
+  // Joints carry their own health pool and break independently.
+  hp?: number;
+  maxHp?: number;
+}
+
+export interface CirclePart extends EnemyPartBase {
+  shape: 'circle';
+  offset: Vector2;
+  radius: number;
+}
+
+// Ring segment around the owner's center. Angles are world-space radians and
+// run clockwise from start to end.
+export interface ArcPart extends EnemyPartBase {
+  shape: 'arc';
+  innerRadius: number;
+  outerRadius: number;
+  startAngle: number;
+  endAngle: number;
+}
+
+// Flat plate between two offsets from the owner's center. Orbs reflect off
+// its faces with a true angle of incidence and off its rounded ends radially.
+export interface SegmentPart extends EnemyPartBase {
+  shape: 'segment';
+  start: Vector2;
+  end: Vector2;
+  thickness: number;
+}
+
+export type EnemyPart = CirclePart | ArcPart | SegmentPart;
+
+// `part` is null when the orb struck an enemy's plain body circle.
+// `shielded` marks hits that landed on a directional front shield.
+export interface EnemyHit {
+  part: EnemyPart | null;
+  point: Vector2;
+  normal: Vector2;
+  shielded?: boolean;
+}
+
+const TAU = Math.PI * 2;
+
+const wrapAngle = (angle: number) => ((angle % TAU) + TAU) % TAU;
+
+export function hitTestCircle(
+  center: Vector2,
+  reachRadius: number,
+  point: Vector2,
+  radius: number,
+): { point: Vector2; normal: Vector2 } | null {
+  const dx = point.x - center.x;
+  const dy = point.y - center.y;
+  const reach = reachRadius + radius;
+  const distSq = dx * dx + dy * dy;
+  if (distSq > reach * reach) {
+    return null;
+  }
+  const distance = Math.sqrt(distSq) || 1;
+  return { point: { ...center }, normal: { x: dx / distance, y: dy / distance } };
+}
+
+export function hitTestPart(
+  origin: Vector2,
+  part: EnemyPart,
+  point: Vector2,
+  radius: number,
+): EnemyHit | null {
+  if (part.shape === 'circle') {
+    const center = { x: origin.x + part.offset.x, y: origin.y + part.offset.y };
+    const hit = hitTestCircle(center, part.radius, point, radius);
+    return hit ? { part, ...hit } : null;
+  }
+
+  if (part.shape === 'segment') {
+    return hitTestSegment(origin, part, point, radius);
+  }
+
+  const dx = point.x - origin.x;
+  const dy = point.y - origin.y;
+  const distance = Math.hypot(dx, dy);
+  if (distance < part.innerRadius - radius || distance > part.outerRadius + radius) {
+    return null;
+  }
+  const span = wrapAngle(part.endAngle - part.startAngle);
+  const padding = distance > 0 ? radius / distance : Math.PI;
+  const relative = wrapAngle(Math.atan2(dy, dx) - part.startAngle + padding);
+  if (relative > span + padding * 2) {
+    return null;
+  }
+  // Rings always face outward; callers let orbs leaving the ring pass.
+  const normal = { x: dx / (distance || 1), y: dy / (distance || 1) };
+  return {
+    part,
+    point: {
+      x: origin.x + normal.x * part.outerRadius,
+      y: origin.y + normal.y * part.outerRadius,
+    },
+    normal,
+  };
+}
+
+function hitTestSegment(
+  origin: Vector2,
+  part: SegmentPart,
+  point: Vector2,
+  radius: number,
+): EnemyHit | null {
+  const ax = origin.x + part.start.x;
+  const ay = origin.y + part.start.y;
+  const abx = part.end.x - part.start.x;
+  const aby = part.end.y - part.start.y;
+  const lengthSq = abx * abx + aby * aby;
+  const t = lengthSq > 0 ? ((point.x - ax) * abx + (point.y - ay) * aby) / lengthSq : 0;
+  const clamped = Math.max(0, Math.min(1, t));
+  const closest = { x: ax + abx * clamped, y: ay + aby * clamped };
+  const dx = point.x - closest.x;
+  const dy = point.y - closest.y;
+  const reach = part.thickness / 2 + radius;
+  const distSq = dx * dx + dy * dy;
+  if (distSq > reach * reach) {
+    return null;
+  }
+  const distance = Math.sqrt(distSq);
+  if (distance > 0) {
+    return { part, point: closest, normal: { x: dx / distance, y: dy / distance } };
+  }
+  // Dead-center hits pick the face normal on the side the plate is wound.
+  const length = Math.sqrt(lengthSq) || 1;
+  return { part, point: closest, normal: { x: aby / length, y: -abx / length } };
+}
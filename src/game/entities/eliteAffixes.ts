@@ -0,0 +1,253 @@
+import type { GameCore } from '../GameCore';
+import type { RandomSource } from '../rng';
+import type { Enemy } from './Enemy';
+
+export type EliteAffixId = 'rotatingShield' | 'dash' | 'regenerating' | 'splitting' | 'hasteAura';
+
+export interface EliteAffix {
+  id: EliteAffixId;
+  // Per-affix clock: cooldowns, recharge delays or time since the last hit.
+  timer: number;
+  // Seconds left on the affix's active effect (dash burst, regen glow).
+  active: number;
+}
+
+interface EliteAffixDefinition {
+  // RGB triple for the elite halo behind the body.
+  glow: string;
+  canApply?(enemy: Enemy): boolean;
+  apply?(enemy: Enemy, affix: EliteAffix): void;
+  // Runs after the enemy has moved for the step.
+  update?(enemy: Enemy, affix: EliteAffix, dt: number, game: GameCore): void;
+  onDamaged?(enemy: Enemy, affix: EliteAffix): void;
+  onDeath?(enemy: Enemy, game: GameCore): void;
+  // Drawn in the enemy's local space, on top of its body.
+  draw(ctx: CanvasRenderingContext2D, enemy: Enemy, affix: EliteAffix, time: number): void;
+}
+
+const GOLD = '255, 214, 132';
+const PURPLE = '196, 142, 255';
+
+const SHIELD_SPIN = 1.6;
+const SHIELD_RECHARGE = 6;
+const DASH_INTERVAL = 2.8;
+const DASH_BURST = 0.28;
+const DASH_SPEED = 420;
+const REGEN_DELAY = 1.5;
+const REGEN_RATE = 0.06;
+const HASTE_RADIUS = 170;
+const HASTE_FACTOR = 1.35;
+
+function rotatingShieldFor(enemy: Enemy, facing: number) {
+  const hp = Math.max(2, Math.ceil(enemy.maxHp * 0.25));
+  return { facing, arc: Math.PI * 0.7, hp, maxHp: hp, tint: PURPLE };
+}
+
+function haloRing(ctx: CanvasRenderingContext2D, color: string, radius: number, alpha: number) {
+  ctx.save();
+  ctx.globalCompositeOperation = 'lighter';
+  const glow = ctx.createRadialGradient(0, 0, radius * 0.6, 0, 0, radius * 1.35);
+  glow.addColorStop(0, `rgba(${color}, 0)`);
+  glow.addColorStop(0.6, `rgba(${color}, ${alpha})`);
+  glow.addColorStop(1, `rgba(${color}, 0)`);
+  ctx.fillStyle = glow;
+  ctx.beginPath();
+  ctx.arc(0, 0, radius * 1.35, 0, Math.PI * 2);
+  ctx.fill();
+  ctx.restore();
+}
+
+const ELITE_AFFIXES: Record<EliteAffixId, EliteAffixDefinition> = {
+  rotatingShield: {
+    glow: PURPLE,
+    canApply: (enemy) => enemy.parts.length === 0 && !enemy.frontShield,
+    apply(enemy) {
+      enemy.frontShield = rotatingShieldFor(enemy, -Math.PI / 2);
+    },
+    update(enemy, affix, dt) {
+      if (enemy.frontShield) {
+        enemy.frontShield.facing += SHIELD_SPIN * dt;
+        affix.timer = 0;
+        return;
+      }
+      affix.timer += dt;
+      if (affix.timer >= SHIELD_RECHARGE) {
+        affix.timer = 0;
+        enemy.frontShield = rotatingShieldFor(enemy, -Math.PI / 2);
+      }
+    },
+    draw(ctx, enemy, affix) {
+      const bubble = enemy.radius + 14;
+      ctx.save();
+      ctx.strokeStyle = `rgba(${PURPLE}, 0.28)`;
+      ctx.lineWidth = 2;
+      ctx.setLineDash([3, 9]);
+      ctx.beginPath();
+      ctx.arc(0, 0, bubble, 0, Math.PI * 2);
+      ctx.stroke();
+      ctx.setLineDash([]);
+      if (!enemy.frontShield) {
+        // Recharge sweep fills back in before the ward reappears.
+        ctx.strokeStyle = `rgba(${PURPLE}, 0.7)`;
+        ctx.lineWidth = 3;
+        ctx.beginPath();
+        const sweep = (affix.timer / SHIELD_RECHARGE) * Math.PI * 2;
+        ctx.arc(0, 0, bubble, -Math.PI / 2, -Math.PI / 2 + sweep);
+        ctx.stroke();
+      }
+      ctx.restore();
+    },
+  },
+  dash: {
+    glow: GOLD,
+    update(enemy, affix, dt, game) {
+      if (affix.active > 0) {
+        affix.active = Math.max(0, affix.active - dt);
+        enemy.position.y += DASH_SPEED * dt;
+        return;
+      }
+      affix.timer += dt;
+      if (affix.timer < DASH_INTERVAL) return;
+      affix.timer = 0;
+      affix.active = DASH_BURST;
+      // Lunge toward the middle so the sidestep never carries it off the arena.
+      const side = enemy.position.x < game.width / 2 ? 1 : -1;
+      enemy.velocity.x += side * (140 + game.rng.random() * 120);
+      game.emitEliteDash(enemy.position);
+    },
+    draw(ctx, enemy, affix, time) {
+      const radius = enemy.radius;
+      const windup = Math.max(0, affix.timer - (DASH_INTERVAL - 0.6)) / 0.6;
+      haloRing(ctx, GOLD, radius, 0.22 + windup * 0.3 + affix.active * 1.5);
+      ctx.save();
+      ctx.strokeStyle = `rgba(${GOLD}, ${0.35 + windup * 0.6})`;
+      ctx.lineWidth = 3;
+      ctx.lineCap = 'round';
+      for (let i = 0; i < 2; i++) {
+        const y = radius + 8 + i * 9 + Math.sin(time * 8) * 1.5;
+        ctx.beginPath();
+        ctx.moveTo(-8, y);
+        ctx.lineTo(0, y + 6);
+        ctx.lineTo(8, y);
+        ctx.stroke();
+      }
+      if (affix.active > 0) {
+        ctx.strokeStyle = `rgba(${GOLD}, 0.6)`;
+        for (const offset of [-0.45, 0, 0.45]) {
+          ctx.beginPath();
+          ctx.moveTo(offset * radius, -radius);
+          ctx.lineTo(offset * radius, -radius - 26);
+          ctx.stroke();
+        }
+      }
+      ctx.restore();
+    },
+  },
+  regenerating: {
+    glow: PURPLE,
+    update(enemy, affix, dt) {
+      affix.timer += dt;
+      affix.active = Math.max(0, affix.active - dt);
+      if (affix.timer < REGEN_DELAY || enemy.hp >= enemy.maxHp) return;
+      enemy.hp = Math.min(enemy.maxHp, enemy.hp + enemy.maxHp * REGEN_RATE * dt);
+      affix.active = 0.3;
+    },
+    onDamaged(_enemy, affix) {
+      affix.timer = 0;
+    },
+    draw(ctx, enemy, affix, time) {
+      const breathe = 0.5 + Math.sin(time * 2.4) * 0.5;
+      haloRing(ctx, PURPLE, enemy.radius, 0.18 + breathe * 0.12 + affix.active);
+      if (affix.active <= 0) return;
+      ctx.save();
+      ctx.fillStyle = `rgba(${PURPLE}, 0.85)`;
+      for (let i = 0; i < 3; i++) {
+        const rise = (time * 0.8 + i / 3) % 1;
+        const x = (i - 1) * enemy.radius * 0.6;
+        const y = -enemy.radius * (0.4 + rise * 1.1);
+        ctx.globalAlpha = 1 - rise;
+        ctx.fillRect(x - 1.5, y - 5, 3, 10);
+        ctx.fillRect(x - 5, y - 1.5, 10, 3);
+      }
+      ctx.restore();
+    },
+  },
+  splitting: {
+    glow: GOLD,
+    onDeath(enemy, game) {
+      const hp = 1 + Math.floor(enemy.maxHp / 8);
+      for (const side of [-1, 1]) {
+        game.spawnEnemy('Splitterling', {
+          position: { x: enemy.position.x + side * (enemy.radius + 6), y: enemy.position.y },
+          hp,
+          speed: game.baseEnemySpeed * 1.2,
+        });
+      }
+    },
+    draw(ctx, enemy, _affix, time) {
+      const radius = enemy.radius;
+      haloRing(ctx, GOLD, radius, 0.24);
+      ctx.save();
+      ctx.fillStyle = `rgba(${GOLD}, 0.9)`;
+      for (let i = 0; i < 3; i++) {
+        const angle = time * 1.8 + (i / 3) * Math.PI * 2;
+        ctx.save();
+        ctx.translate(Math.cos(angle) * (radius + 18), Math.sin(angle) * (radius + 18));
+        ctx.rotate(angle);
+        ctx.beginPath();
+        ctx.moveTo(5, 0);
+        ctx.lineTo(0, 4);
+        ctx.lineTo(-5, 0);
+        ctx.lineTo(0, -4);
+        ctx.closePath();
+        ctx.fill();
+        ctx.restore();
+      }
+      ctx.restore();
+    },
+  },
+  hasteAura: {
+    glow: PURPLE,
+    update(enemy, _affix, _dt, game) {
+      for (const other of game.enemies) {
+        if (other === enemy || !other.alive || other.isBoss) continue;
+        const dx = other.position.x - enemy.position.x;
+        const dy = other.position.y - enemy.position.y;
+        if (dx * dx + dy * dy <= HASTE_RADIUS * HASTE_RADIUS) {
+          other.applyHaste(0.25, HASTE_FACTOR);
+        }
+      }
+    },
+    draw(ctx, enemy, _affix, time) {
+      haloRing(ctx, PURPLE, enemy.radius, 0.22);
+      ctx.save();
+      ctx.fillStyle = `rgba(${PURPLE}, 0.05)`;
+      ctx.strokeStyle = `rgba(${PURPLE}, 0.3)`;
+      ctx.lineWidth = 2;
+      ctx.setLineDash([10, 14]);
+      ctx.lineDashOffset = -time * 30;
+      ctx.beginPath();
+      ctx.arc(0, 0, HASTE_RADIUS, 0, Math.PI * 2);
+      ctx.fill();
+      ctx.stroke();
+      ctx.restore();
+    },
+  },
+};
+
+const ELITE_AFFIX_IDS = Object.keys(ELITE_AFFIXES) as EliteAffixId[];
+
+export function getEliteAffix(id: EliteAffixId) {
+  return ELITE_AFFIXES[id];
+}
+
+// Draws without repeats from the affixes this enemy can actually carry.
+export function rollEliteAffixes(enemy: Enemy, count: number, rng: RandomSource): EliteAffixId[] {
+  const pool = ELITE_AFFIX_IDS.filter((id) => ELITE_AFFIXES[id].canApply?.(enemy) ?? true);
+  const picks: EliteAffixId[] = [];
+  while (picks.length < count && pool.length > 0) {
+    const [pick] = pool.splice(Math.floor(rng.random() * pool.length), 1);
+    picks.push(pick);
+  }
+  return picks;
+}
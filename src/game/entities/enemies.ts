@@ -0,0 +1,18 @@
+import { BOSS_DEFINITIONS } from './BossTypes';
+import { ENEMY_DEFINITIONS } from './EnemyTypes';
+import { registerEnemies } from './enemyRegistry';
+
+// The definition tables are the only list of enemies; adding a kind to one
+// adds it here.
+export type EnemyKind = keyof typeof ENEMY_DEFINITIONS | keyof typeof BOSS_DEFINITIONS;
+
+registerEnemies(ENEMY_DEFINITIONS);
+registerEnemies(BOSS_DEFINITIONS);
+
+export {
+  createEnemy,
+  getEnemyDefinition,
+  isEnemyKind,
+  listEnemyKinds,
+  type EnemyDefinition,
+} from './enemyRegistry';
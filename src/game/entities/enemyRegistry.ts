@@ -0,0 +1,60 @@
+import type { EnemyKind } from '../types';
+import type { Enemy, EnemySpawnParams } from './Enemy';
+
+type EnemyVisualKind = 'organic' | 'mechanical' | 'crystal';
+
+export interface EnemyVisualProfile {
+  kind: EnemyVisualKind;
+  accent: string;
+  secondary: string;
+  core: string;
+  spikes?: number;
+  sides?: number;
+}
+
+export interface EnemyDefinition {
+  // Display name for menus and the codex.
+  name: string;
+  codex: string;
+  create(params: EnemySpawnParams): Enemy;
+  radius: number;
+  // Flat part of the kill score; GameCore adds a bonus per point of max HP.
+  scoreValue: number;
+  visual: EnemyVisualProfile;
+}
+
+// Kept free of runtime imports so Enemy can read it without an import cycle.
+// `./enemies` registers the definition tables; import it to make sure that
+// has run.
+const ENEMY_REGISTRY = new Map<EnemyKind, EnemyDefinition>();
+
+export function registerEnemies(definitions: Partial<Record<EnemyKind, EnemyDefinition>>) {
+  const entries = Object.entries(definitions) as [EnemyKind, EnemyDefinition][];
+  for (const [kind, definition] of entries) {
+    if (ENEMY_REGISTRY.has(kind)) {
+      throw new Error(`Enemy kind ${kind} is already registered`);
+    }
+    ENEMY_REGISTRY.set(kind, definition);
+  }
+}
+
+export function getEnemyDefinition(kind: EnemyKind): EnemyDefinition {
+  const definition = ENEMY_REGISTRY.get(kind);
+  if (!definition) {
+    throw new Error(`Unknown enemy kind ${kind}`);
+  }
+  return definition;
+}
+
+export function isEnemyKind(value: unknown): value is EnemyKind {
+  return typeof value === 'string' && ENEMY_REGISTRY.has(value as EnemyKind);
+}
+
+// In registration order, which follows the definition tables.
+export function listEnemyKinds(): EnemyKind[] {
+  return [...ENEMY_REGISTRY.keys()];
+}
+
+export function createEnemy(kind: EnemyKind, params: EnemySpawnParams): Enemy {
+  return getEnemyDefinition(kind).create(params);
+}
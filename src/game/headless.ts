@@ -0,0 +1,86 @@
+import { DEFAULT_DIFFICULTY } from './difficulty';
+import { GameCore, SIMULATION_STEP } from './GameCore';
+import type { DifficultyDefinition, GameInput, GameSnapshot, RunModeConfig } from './types';
+import { normalize, subtract } from './utils';
+
+export type HeadlessPolicy = (snapshot: GameSnapshot, core: GameCore) => GameInput[];
+
+export interface HeadlessRunOptions {
+  seed: number;
+  difficulty?: DifficultyDefinition;
+  mode?: RunModeConfig;
+  maxSeconds?: number;
+  decisionInterval?: number;
+  policy?: HeadlessPolicy;
+}
+
+export interface HeadlessRunResult {
+  seed: number;
+  difficultyId: string;
+  score: number;
+  wave: number;
+  wavesCleared: number;
+  lives: number;
+  seconds: number;
+  over: boolean;
+}
+
+// Baseline bot for balancing sweeps: takes the first draft option, fires at
+// the enemy closest to the breach line and pops Nova Pulse whenever it's up.
+export const lowestEnemyPolicy: HeadlessPolicy = (snapshot, core) => {
+  if (snapshot.draft) {
+    return [{ type: 'draft', modifierId: snapshot.draft.options[0] }];
+  }
+  const inputs: GameInput[] = [];
+  if (snapshot.novaReady) {
+    inputs.push({ type: 'nova' });
+  }
+  if (!core.canLaunch || !snapshot.enemies.length) {
+    return inputs;
+  }
+  let target = snapshot.enemies[0];
+  for (const enemy of snapshot.enemies) {
+    if (enemy.position.y > target.position.y) {
+      target = enemy;
+    }
+  }
+  const direction = normalize(subtract(target.position, core.cannonPosition));
+  inputs.push({
+    type: 'launch',
+    target: {
+      x: core.cannonPosition.x - direction.x * 240,
+      y: core.cannonPosition.y - direction.y * 240,
+    },
+  });
+  return inputs;
+};
+
+export function runHeadless(options: HeadlessRunOptions): HeadlessRunResult {
+  const difficulty = options.difficulty ?? DEFAULT_DIFFICULTY;
+  const maxSeconds = options.maxSeconds ?? 900;
+  const policy = options.policy ?? lowestEnemyPolicy;
+  const decisionTicks = Math.max(1, Math.round((options.decisionInterval ?? 0.1) / SIMULATION_STEP));
+  const core = new GameCore({ difficulty, mode: options.mode, seed: options.seed });
+  core.reset();
+
+  const maxTicks = Math.ceil(maxSeconds / SIMULATION_STEP);
+  let frame = 0;
+  while (!core.isOver && frame < maxTicks) {
+    const inputs =
+      core.isDrafting || frame % decisionTicks === 0 ? policy(core.getSnapshot(), core) : [];
+    core.step(SIMULATION_STEP, inputs);
+    frame += 1;
+  }
+
+  const snapshot = core.getSnapshot();
+  return {
+    seed: snapshot.seed,
+    difficultyId: snapshot.difficultyId,
+    score: snapshot.score,
+    wave: snapshot.wave,
+    wavesCleared: snapshot.completedWaves,
+    lives: snapshot.lives,
+    seconds: core.elapsedTicks * SIMULATION_STEP,
+    over: snapshot.over,
+  };
+}
@@ -0,0 +1,50 @@
+import type { GameCore } from './GameCore';
+import type { ActiveModifier } from './modifiers';
+import type { RunModifierId } from './types';
+
+export interface ModifierDrawContext {
+  // Renderer clock in milliseconds, for pulsing effects.
+  time: number;
+  enableShadows: boolean;
+}
+
+export type ModifierEffect = (
+  ctx: CanvasRenderingContext2D,
+  mod: ActiveModifier,
+  game: GameCore,
+  frame: ModifierDrawContext,
+) => void;
+
+// Renderer-side visuals for drafted modifiers, drawn beneath the orbs. Kept out
+// of `modifiers.ts` so the simulation stays free of canvas code.
+export const MODIFIER_EFFECTS: Partial<Record<RunModifierId, ModifierEffect>> = {
+  stormLattice(ctx, _mod, game, frame) {
+    const alive = game.orbs.filter((orb) => orb.alive);
+    if (alive.length < 2) return;
+    ctx.save();
+    ctx.globalAlpha = (Math.sin(frame.time * 0.012) + 1) * 0.25 + 0.45;
+    ctx.lineWidth = 3.5;
+    if (frame.enableShadows) {
+      ctx.shadowBlur = 18;
+      ctx.shadowColor = 'rgba(118, 169, 255, 0.85)';
+    } else {
+      ctx.shadowBlur = 0;
+      ctx.shadowColor = 'transparent';
+    }
+    for (let i = 0; i < alive.length; i++) {
+      for (let j = i + 1; j < alive.length; j++) {
+        const a = alive[i].position;
+        const b = alive[j].position;
+        const gradient = ctx.createLinearGradient(a.x, a.y, b.x, b.y);
+        gradient.addColorStop(0, 'rgba(118, 169, 255, 1)');
+        gradient.addColorStop(1, 'rgba(89, 255, 214, 1)');
+        ctx.strokeStyle = gradient;
+        ctx.beginPath();
+        ctx.moveTo(a.x, a.y);
+        ctx.lineTo(b.x, b.y);
+        ctx.stroke();
+      }
+    }
+    ctx.restore();
+  },
+};
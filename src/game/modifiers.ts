@@ -1,54 +1,68 @@
-import type { ModifierState, RunModifierDefinition } from './types';
+import type { GameCore } from './GameCore';
+import type { Enemy } from './entities/Enemy';
+import type { Orb, OrbOptions } from './entities/Orb';
+import type { ModifierState, RunModifierDefinition, Vector2 } from './types';
 
 export interface DraftContext {
   lives: number;
   maxLives: number;
 }
 
-export type DraftModifier = RunModifierDefinition & {
-  unique?: boolean;
-  available?(state: ModifierState, context: DraftContext): boolean;
-};
+// Runtime record for a drafted modifier; plain data so it can be saved.
+export interface ActiveModifier {
+  id: RunModifierId;
+  stacks: number;
+  // Per-modifier clock for cooldown-driven effects.
+  timer: number;
+}
 
-const ensureSlow = (state: ModifierState, duration: number, factor: number) => {
-  const existing = state.slowEffect;
-  if (!existing) {
-    state.slowEffect = { duration, factor };
-    return;
-  }
-  state.slowEffect = {
-    duration: Math.max(existing.duration, duration),
-    factor: Math.min(existing.factor, factor),
-  };
-};
+export interface LaunchEvent {
+  // One orb is fired per angle (radians).
+  angles: number[];
+  orb: OrbOptions;
+}
 
-const ensureExplosion = (state: ModifierState, radius: number, damage: number) => {
-  const existing = state.explosion;
-  if (!existing) {
-    state.explosion = { radius, damage };
-    return;
-  }
-  state.explosion = {
-    radius: Math.max(existing.radius, radius),
-    damage: Math.max(existing.damage, damage),
-  };
-};
+export interface HitEvent {
+  orb: Orb;
+  enemy: Enemy;
+  point: Vector2;
+}
 
-const ensureChain = (state: ModifierState, range: number, damage: number, interval: number) => {
-  const existing = state.chainLightning;
-  if (!existing) {
-    state.chainLightning = { range, damage, interval, cooldown: 0 };
-    return;
-  }
-  state.chainLightning = {
-    range: Math.max(existing.range, range),
-    damage: existing.damage + damage,
-    interval: Math.min(existing.interval, interval),
-    cooldown: existing.cooldown,
+// Final damage is `amount + bonus`; multipliers scale `amount` so flat
+// bonuses stay unscaled whatever order modifiers were drafted in.
+export interface DamageEvent {
+  orb: Orb;
+  enemy: Enemy;
+  amount: number;
+  bonus: number;
+}
+
+export interface ModifierHooks {
+  // Runs after `apply` each time the modifier is drafted.
+  onPick?(mod: ActiveModifier, game: GameCore): void;
+  onLaunch?(mod: ActiveModifier, game: GameCore, launch: LaunchEvent): void;
+  modifyDamage?(mod: ActiveModifier, game: GameCore, damage: DamageEvent): void;
+  // Runs once the hit's damage has landed, before the orb rebounds or splits.
+  onHit?(mod: ActiveModifier, game: GameCore, hit: HitEvent): void;
+  onWallBounce?(mod: ActiveModifier, game: GameCore, orb: Orb): void;
+  onKill?(mod: ActiveModifier, game: GameCore, enemy: Enemy, orb: Orb): void;
+  onWaveStart?(mod: ActiveModifier, game: GameCore, waveNumber: number): void;
+  update?(mod: ActiveModifier, game: GameCore, dt: number): void;
+}
+
+export type DraftModifier<Id extends string = RunModifierId> = RunModifierDefinition<Id> &
+  ModifierHooks & {
+    unique?: boolean;
+    // Instant picks fire `onPick` once and are never kept as active modifiers.
+    instant?: boolean;
+    available?(state: ModifierState, context: DraftContext): boolean;
   };
-};
 
-export const MAJOR_MODIFIERS: DraftModifier[] = [
+const CHAIN_RANGE = 220;
+const CHAIN_DAMAGE = 0.5;
+const CHAIN_INTERVAL = 0.18;
+
+const MAJOR_DEFINITIONS = [
   {
     id: 'bulwarkCore',
     name: 'Bulwark Core',
@@ -64,8 +78,10 @@ export const MAJOR_MODIFIERS: DraftModifier[] = [
     name: 'Cryo Coating',
     description: 'Hits chill targets, slowing them for a moment.',
     rarity: 'common',
-    apply(state) {
-      ensureSlow(state, 1.4, 0.45);
+    onHit(_mod, _game, { enemy }) {
+      if (enemy.alive) {
+        enemy.applySlow(1.4, 0.45);
+      }
     },
   },
   {
@@ -73,8 +89,8 @@ export const MAJOR_MODIFIERS: DraftModifier[] = [
     name: 'Combo Drive',
     description: 'Damage increases with combo tier (+0.5 per tier).',
     rarity: 'common',
-    apply(state) {
-      state.comboDamagePerTier += 0.5;
+    modifyDamage(mod, game, damage) {
+      damage.bonus += game.comboTier * 0.5 * mod.stacks;
     },
   },
   {
@@ -82,8 +98,10 @@ export const MAJOR_MODIFIERS: DraftModifier[] = [
     name: 'Repulsor Burst',
     description: 'Striking an enemy knocks it back toward the top.',
     rarity: 'uncommon',
-    apply(state) {
-      state.knockbackForce = Math.max(state.knockbackForce, 320);
+    onHit(_mod, _game, { enemy }) {
+      if (enemy.alive) {
+        enemy.applyKnockback(320);
+      }
     },
   },
   {
@@ -100,8 +118,8 @@ export const MAJOR_MODIFIERS: DraftModifier[] = [
     name: 'Volatile Core',
     description: 'Collisions trigger an explosive blast of AOE damage.',
     rarity: 'uncommon',
-    apply(state) {
-      ensureExplosion(state, 140, 1.2);
+    onHit(_mod, game, { orb, point }) {
+      game.triggerExplosion(point, orb, 140, 1.2);
     },
   },
   {
@@ -109,8 +127,13 @@ export const MAJOR_MODIFIERS: DraftModifier[] = [
     name: 'Fractal Splinters',
     description: 'On hit the puck divides into twin projectiles.',
     rarity: 'rare',
-    apply(state) {
-      state.splitOnImpact = true;
+    onPick(_mod, game) {
+      for (const orb of game.orbs) {
+        orb.splitOnImpact = true;
+      }
+    },
+    onLaunch(_mod, _game, launch) {
+      launch.orb.splitOnImpact = true;
     },
   },
   {
@@ -118,8 +141,16 @@ export const MAJOR_MODIFIERS: DraftModifier[] = [
     name: 'Storm Lattice',
     description: 'Pucks link with crackling arcs that scorch nearby foes.',
     rarity: 'rare',
-    apply(state) {
-      ensureChain(state, 220, 0.5, 0.18);
+    onPick(mod) {
+      mod.timer = 0;
+    },
+    update(mod, game, dt) {
+      if (game.orbs.filter((orb) => orb.alive).length < 2) return;
+      mod.timer -= dt;
+      if (mod.timer <= 0) {
+        mod.timer = CHAIN_INTERVAL;
+        game.tickChainLightning(CHAIN_DAMAGE * mod.stacks, CHAIN_RANGE);
+      }
     },
   },
   {
@@ -127,13 +158,14 @@ export const MAJOR_MODIFIERS: DraftModifier[] = [
     name: 'Tri-Volley',
     description: 'Launching fires three pucks in a fanning spread.',
     rarity: 'rare',
-    apply(state) {
-      state.tripleLaunch = true;
+    onLaunch(_mod, _game, launch) {
+      const spread = 0.22;
+      launch.angles = launch.angles.flatMap((angle) => [angle - spread, angle, angle + spread]);
     },
   },
-];
+] as const satisfies readonly DraftModifier<string>[];
 
-export const UPGRADE_MODIFIERS: DraftModifier[] = [
+const UPGRADE_DEFINITIONS = [
   {
     id: 'damageBoost',
     name: 'Damage Amplifier',
@@ -148,8 +180,8 @@ export const UPGRADE_MODIFIERS: DraftModifier[] = [
     name: 'Combo Flux',
     description: '+0.4% damage per Combo Heat.',
     rarity: 'common',
-    apply(state) {
-      state.comboHeatDamagePercent += 0.004;
+    modifyDamage(mod, game, damage) {
+      damage.amount *= 1 + Math.max(0, game.comboHeat) * 0.004 * mod.stacks;
     },
   },
   {
@@ -157,8 +189,10 @@ export const UPGRADE_MODIFIERS: DraftModifier[] = [
     name: 'Ricochet Matrix',
     description: '+5% damage per wall bounce.',
     rarity: 'common',
-    apply(state) {
-      state.bounceDamagePercent += 0.05;
+    modifyDamage(mod, _game, damage) {
+      if (damage.orb.bounceCount > 0) {
+        damage.amount *= 1 + damage.orb.bounceCount * 0.05 * mod.stacks;
+      }
     },
   },
   {
@@ -166,8 +200,10 @@ export const UPGRADE_MODIFIERS: DraftModifier[] = [
     name: 'Predator Lock',
     description: '+10% damage vs bosses & elites.',
     rarity: 'uncommon',
-    apply(state) {
-      state.bossDamageMultiplier += 0.1;
+    modifyDamage(mod, _game, damage) {
+      if (damage.enemy.isBoss || damage.enemy.isElite) {
+        damage.amount *= 1 + 0.1 * mod.stacks;
+      }
     },
   },
   {
@@ -175,8 +211,15 @@ export const UPGRADE_MODIFIERS: DraftModifier[] = [
     name: 'Impact Condenser',
     description: '+15% damage after a wall hit (next hit).',
     rarity: 'uncommon',
-    apply(state) {
-      state.wallHitDamageBonusPercent += 0.15;
+    onWallBounce(mod, _game, orb) {
+      orb.pendingWallDamageBonus = 0.15 * mod.stacks;
+    },
+    modifyDamage(_mod, _game, damage) {
+      const { orb } = damage;
+      if (orb.pendingWallDamageBonus > 0) {
+        damage.amount *= 1 + orb.pendingWallDamageBonus;
+        orb.pendingWallDamageBonus = 0;
+      }
     },
   },
   {
@@ -184,7 +227,10 @@ export const UPGRADE_MODIFIERS: DraftModifier[] = [
     name: 'Restore Heart',
     description: 'Recover one lost heart.',
     rarity: 'common',
-    apply(_state) {},
+    instant: true,
+    onPick(_mod, game) {
+      game.restoreLife();
+    },
     available(_state, context) {
       return context.lives < context.maxLives;
     },
@@ -203,9 +249,21 @@ export const UPGRADE_MODIFIERS: DraftModifier[] = [
       return state.homingStrength > 0;
     },
   },
-];
+] as const satisfies readonly DraftModifier<string>[];
+
+// The tables above are the only list of modifiers; ids from untrusted input
+// (saves, replays) are checked against `MODIFIER_MAP`.
+export type RunModifierId =
+  | (typeof MAJOR_DEFINITIONS)[number]['id']
+  | (typeof UPGRADE_DEFINITIONS)[number]['id'];
 
-export const ALL_DRAFT_MODIFIERS: DraftModifier[] = [...MAJOR_MODIFIERS, ...UPGRADE_MODIFIERS];
+export const MAJOR_MODIFIERS: readonly DraftModifier[] = MAJOR_DEFINITIONS;
+export const UPGRADE_MODIFIERS: readonly DraftModifier[] = UPGRADE_DEFINITIONS;
+
+export const ALL_DRAFT_MODIFIERS: readonly DraftModifier[] = [
+  ...MAJOR_MODIFIERS,
+  ...UPGRADE_MODIFIERS,
+];
 
 export const MODIFIER_MAP = new Map(
   ALL_DRAFT_MODIFIERS.map((modifier) => [modifier.id, modifier]),
@@ -0,0 +1,130 @@
+import { readStored, writeStored } from './storage';
+import type {
+  DifficultyDefinition,
+  GameSnapshot,
+  MetaUpgradeId,
+  MetaUpgradeLevels,
+} from './types';
+
+export interface MetaUpgradeDefinition {
+  id: MetaUpgradeId;
+  name: string;
+  description: string;
+  // Effect added per level; what the unit means depends on the upgrade.
+  perLevel: number;
+  // Shard price of each level in turn, so its length is the level cap.
+  costs: number[];
+}
+
+export const META_UPGRADES: MetaUpgradeDefinition[] = [
+  {
+    id: 'focusCapacity',
+    name: 'Focus Reservoir',
+    description: '+15 Focus capacity per level for aftertouch and hazard buffering.',
+    perLevel: 15,
+    costs: [40, 90, 160],
+  },
+  {
+    id: 'aimGuide',
+    name: 'Long Sights',
+    description: 'The aim guide reaches 35% further per level.',
+    perLevel: 0.35,
+    costs: [30, 80],
+  },
+  {
+    id: 'secondWind',
+    name: 'Second Wind',
+    description: 'Once per run, the last breach leaves you standing on one heart.',
+    perLevel: 1,
+    costs: [150],
+  },
+  {
+    id: 'shardBonus',
+    name: 'Shard Siphon',
+    description: '+15% Shards from every run per level.',
+    perLevel: 0.15,
+    costs: [60, 120, 200],
+  },
+];
+
+const META_UPGRADE_MAP = new Map(META_UPGRADES.map((upgrade) => [upgrade.id, upgrade]));
+
+const PROFILE_STORAGE_KEY = 'slingpunk:profile';
+
+// Shards per wave cleared before the difficulty and Shard Siphon multipliers.
+const SHARDS_PER_WAVE = 3;
+
+export interface PlayerProfile {
+  shards: number;
+  upgrades: MetaUpgradeLevels;
+}
+
+export function getMetaUpgradeLevel(levels: MetaUpgradeLevels | undefined, id: MetaUpgradeId) {
+  const upgrade = META_UPGRADE_MAP.get(id);
+  if (!upgrade) return 0;
+  return Math.min(levels?.[id] ?? 0, upgrade.costs.length);
+}
+
+export function metaUpgradeBonus(levels: MetaUpgradeLevels | undefined, id: MetaUpgradeId) {
+  return getMetaUpgradeLevel(levels, id) * (META_UPGRADE_MAP.get(id)?.perLevel ?? 0);
+}
+
+// Null once the upgrade is maxed.
+export function getNextUpgradeCost(profile: PlayerProfile, id: MetaUpgradeId): number | null {
+  const upgrade = META_UPGRADE_MAP.get(id);
+  if (!upgrade) return null;
+  return upgrade.costs[getMetaUpgradeLevel(profile.upgrades, id)] ?? null;
+}
+
+export function isMetaUpgradeLevels(value: unknown): value is MetaUpgradeLevels {
+  if (!value || typeof value !== 'object') return false;
+  return Object.entries(value).every(
+    ([id, level]) =>
+      META_UPGRADE_MAP.has(id as MetaUpgradeId) &&
+      typeof level === 'number' &&
+      Number.isInteger(level) &&
+      level >= 0,
+  );
+}
+
+// Losses pay out too, so every run moves the profile forward.
+export function computeShardReward(
+  snapshot: GameSnapshot,
+  difficulty: DifficultyDefinition,
+  upgrades: MetaUpgradeLevels | undefined,
+) {
+  const multiplier = difficulty.shardMultiplier * (1 + metaUpgradeBonus(upgrades, 'shardBonus'));
+  return Math.floor(snapshot.completedWaves * SHARDS_PER_WAVE * multiplier);
+}
+
+export function loadProfile(): PlayerProfile {
+  const parsed = readStored(PROFILE_STORAGE_KEY);
+  const candidate = (parsed && typeof parsed === 'object' ? parsed : {}) as Partial<PlayerProfile>;
+  return {
+    shards:
+      typeof candidate.shards === 'number' && candidate.shards > 0
+        ? Math.floor(candidate.shards)
+        : 0,
+    upgrades: isMetaUpgradeLevels(candidate.upgrades) ? { ...candidate.upgrades } : {},
+  };
+}
+
+export function awardShards(amount: number): PlayerProfile {
+  const profile = loadProfile();
+  profile.shards += Math.max(0, Math.floor(amount));
+  writeStored(PROFILE_STORAGE_KEY, profile);
+  return profile;
+}
+
+// Returns the updated profile, or null when the upgrade is maxed or unaffordable.
+export function purchaseUpgrade(id: MetaUpgradeId): PlayerProfile | null {
+  const profile = loadProfile();
+  const cost = getNextUpgradeCost(profile, id);
+  if (cost === null || profile.shards < cost) {
+    return null;
+  }
+  profile.shards -= cost;
+  profile.upgrades[id] = getMetaUpgradeLevel(profile.upgrades, id) + 1;
+  writeStored(PROFILE_STORAGE_KEY, profile);
+  return profile;
+}
@@ -0,0 +1,201 @@
+import { getDifficultyById } from '../difficulty';
+import { MODIFIER_MAP } from '../modifiers';
+import { isMetaUpgradeLevels } from '../profile';
+import type { GameInput, RunModeConfig, RunModeId, RunModifierId } from '../types';
+import { isEnemyModifierId } from '../waves/enemyModifiers';
+import { validateWavePack } from '../waves/wavePacks';
+
+export const REPLAY_VERSION = 1;
+
+// Inputs are stored as tuples keyed by simulation frame to keep exported files
+// small: [frame, 'L', x, y, pointerId] launch, [frame, 'A', active, direction]
+// aftertouch, [frame, 'N'] Nova Pulse, [frame, 'D', modifierId] draft pick and
+// [frame, 'R', width, height] arena resize.
+export type ReplayInputEntry =
+  | [number, 'L', number, number, number]
+  | [number, 'A', 0 | 1, number]
+  | [number, 'N']
+  | [number, 'D', RunModifierId]
+  | [number, 'R', number, number];
+
+export interface ReplayData {
+  version: number;
+  seed: number;
+  difficultyId: string;
+  mode: RunModeConfig;
+  stepHz: number;
+  width: number;
+  height: number;
+  frames: number;
+  waves: number[];
+  inputs: ReplayInputEntry[];
+}
+
+export class InvalidReplayError extends Error {
+  constructor(message: string) {
+    super(`Invalid replay: ${message}`);
+    this.name = 'InvalidReplayError';
+  }
+}
+
+export class ReplayRecorder {
+  private readonly data: ReplayData;
+
+  constructor(
+    seed: number,
+    difficultyId: string,
+    mode: RunModeConfig,
+    stepHz: number,
+    width: number,
+    height: number,
+  ) {
+    this.data = {
+      version: REPLAY_VERSION,
+      seed,
+      difficultyId,
+      mode: { ...mode, enemyModifiers: [...mode.enemyModifiers] },
+      stepHz,
+      width,
+      height,
+      frames: 0,
+      waves: [],
+      inputs: [],
+    };
+  }
+
+  record(frame: number, input: GameInput) {
+    this.data.inputs.push(encodeInput(frame, input));
+  }
+
+  recordResize(frame: number, width: number, height: number) {
+    this.data.inputs.push([frame, 'R', width, height]);
+  }
+
+  markWave(waveNumber: number, frame: number) {
+    this.data.waves[waveNumber - 1] = frame;
+  }
+
+  snapshot(frames: number): ReplayData {
+    return {
+      ...this.data,
+      frames,
+      waves: [...this.data.waves],
+      inputs: this.data.inputs.map((entry) => [...entry] as ReplayInputEntry),
+    };
+  }
+}
+
+export function encodeInput(frame: number, input: GameInput): ReplayInputEntry {
+  switch (input.type) {
+    case 'launch':
+      return [frame, 'L', input.target.x, input.target.y, input.pointerId ?? 0];
+    case 'aftertouch':
+      return [frame, 'A', input.active ? 1 : 0, input.direction];
+    case 'nova':
+      return [frame, 'N'];
+    case 'draft':
+      return [frame, 'D', input.modifierId];
+  }
+}
+
+export function decodeInput(entry: ReplayInputEntry): GameInput | null {
+  switch (entry[1]) {
+    case 'L':
+      return { type: 'launch', target: { x: entry[2], y: entry[3] }, pointerId: entry[4] };
+    case 'A':
+      return { type: 'aftertouch', active: entry[2] === 1, direction: entry[3] };
+    case 'N':
+      return { type: 'nova' };
+    case 'D':
+      return { type: 'draft', modifierId: entry[2] };
+    case 'R':
+      return null;
+  }
+}
+
+export function serializeReplay(replay: ReplayData): string {
+  return JSON.stringify(replay);
+}
+
+export function parseReplay(json: string): ReplayData {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    throw new InvalidReplayError('not valid JSON');
+  }
+  if (!raw || typeof raw !== 'object') {
+    throw new InvalidReplayError('expected an object');
+  }
+  const data = raw as Partial<ReplayData>;
+  if (data.version !== REPLAY_VERSION) {
+    throw new InvalidReplayError(`unsupported version ${String(data.version)}`);
+  }
+  if (typeof data.seed !== 'number' || !Number.isFinite(data.seed)) {
+    throw new InvalidReplayError('missing seed');
+  }
+  if (typeof data.difficultyId !== 'string' || !getDifficultyById(data.difficultyId)) {
+    throw new InvalidReplayError(`unknown difficulty "${String(data.difficultyId)}"`);
+  }
+  if (!isValidRunMode(data.mode)) {
+    throw new InvalidReplayError('malformed run mode');
+  }
+  if (
+    typeof data.stepHz !== 'number' ||
+    typeof data.frames !== 'number' ||
+    typeof data.width !== 'number' ||
+    typeof data.height !== 'number'
+  ) {
+    throw new InvalidReplayError('missing timing information');
+  }
+  if (!Array.isArray(data.waves) || !data.waves.every((frame) => typeof frame === 'number')) {
+    throw new InvalidReplayError('malformed wave markers');
+  }
+  if (!Array.isArray(data.inputs)) {
+    throw new InvalidReplayError('missing inputs');
+  }
+  data.inputs.forEach((entry, index) => {
+    if (!isValidEntry(entry)) {
+      throw new InvalidReplayError(`malformed input at index ${index}`);
+    }
+  });
+  return data as ReplayData;
+}
+
+const RUN_MODE_IDS: readonly RunModeId[] = ['standard', 'daily', 'bossRush', 'campaign'];
+
+export function isValidRunMode(mode: unknown): mode is RunModeConfig {
+  if (!mode || typeof mode !== 'object') {
+    return false;
+  }
+  const candidate = mode as Partial<RunModeConfig>;
+  return (
+    RUN_MODE_IDS.includes(candidate.id as RunModeId) &&
+    Array.isArray(candidate.enemyModifiers) &&
+    candidate.enemyModifiers.every(isEnemyModifierId) &&
+    (candidate.arenaId === undefined || typeof candidate.arenaId === 'string') &&
+    (candidate.wavePack === undefined || validateWavePack(candidate.wavePack).pack !== null) &&
+    (candidate.playtest === undefined || typeof candidate.playtest === 'boolean') &&
+    (candidate.metaUpgrades === undefined || isMetaUpgradeLevels(candidate.metaUpgrades))
+  );
+}
+
+function isValidEntry(entry: unknown): entry is ReplayInputEntry {
+  if (!Array.isArray(entry) || typeof entry[0] !== 'number') {
+    return false;
+  }
+  switch (entry[1]) {
+    case 'L':
+      return entry.length === 5 && entry.slice(2).every((value) => typeof value === 'number');
+    case 'A':
+      return entry.length === 4 && (entry[2] === 0 || entry[2] === 1) && typeof entry[3] === 'number';
+    case 'N':
+      return entry.length === 2;
+    case 'D':
+      return entry.length === 3 && MODIFIER_MAP.has(entry[2]);
+    case 'R':
+      return entry.length === 4 && typeof entry[2] === 'number' && typeof entry[3] === 'number';
+    default:
+      return false;
+  }
+}
@@ -0,0 +1,111 @@
+import { GameCore, SIMULATION_STEP } from '../GameCore';
+import type { GameInput } from '../types';
+import { InvalidReplayError, decodeInput, type ReplayData } from './Replay';
+
+export type ReplaySpeed = 1 | 2 | 4;
+
+// Feeds a recorded input stream back into a GameCore one step() call at a
+// time. Because the core is deterministic for a given seed and input stream,
+// seeking backwards is just a reset followed by a silent fast-forward.
+export class ReplayPlayer {
+  public paused = false;
+  public speed: ReplaySpeed = 1;
+
+  private cursor = 0;
+  private accumulator = 0;
+
+  constructor(
+    private readonly core: GameCore,
+    public readonly replay: ReplayData,
+  ) {
+    if (replay.stepHz !== Math.round(1 / SIMULATION_STEP)) {
+      throw new InvalidReplayError(`recorded at ${replay.stepHz} Hz`);
+    }
+    if (replay.difficultyId !== core.difficultyId) {
+      throw new InvalidReplayError(`recorded on ${replay.difficultyId}`);
+    }
+    this.restart();
+  }
+
+  get frame() {
+    return this.core.elapsedFrames;
+  }
+
+  get finished() {
+    return this.frame >= this.replay.frames || this.core.isOver;
+  }
+
+  get waveCount() {
+    return this.replay.waves.length;
+  }
+
+  get progress() {
+    return this.replay.frames > 0 ? Math.min(1, this.frame / this.replay.frames) : 1;
+  }
+
+  restart() {
+    this.core.reset(this.replay.seed);
+    this.core.resize(this.replay.width, this.replay.height);
+    this.cursor = 0;
+    this.accumulator = 0;
+  }
+
+  // Advances playback by real time, scaled by the current speed. Returns the
+  // interpolation alpha for rendering, matching the live loop.
+  advance(frameTime: number) {
+    if (this.paused || this.finished) {
+      return 1;
+    }
+    this.accumulator += Math.min(frameTime, 0.25) * this.speed;
+    let steps = 0;
+    const maxSteps = 12 * this.speed;
+    while (this.accumulator >= SIMULATION_STEP && steps < maxSteps && !this.finished) {
+      this.stepOnce();
+      this.accumulator -= SIMULATION_STEP;
+      steps += 1;
+    }
+    if (steps >= maxSteps) {
+      this.accumulator = 0;
+    }
+    return this.accumulator / SIMULATION_STEP;
+  }
+
+  seekToWave(waveNumber: number) {
+    const marker = this.replay.waves[waveNumber - 1];
+    if (marker === undefined) {
+      return false;
+    }
+    if (marker < this.frame) {
+      this.restart();
+    }
+    const listener = this.core.setListener({});
+    try {
+      while (this.frame <= marker && !this.finished) {
+        this.stepOnce();
+      }
+    } finally {
+      this.core.setListener(listener);
+    }
+    this.accumulator = 0;
+    return true;
+  }
+
+  private stepOnce() {
+    const frame = this.frame;
+    const inputs: GameInput[] = [];
+    const entries = this.replay.inputs;
+    while (this.cursor < entries.length && entries[this.cursor][0] <= frame) {
+      const entry = entries[this.cursor];
+      this.cursor += 1;
+      if (entry[1] === 'R') {
+        this.core.resize(entry[2], entry[3]);
+        continue;
+      }
+      const input = decodeInput(entry);
+      if (input) {
+        inputs.push(input);
+      }
+    }
+    this.core.step(SIMULATION_STEP, inputs);
+  }
+}
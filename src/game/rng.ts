@@ -0,0 +1,62 @@
+export interface RandomSource {
+  random(): number;
+}
+
+const normalizeSeed = (seed: number) => (Math.floor(seed) >>> 0) || 0x9e3779b9;
+
+export function createRunSeed(): number {
+  return normalizeSeed(Math.random() * 0xffffffff) ^ (Date.now() >>> 0);
+}
+
+// Mulberry32: tiny, fast and good enough for gameplay rolls. The whole
+// generator state is a single uint32 so it can be snapshotted and restored.
+export class Rng implements RandomSource {
+  private state: number;
+  private currentSeed: number;
+
+  constructor(seed: number) {
+    this.currentSeed = normalizeSeed(seed);
+    this.state = this.currentSeed;
+  }
+
+  get seed() {
+    return this.currentSeed;
+  }
+
+  reseed(seed: number) {
+    this.currentSeed = normalizeSeed(seed);
+    this.state = this.currentSeed;
+  }
+
+  getState() {
+    return this.state;
+  }
+
+  setState(state: number) {
+    this.state = state >>> 0;
+  }
+
+  random() {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  range(min: number, max: number) {
+    return this.random() * (max - min) + min;
+  }
+
+  int(maxExclusive: number) {
+    return Math.floor(this.random() * maxExclusive);
+  }
+
+  chance(probability: number) {
+    return this.random() < probability;
+  }
+
+  pick<T>(values: readonly T[]): T {
+    return values[this.int(values.length)];
+  }
+}
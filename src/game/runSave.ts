@@ -0,0 +1,174 @@
+import { getDifficultyById } from './difficulty';
+import { MAJOR_MODIFIERS, MODIFIER_MAP, type ActiveModifier } from './modifiers';
+import { isValidRunMode } from './replay/Replay';
+import { readStored, removeStored, writeStored } from './storage';
+import type { DraftOffer, ModifierState, RunModeConfig, RunModifierId } from './types';
+
+export const RUN_SAVE_VERSION = 2;
+
+const RUN_SAVE_STORAGE_KEY = 'slingpunk:run-save';
+
+// Checkpoint taken at a wave boundary, once the between-wave draft has been
+// rolled. Resuming restores it and plays `wave` from the start, so anything
+// mid-flight (orbs, pickups, arena fields) is not part of the save.
+// Wave boundaries are the only time a run is saved, so leaving the page
+// mid-wave resumes from the start of that wave.
+export interface RunSaveData {
+  version: number;
+  seed: number;
+  difficultyId: string;
+  mode: RunModeConfig;
+  rngState: number;
+  tick: number;
+  score: number;
+  lives: number;
+  revivesLeft: number;
+  focus: number;
+  comboHeat: number;
+  comboTimer: number;
+  // The wave that starts when play resumes.
+  wave: number;
+  waveId: string;
+  completedWaves: number;
+  breaches: number;
+  perfectWaves: number;
+  novaCharge: number;
+  breachShields: number;
+  modifiers: ModifierState;
+  activeModifiers: ActiveModifier[];
+  availableMajorModifiers: RunModifierId[];
+  draft: { stage: DraftOffer['stage']; options: RunModifierId[] } | null;
+}
+
+export class InvalidRunSaveError extends Error {
+  constructor(message: string) {
+    super(`Invalid run save: ${message}`);
+    this.name = 'InvalidRunSaveError';
+  }
+}
+
+const NUMBER_FIELDS = [
+  'seed',
+  'rngState',
+  'tick',
+  'score',
+  'lives',
+  'revivesLeft',
+  'focus',
+  'comboHeat',
+  'comboTimer',
+  'wave',
+  'completedWaves',
+  'breaches',
+  'perfectWaves',
+  'novaCharge',
+  'breachShields',
+] as const;
+
+export function parseRunSave(raw: unknown): RunSaveData {
+  if (!raw || typeof raw !== 'object') {
+    throw new InvalidRunSaveError('expected an object');
+  }
+  const data = raw as Partial<RunSaveData>;
+  if (data.version !== RUN_SAVE_VERSION) {
+    throw new InvalidRunSaveError(`unsupported version ${String(data.version)}`);
+  }
+  if (typeof data.difficultyId !== 'string' || !getDifficultyById(data.difficultyId)) {
+    throw new InvalidRunSaveError(`unknown difficulty "${String(data.difficultyId)}"`);
+  }
+  if (!isValidRunMode(data.mode)) {
+    throw new InvalidRunSaveError('malformed run mode');
+  }
+  for (const field of NUMBER_FIELDS) {
+    const value = data[field];
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      throw new InvalidRunSaveError(`missing ${field}`);
+    }
+  }
+  if (typeof data.waveId !== 'string') {
+    throw new InvalidRunSaveError('missing waveId');
+  }
+  if (!isValidModifierState(data.modifiers)) {
+    throw new InvalidRunSaveError('malformed modifier state');
+  }
+  if (!Array.isArray(data.activeModifiers) || !data.activeModifiers.every(isActiveModifier)) {
+    throw new InvalidRunSaveError('malformed active modifiers');
+  }
+  if (
+    !Array.isArray(data.availableMajorModifiers) ||
+    data.draft === undefined ||
+    (data.draft !== null && !isDraft(data.draft))
+  ) {
+    throw new InvalidRunSaveError('malformed draft state');
+  }
+  // Modifiers get renamed or retired between builds; a save that references
+  // one this build doesn't know can't be rebuilt faithfully.
+  const referenced = [
+    ...data.activeModifiers.map((mod) => mod.id),
+    ...data.availableMajorModifiers,
+    ...(data.draft?.options ?? []),
+    ...(data.modifiers.lastPicked ? [data.modifiers.lastPicked] : []),
+  ];
+  const unknown = referenced.find((id) => !MODIFIER_MAP.has(id));
+  if (unknown !== undefined) {
+    throw new InvalidRunSaveError(`unknown modifier "${String(unknown)}"`);
+  }
+  const majorIds = new Set(MAJOR_MODIFIERS.map((mod) => mod.id));
+  const misplaced = data.availableMajorModifiers.find((id) => !majorIds.has(id));
+  if (misplaced !== undefined) {
+    throw new InvalidRunSaveError(`"${misplaced}" is not a core modifier`);
+  }
+  return data as RunSaveData;
+}
+
+function isValidModifierState(state: unknown): state is ModifierState {
+  if (!state || typeof state !== 'object') return false;
+  const candidate = state as Partial<ModifierState>;
+  return (
+    typeof candidate.orbSizeMultiplier === 'number' &&
+    typeof candidate.homingStrength === 'number' &&
+    typeof candidate.damageMultiplier === 'number' &&
+    (candidate.lastPicked === undefined || typeof candidate.lastPicked === 'string')
+  );
+}
+
+function isActiveModifier(entry: unknown): entry is ActiveModifier {
+  if (!entry || typeof entry !== 'object') return false;
+  const candidate = entry as Partial<ActiveModifier>;
+  return (
+    typeof candidate.id === 'string' &&
+    typeof candidate.stacks === 'number' &&
+    candidate.stacks >= 1 &&
+    typeof candidate.timer === 'number'
+  );
+}
+
+function isDraft(draft: unknown): draft is NonNullable<RunSaveData['draft']> {
+  if (!draft || typeof draft !== 'object') return false;
+  const candidate = draft as Partial<NonNullable<RunSaveData['draft']>>;
+  return (
+    (candidate.stage === 'upgrade' || candidate.stage === 'major') &&
+    Array.isArray(candidate.options) &&
+    candidate.options.length > 0
+  );
+}
+
+// Saves that fail to parse are dropped so the menu stops offering them.
+export function loadRunSave(): RunSaveData | null {
+  const stored = readStored(RUN_SAVE_STORAGE_KEY);
+  if (stored === null) return null;
+  try {
+    return parseRunSave(stored);
+  } catch {
+    clearRunSave();
+    return null;
+  }
+}
+
+export function storeRunSave(save: RunSaveData) {
+  writeStored(RUN_SAVE_STORAGE_KEY, save);
+}
+
+export function clearRunSave() {
+  removeStored(RUN_SAVE_STORAGE_KEY);
+}
@@ -0,0 +1,28 @@
+// localStorage can be unavailable (private mode, quota, blocked cookies). Reads
+// then come back empty and writes are dropped, so progress lasts the session.
+
+// Parsed value stored under `key`, or null when missing or unreadable.
+export function readStored(key: string): unknown {
+  try {
+    const raw = window.localStorage.getItem(key);
+    return raw ? JSON.parse(raw) : null;
+  } catch {
+    return null;
+  }
+}
+
+export function writeStored(key: string, value: unknown) {
+  try {
+    window.localStorage.setItem(key, JSON.stringify(value));
+  } catch {
+    // Dropped; see above.
+  }
+}
+
+export function removeStored(key: string) {
+  try {
+    window.localStorage.removeItem(key);
+  } catch {
+    // Nothing can have been stored.
+  }
+}
@@ -1,3 +1,9 @@
+import type { EnemyKind } from './entities/enemies';
+import type { RunModifierId } from './modifiers';
+import type { EnemyModifierId } from './waves/enemyModifiers';
+
+export type { EnemyKind, RunModifierId };
+
 export interface Vector2 {
   x: number;
   y: number;
@@ -12,51 +18,50 @@ export interface DifficultyDefinition {
   description: string;
   playerDamageMultiplier: number;
   enemyHpMultiplier: number;
+  // Scales the Shards paid out when a run ends.
+  shardMultiplier: number;
   isDefault?: boolean;
 }
 
-export type RunModifierId =
-  | 'bulwarkCore'
-  | 'cryoCoating'
-  | 'comboDrive'
-  | 'repulsorBurst'
-  | 'seekerFletching'
-  | 'volatileCore'
-  | 'fractalSplinters'
-  | 'stormLattice'
-  | 'triVolley'
-  | 'damageBoost'
-  | 'comboHeatDamageBoost'
-  | 'bounceDamageBoost'
-  | 'bossDamageBoost'
-  | 'wallHitDamageBoost'
-  | 'restoreHeart'
-  | 'seekerHomingBoost';
+export type RunModeId = 'standard' | 'daily' | 'bossRush' | 'campaign';
+
+export interface RunModeConfig {
+  id: RunModeId;
+  // Enemy mutations active from wave 1, e.g. the Daily Run's pre-rolled set.
+  enemyModifiers: EnemyModifierId[];
+  // Local date (YYYY-MM-DD) the Daily Run was generated for.
+  dailyKey?: string;
+  // Campaign arena being played.
+  arenaId?: string;
+  // Authored waves played in order before procedural waves take over. Embedded
+  // whole so replays of pack runs stay self-contained.
+  wavePack?: WavePack;
+  // Editor test runs end once the pack's waves are cleared.
+  playtest?: boolean;
+  // Permanent upgrades bought with Shards, copied from the profile at launch so
+  // replays and resumed runs play with the levels the run started with.
+  metaUpgrades?: MetaUpgradeLevels;
+}
+
+export type MetaUpgradeId = 'focusCapacity' | 'aimGuide' | 'secondWind' | 'shardBonus';
 
+export type MetaUpgradeLevels = Partial<Record<MetaUpgradeId, number>>;
+
+// Run-wide stats that modifiers adjust when drafted. Per-event effects use the
+// hooks on `DraftModifier` instead.
 export interface ModifierState {
   orbSizeMultiplier: number;
-  slowEffect?: { duration: number; factor: number };
-  comboDamagePerTier: number;
-  knockbackForce: number;
   homingStrength: number;
-  explosion?: { radius: number; damage: number };
-  splitOnImpact: boolean;
-  chainLightning?: { range: number; damage: number; interval: number; cooldown: number };
-  tripleLaunch: boolean;
   damageMultiplier: number;
-  comboHeatDamagePercent: number;
-  bounceDamagePercent: number;
-  bossDamageMultiplier: number;
-  wallHitDamageBonusPercent: number;
   lastPicked?: RunModifierId;
 }
 
-export interface RunModifierDefinition {
-  id: RunModifierId;
+export interface RunModifierDefinition<Id extends string = RunModifierId> {
+  id: Id;
   name: string;
   description: string;
   rarity: ModifierRarity;
-  apply(state: ModifierState): void;
+  apply?(state: ModifierState): void;
 }
 
 export interface HudData {
@@ -65,6 +70,8 @@ export interface HudData {
   comboTier: number;
   comboProgress: number; // 0 - 1 progress toward next tier
   focus: number;
+  maxFocus: number;
+  focusDraining: boolean;
   lives: number;
   wave: number;
   lastModifier?: RunModifierId;
@@ -72,18 +79,20 @@ export interface HudData {
   specialMax: number;
   specialReady: boolean;
   specialName: string;
+  boss: BossStatus | null;
 }
 
-export type EnemyKind =
-  | 'GloobZigzag'
-  | 'SplitterGloob'
-  | 'ShieldyGloob'
-  | 'Splitterling'
-  | 'Magnetron'
-  | 'SporePuff'
-  | 'BulwarkGloob'
-  | 'WarpStalker'
-  | 'AegisSentinel';
+export interface BossStatus {
+  name: string;
+  hp: number;
+  maxHp: number;
+  phase: number;
+  phaseCount: number;
+  phaseName: string;
+  enraged: boolean;
+  enrageSeconds: number;
+  vulnerable: boolean;
+}
 
 export interface EnemyModifierSummary {
   id: string;
@@ -98,6 +107,9 @@ export interface EnemyWaveScaling {
   speedMultiplier: number;
   countMultiplier: number;
   cadenceMultiplier: number;
+  // Odds that a wave spawn is promoted to an elite, and how many affixes it rolls.
+  eliteChance: number;
+  eliteAffixes: number;
 }
 
 export interface WaveStartAnnouncement {
@@ -119,5 +131,116 @@ export interface WaveBlueprint {
   waveId: string;
   spawnSeconds: number;
   enemies: WaveEnemyConfig[];
-  bumpers?: Array<{ shape: 'triangle'; x: number; y: number }>;
+  bumpers?: BumperConfig[];
+  fields?: ArenaFieldConfig[];
+  // Overrides the tuned elite chance for this wave.
+  eliteChance?: number;
+  // Chance that a kill drops a pickup.
+  powerupDropChance?: number;
+}
+
+export interface WavePack {
+  id: string;
+  name: string;
+  waves: WaveBlueprint[];
+}
+
+// Bumper positions are fractions of the arena size so layouts survive resizes;
+// sizes stay in pixels. Angles are radians, clockwise from +x.
+export type BumperConfig =
+  | { shape: 'circle'; x: number; y: number; radius?: number }
+  | { shape: 'triangle'; x: number; y: number; size?: number; rotation?: number }
+  | { shape: 'bar'; x: number; y: number; length?: number; angle?: number; thickness?: number };
+
+// Arena fields share the bumper coordinate conventions. Gravity wells bend
+// orbs toward their center (negative strength repels), fans push orbs along
+// `angle` inside a width x height box and amplifiers boost the first orb that
+// passes through them, then burn out.
+export type ArenaFieldConfig =
+  | { kind: 'gravityWell'; x: number; y: number; radius?: number; strength?: number }
+  | {
+      kind: 'fan';
+      x: number;
+      y: number;
+      width?: number;
+      height?: number;
+      angle?: number;
+      force?: number;
+    }
+  | {
+      kind: 'amplifier';
+      x: number;
+      y: number;
+      boost: AmplifierBoost;
+      radius?: number;
+      amount?: number;
+    };
+
+export type AmplifierBoost = 'damage' | 'speed';
+
+export type PowerupKind = 'multiball' | 'lightning' | 'shield' | 'magnet';
+
+export type GameInput =
+  | { type: 'launch'; target: Vector2; pointerId?: number }
+  | { type: 'aftertouch'; active: boolean; direction: number }
+  | { type: 'nova' }
+  | { type: 'draft'; modifierId: RunModifierId };
+
+export interface DraftOffer {
+  stage: 'upgrade' | 'major';
+  options: RunModifierId[];
+  title: string;
+  subtitle: string;
+}
+
+export interface OrbSnapshot {
+  id: number;
+  position: Vector2;
+  velocity: Vector2;
+  radius: number;
+}
+
+export interface EnemySnapshot {
+  type: EnemyKind;
+  position: Vector2;
+  radius: number;
+  hp: number;
+  maxHp: number;
+  shield: number;
+  isElite: boolean;
+  isBoss: boolean;
+}
+
+export interface GameSnapshot {
+  tick: number;
+  seed: number;
+  difficultyId: string;
+  modeId: RunModeId;
+  score: number;
+  lives: number;
+  maxLives: number;
+  focus: number;
+  maxFocus: number;
+  // True while an enemy is siphoning Focus.
+  focusDraining: boolean;
+  comboHeat: number;
+  comboTier: number;
+  comboProgress: number;
+  wave: number;
+  waveId: string;
+  completedWaves: number;
+  novaCharge: number;
+  novaChargeMax: number;
+  novaReady: boolean;
+  lastModifier?: RunModifierId;
+  modifierCounts: Array<{ id: RunModifierId; count: number }>;
+  draft: { stage: DraftOffer['stage']; options: RunModifierId[] } | null;
+  over: boolean;
+  // Set when a mode with a finish line (Boss Rush) was beaten rather than lost.
+  cleared: boolean;
+  breaches: number;
+  perfectWaves: number;
+  orbs: OrbSnapshot[];
+  enemies: EnemySnapshot[];
+  boss: BossStatus | null;
 }
@@ -1,3 +1,4 @@
+import type { RandomSource } from './rng';
 import type { Vector2 } from './types';
 
 export const clamp = (value: number, min: number, max: number) =>
@@ -45,5 +46,18 @@ export const distanceToSegmentSq = (point: Vector2, a: Vector2, b: Vector2) => {
   return dx * dx + dy * dy;
 };
 
-export const randomRange = (min: number, max: number) => Math.random() * (max - min) + min;
+// Simulation code must pass the run's Rng so replays stay deterministic.
+export const randomRange = (min: number, max: number, source: RandomSource) =>
+  source.random() * (max - min) + min;
 
+// Unseeded; only for presentation (particles, backdrop) that never feeds the sim.
+export const cosmeticRandomRange = (min: number, max: number) =>
+  Math.random() * (max - min) + min;
+
+export const dot = (a: Vector2, b: Vector2) => a.x * b.x + a.y * b.y;
+
+// Mirrors v about a surface with the given unit normal.
+export const reflect = (v: Vector2, normal: Vector2): Vector2 => {
+  const d = 2 * dot(v, normal);
+  return { x: v.x - d * normal.x, y: v.y - d * normal.y };
+};
@@ -1,7 +1,9 @@
-import type { Game } from '../Game';
-import type { EnemyWaveScaling, WaveEnemyConfig } from '../types';
+import { CAMPAIGN_ARENA_WAVES, CAMPAIGN_BOSS_WAVE, getCampaignArena } from '../campaign';
+import type { GameCore } from '../GameCore';
+import type { EnemyWaveScaling, WaveBlueprint, WaveEnemyConfig } from '../types';
 import { buildEnemyTuning } from './enemyModifiers';
 import { pickWave } from './blueprints';
+import { BOSS_WAVE_INTERVAL, isBossKind, isBossWaveNumber, pickBossWave } from './bossWaves';
 
 interface ActiveSpawn {
   config: WaveEnemyConfig;
@@ -10,10 +12,11 @@ interface ActiveSpawn {
 }
 
 export class WaveManager {
-  private readonly game: Game;
+  private readonly game: GameCore;
   private spawns: ActiveSpawn[] = [];
   private elapsed = 0;
   private waveIndex = 0;
+  private eliteChance = 0;
   private scaling: EnemyWaveScaling = {
     level: 0,
     hpMultiplier: 1,
@@ -21,9 +24,11 @@ export class WaveManager {
     speedMultiplier: 1,
     countMultiplier: 1,
     cadenceMultiplier: 1,
+    eliteChance: 0,
+    eliteAffixes: 1,
   };
 
-  constructor(game: Game) {
+  constructor(game: GameCore) {
     this.game = game;
   }
 
@@ -33,7 +38,7 @@ export class WaveManager {
 
   update(dt: number) {
     if (!this.spawns.length) {
-      this.loadWave(this.waveIndex);
+      this.loadWave();
     }
 
     this.elapsed += dt;
@@ -55,10 +60,24 @@ export class WaveManager {
     }
   }
 
+  // Boss waves replace the procedural blueprint every BOSS_WAVE_INTERVAL waves,
+  // every wave in Boss Rush and the closing wave of a campaign arena.
+  isBossWave(waveNumber = this.waveNumber) {
+    switch (this.game.mode.id) {
+      case 'bossRush':
+        return true;
+      case 'campaign':
+        return waveNumber === CAMPAIGN_BOSS_WAVE;
+      default:
+        return isBossWaveNumber(waveNumber);
+    }
+  }
+
   reset() {
     this.waveIndex = 0;
     this.elapsed = 0;
     this.spawns = [];
+    this.eliteChance = 0;
     this.scaling = {
       level: 0,
       hpMultiplier: 1,
@@ -66,14 +85,63 @@ export class WaveManager {
       speedMultiplier: 1,
       countMultiplier: 1,
       cadenceMultiplier: 1,
+      eliteChance: 0,
+      eliteAffixes: 1,
+    };
+  }
+
+  // Picks a run back up at the start of `waveNumber`; the wave loads on the
+  // next update like any other.
+  restore(waveNumber: number) {
+    this.reset();
+    this.waveIndex = Math.max(0, waveNumber - 1);
+  }
+
+  // Boss Rush fights are tuned as if the boss wave had been reached in an
+  // endless run. Campaign arenas start from a fresh loadout, so they replay the
+  // opening ramp (arena mutations do the escalating) and the boss shares the
+  // final regular wave's tuning.
+  private encounterWave(waveNumber: number) {
+    switch (this.game.mode.id) {
+      case 'bossRush':
+        return waveNumber * BOSS_WAVE_INTERVAL;
+      case 'campaign':
+        return Math.min(waveNumber, CAMPAIGN_ARENA_WAVES);
+      default:
+        return waveNumber;
+    }
+  }
+
+  // Authored pack waves play first, in order, and pre-empt boss waves too.
+  private authoredWave(waveNumber: number): WaveBlueprint | null {
+    const wave = this.game.mode.wavePack?.waves[waveNumber - 1];
+    if (!wave) return null;
+    return {
+      ...wave,
+      enemies: wave.enemies.map((enemy) => ({ ...enemy })),
+      bumpers: wave.bumpers?.map((bumper) => ({ ...bumper })),
+      fields: wave.fields?.map((field) => ({ ...field })),
     };
   }
 
-  private loadWave(index: number) {
+  private loadWave() {
     const waveNumber = this.waveNumber;
-    const blueprint = pickWave(index);
-    const tuning = buildEnemyTuning(waveNumber);
+    const encounterWave = this.encounterWave(waveNumber);
+    const mode = this.game.mode;
+    const arena = mode.id === 'campaign' ? getCampaignArena(mode.arenaId) : null;
+    const authored = this.authoredWave(waveNumber);
+    const bossWave = !authored && this.isBossWave(waveNumber);
+    const blueprint =
+      authored ??
+      (bossWave
+        ? pickBossWave(encounterWave, arena?.boss)
+        : pickWave(encounterWave - 1, this.game.rng));
+    const tuning = buildEnemyTuning(encounterWave, this.game.rng, mode.enemyModifiers);
     this.scaling = tuning.scaling;
+    this.eliteChance = blueprint.eliteChance ?? tuning.scaling.eliteChance;
+    this.game.setBumpers(arena && !bossWave ? arena.bumpers : blueprint.bumpers ?? []);
+    this.game.setArenaFields(arena && !bossWave ? arena.fields : blueprint.fields ?? []);
+    this.game.setPowerupDropChance(blueprint.powerupDropChance ?? 0);
 
     this.game.onWaveStart({
       blueprintId: blueprint.waveId,
@@ -88,24 +156,28 @@ export class WaveManager {
         type: config.type,
         hp: config.hp,
         lane: config.lane,
-        count: this.scaleCount(config.count),
+        count: isBossKind(config.type) ? config.count : this.scaleCount(config.count),
         cadence: this.scaleCadence(config.cadence),
       };
       return {
         config: scaledConfig,
         spawned: 0,
         nextTime:
-          this.elapsed + introDelay + Math.random() * Math.min(2, scaledConfig.cadence),
+          this.elapsed + introDelay + this.game.rng.random() * Math.min(2, scaledConfig.cadence),
       };
     });
   }
 
   private spawnEnemy(config: WaveEnemyConfig) {
-    this.game.spawnEnemy(config.type, {
+    const enemy = this.game.spawnEnemy(config.type, {
       position: this.game.laneToWorld(config.lane),
       hp: config.hp,
       speed: this.game.baseEnemySpeed,
     });
+    // Only roll when elites are possible so early waves keep their RNG stream.
+    if (this.eliteChance > 0 && this.game.rng.random() < this.eliteChance) {
+      this.game.promoteToElite(enemy, this.scaling.eliteAffixes);
+    }
   }
 
   private scaleCount(baseCount: number): number {
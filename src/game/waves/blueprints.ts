@@ -1,16 +1,22 @@
-import type { WaveBlueprint, WaveEnemyConfig } from '../types';
+import type { RandomSource } from '../rng';
+import type { ArenaFieldConfig, BumperConfig, WaveBlueprint, WaveEnemyConfig } from '../types';
 import { clamp, randomRange } from '../utils';
 
 type LaneStrategy = 'random' | 'contiguous' | 'mirrored' | 'center';
 
+const CHAMPION_WAVE_CHANCE = 0.12;
+const CHAMPION_ELITE_CHANCE = 0.35;
+
 interface GroupTemplate {
   id: string;
   minWave: number;
   laneCount: number;
   laneStrategy?: LaneStrategy;
   maxPerWave?: number;
+  // The wave uses the highest chance among its chosen groups.
+  powerupDropChance: number;
   weight(waveNumber: number): number;
-  generate(waveNumber: number, lanes: number[]): WaveEnemyConfig[];
+  generate(waveNumber: number, lanes: number[], rng: RandomSource): WaveEnemyConfig[];
 }
 
 const groupTemplates: GroupTemplate[] = [
@@ -20,13 +26,14 @@ const groupTemplates: GroupTemplate[] = [
     laneCount: 1,
     laneStrategy: 'random',
     maxPerWave: 2,
+    powerupDropChance: 0.03,
     weight: (waveNumber) => Math.max(0.5, 7 - waveNumber * 0.25),
-    generate(waveNumber, lanes) {
+    generate(waveNumber, lanes, rng) {
       const lane = lanes[0] ?? 3;
       const hp = 3 + Math.floor((waveNumber - 1) / 2);
-      const count = 4 + Math.floor((waveNumber - 1) / 3) + (Math.random() < 0.35 ? 1 : 0);
+      const count = 4 + Math.floor((waveNumber - 1) / 3) + (rng.random() < 0.35 ? 1 : 0);
       const cadenceBase = 2.8 - waveNumber * 0.05;
-      const cadence = clamp(cadenceBase + randomRange(-0.2, 0.2), 1.1, 3.2);
+      const cadence = clamp(cadenceBase + randomRange(-0.2, 0.2, rng), 1.1, 3.2);
       return [
         {
           type: 'GloobZigzag',
@@ -43,12 +50,13 @@ const groupTemplates: GroupTemplate[] = [
     minWave: 2,
     laneCount: 2,
     laneStrategy: 'contiguous',
+    powerupDropChance: 0.04,
     weight: (waveNumber) => Math.max(0.6, 5 - waveNumber * 0.15),
-    generate(waveNumber, lanes) {
+    generate(waveNumber, lanes, rng) {
       const hp = 3 + Math.floor(waveNumber / 3);
       const count = 3 + Math.floor(waveNumber / 4);
       const cadenceBase = 2.4 - waveNumber * 0.04;
-      const cadence = clamp(cadenceBase + randomRange(-0.15, 0.15), 1, 2.6);
+      const cadence = clamp(cadenceBase + randomRange(-0.15, 0.15, rng), 1, 2.6);
       return lanes.map((lane) => ({ type: 'GloobZigzag', lane, hp, count, cadence }));
     },
   },
@@ -57,12 +65,13 @@ const groupTemplates: GroupTemplate[] = [
     minWave: 4,
     laneCount: 3,
     laneStrategy: 'contiguous',
+    powerupDropChance: 0.05,
     weight: (waveNumber) => Math.max(0.5, 3.5 - waveNumber * 0.08),
-    generate(waveNumber, lanes) {
+    generate(waveNumber, lanes, rng) {
       const hp = 3 + Math.floor(waveNumber / 3);
       const count = 2 + Math.floor(waveNumber / 5);
       const cadenceBase = 2.1 - waveNumber * 0.03;
-      const cadence = clamp(cadenceBase + randomRange(-0.12, 0.12), 0.9, 2.3);
+      const cadence = clamp(cadenceBase + randomRange(-0.12, 0.12, rng), 0.9, 2.3);
       return lanes.map((lane) => ({ type: 'GloobZigzag', lane, hp, count, cadence }));
     },
   },
@@ -72,13 +81,14 @@ const groupTemplates: GroupTemplate[] = [
     laneCount: 1,
     laneStrategy: 'random',
     maxPerWave: 2,
+    powerupDropChance: 0.04,
     weight: (waveNumber) => Math.max(0.6, 4.5 - waveNumber * 0.1),
-    generate(waveNumber, lanes) {
+    generate(waveNumber, lanes, rng) {
       const lane = lanes[0] ?? 4;
       const hp = 4 + Math.floor((waveNumber - 1) / 3);
       const count = 2 + Math.floor((waveNumber - 1) / 4);
       const cadenceBase = 5 - waveNumber * 0.09;
-      const cadence = clamp(cadenceBase + randomRange(-0.3, 0.3), 2.5, 6.2);
+      const cadence = clamp(cadenceBase + randomRange(-0.3, 0.3, rng), 2.5, 6.2);
       return [
         {
           type: 'SplitterGloob',
@@ -95,12 +105,13 @@ const groupTemplates: GroupTemplate[] = [
     minWave: 4,
     laneCount: 2,
     laneStrategy: 'contiguous',
+    powerupDropChance: 0.05,
     weight: (waveNumber) => Math.max(0.5, 3.8 - waveNumber * 0.08),
-    generate(waveNumber, lanes) {
+    generate(waveNumber, lanes, rng) {
       const hp = 4 + Math.floor((waveNumber - 1) / 3);
       const count = 2 + Math.floor((waveNumber - 1) / 5);
       const cadenceBase = 4.6 - waveNumber * 0.07;
-      const cadence = clamp(cadenceBase + randomRange(-0.2, 0.2), 2.4, 5.4);
+      const cadence = clamp(cadenceBase + randomRange(-0.2, 0.2, rng), 2.4, 5.4);
       return lanes.map((lane) => ({ type: 'SplitterGloob', lane, hp, count, cadence }));
     },
   },
@@ -109,12 +120,13 @@ const groupTemplates: GroupTemplate[] = [
     minWave: 3,
     laneCount: 2,
     laneStrategy: 'mirrored',
+    powerupDropChance: 0.06,
     weight: (waveNumber) => 1.8 + waveNumber * 0.05,
-    generate(waveNumber, lanes) {
+    generate(waveNumber, lanes, rng) {
       const hp = 6 + Math.floor((waveNumber - 1) / 4);
       const count = 1 + Math.floor((waveNumber - 1) / 6);
       const cadenceBase = 6.2 - waveNumber * 0.1;
-      const cadence = clamp(cadenceBase + randomRange(-0.3, 0.3), 3.6, 7);
+      const cadence = clamp(cadenceBase + randomRange(-0.3, 0.3, rng), 3.6, 7);
       return lanes.map((lane) => ({ type: 'ShieldyGloob', lane, hp, count, cadence }));
     },
   },
@@ -123,14 +135,15 @@ const groupTemplates: GroupTemplate[] = [
     minWave: 3,
     laneCount: 1,
     laneStrategy: 'random',
+    powerupDropChance: 0.06,
     weight: (waveNumber) => 2 + waveNumber * 0.04,
-    generate(waveNumber, lanes) {
+    generate(waveNumber, lanes, rng) {
       const lane = lanes[0] ?? 3;
       const configs: WaveEnemyConfig[] = [];
       const magnetHp = 6 + Math.floor((waveNumber - 1) / 3);
       const magnetCount = 1 + Math.floor((waveNumber - 1) / 7);
       const magnetCadenceBase = 6.4 - waveNumber * 0.1;
-      const magnetCadence = clamp(magnetCadenceBase + randomRange(-0.2, 0.2), 3.6, 7.2);
+      const magnetCadence = clamp(magnetCadenceBase + randomRange(-0.2, 0.2, rng), 3.6, 7.2);
       configs.push({
         type: 'Magnetron',
         lane,
@@ -140,7 +153,7 @@ const groupTemplates: GroupTemplate[] = [
       });
       const escortCount = 3 + Math.floor((waveNumber - 1) / 4);
       const escortCadenceBase = 2.5 - waveNumber * 0.04;
-      const escortCadence = clamp(escortCadenceBase + randomRange(-0.15, 0.15), 1.2, 2.8);
+      const escortCadence = clamp(escortCadenceBase + randomRange(-0.15, 0.15, rng), 1.2, 2.8);
       const neighborLanes = [lane - 1, lane + 1].filter((value) => value >= 1 && value <= 6);
       for (const neighbor of neighborLanes) {
         configs.push({
@@ -159,12 +172,13 @@ const groupTemplates: GroupTemplate[] = [
     minWave: 4,
     laneCount: 2,
     laneStrategy: 'contiguous',
+    powerupDropChance: 0.06,
     weight: (waveNumber) => 1.6 + waveNumber * 0.03,
-    generate(waveNumber, lanes) {
+    generate(waveNumber, lanes, rng) {
       const hp = 5 + Math.floor((waveNumber - 1) / 4);
       const count = 2 + Math.floor((waveNumber - 1) / 6);
       const cadenceBase = 5.4 - waveNumber * 0.07;
-      const cadence = clamp(cadenceBase + randomRange(-0.2, 0.2), 2.7, 6.2);
+      const cadence = clamp(cadenceBase + randomRange(-0.2, 0.2, rng), 2.7, 6.2);
       return lanes.map((lane) => ({ type: 'SporePuff', lane, hp, count, cadence }));
     },
   },
@@ -173,13 +187,14 @@ const groupTemplates: GroupTemplate[] = [
     minWave: 5,
     laneCount: 3,
     laneStrategy: 'contiguous',
+    powerupDropChance: 0.07,
     weight: (waveNumber) => 2.4 + waveNumber * 0.04,
-    generate(waveNumber, lanes) {
+    generate(waveNumber, lanes, rng) {
       const configs: WaveEnemyConfig[] = [];
       const [laneA, laneB, laneC] = lanes;
       const zigzagHp = 3 + Math.floor((waveNumber - 1) / 3);
       const zigzagCount = 3 + Math.floor((waveNumber - 1) / 4);
-      const zigzagCadence = clamp(2.3 - waveNumber * 0.04 + randomRange(-0.15, 0.15), 1.1, 2.6);
+      const zigzagCadence = clamp(2.3 - waveNumber * 0.04 + randomRange(-0.15, 0.15, rng), 1.1, 2.6);
       configs.push({
         type: 'GloobZigzag',
         lane: laneA ?? 2,
@@ -189,7 +204,7 @@ const groupTemplates: GroupTemplate[] = [
       });
       const splitterHp = 5 + Math.floor((waveNumber - 1) / 3);
       const splitterCount = 2 + Math.floor((waveNumber - 1) / 5);
-      const splitterCadence = clamp(4.6 - waveNumber * 0.07 + randomRange(-0.25, 0.25), 2.4, 5.2);
+      const splitterCadence = clamp(4.6 - waveNumber * 0.07 + randomRange(-0.25, 0.25, rng), 2.4, 5.2);
       configs.push({
         type: 'SplitterGloob',
         lane: laneB ?? 3,
@@ -200,7 +215,7 @@ const groupTemplates: GroupTemplate[] = [
       if (laneC !== undefined) {
         const supportHp = 5 + Math.floor((waveNumber - 1) / 5);
         const supportCount = 1 + Math.floor((waveNumber - 1) / 6);
-        const supportCadence = clamp(5.8 - waveNumber * 0.08 + randomRange(-0.25, 0.25), 3, 6.5);
+        const supportCadence = clamp(5.8 - waveNumber * 0.08 + randomRange(-0.25, 0.25, rng), 3, 6.5);
         configs.push({
           type: 'ShieldyGloob',
           lane: laneC,
@@ -212,17 +227,120 @@ const groupTemplates: GroupTemplate[] = [
       return configs;
     },
   },
+  {
+    id: 'leech-latch',
+    minWave: 6,
+    laneCount: 1,
+    laneStrategy: 'random',
+    powerupDropChance: 0.08,
+    weight: (waveNumber) => 0.7 + (waveNumber - 5) * 0.04,
+    generate(waveNumber, lanes, rng) {
+      const lane = lanes[0] ?? 3;
+      const hp = 4 + Math.floor((waveNumber - 6) / 3);
+      const count = 1 + Math.floor((waveNumber - 6) / 6);
+      const cadence = clamp(6.5 - (waveNumber - 6) * 0.08 + randomRange(-0.3, 0.3, rng), 3.8, 7);
+      return [{ type: 'LeechLump', lane, hp, count, cadence }];
+    },
+  },
+  {
+    id: 'reflector-screen',
+    minWave: 7,
+    laneCount: 2,
+    laneStrategy: 'mirrored',
+    maxPerWave: 1,
+    powerupDropChance: 0.08,
+    weight: (waveNumber) => 0.8 + (waveNumber - 6) * 0.06,
+    generate(waveNumber, lanes, rng) {
+      const hp = 6 + Math.floor((waveNumber - 7) / 2);
+      const count = Math.max(1, 1 + Math.floor((waveNumber - 7) / 7));
+      const cadence = clamp(6.2 - (waveNumber - 7) * 0.1 + randomRange(-0.25, 0.25, rng), 3.6, 6.6);
+      return lanes.map((lane) => ({ type: 'ReflectorDrone', lane, hp, count, cadence }));
+    },
+  },
+  {
+    id: 'void-drift',
+    minWave: 9,
+    laneCount: 2,
+    laneStrategy: 'random',
+    powerupDropChance: 0.08,
+    weight: (waveNumber) => 0.9 + (waveNumber - 8) * 0.05,
+    generate(waveNumber, lanes, rng) {
+      const hp = 5 + Math.floor((waveNumber - 9) / 2);
+      const count = 2 + Math.floor((waveNumber - 9) / 5);
+      const cadence = clamp(4.4 - (waveNumber - 9) * 0.07 + randomRange(-0.2, 0.2, rng), 2.4, 4.8);
+      return lanes.map((lane) => ({ type: 'VoidJelly', lane, hp, count, cadence }));
+    },
+  },
+  {
+    id: 'repair-crew',
+    minWave: 8,
+    laneCount: 2,
+    laneStrategy: 'contiguous',
+    powerupDropChance: 0.09,
+    weight: (waveNumber) => 0.9 + (waveNumber - 7) * 0.05,
+    generate(waveNumber, lanes, rng) {
+      const [botLane, escortLane] = lanes;
+      const botHp = 4 + Math.floor((waveNumber - 8) / 3);
+      const botCadence = clamp(7 - (waveNumber - 8) * 0.1 + randomRange(-0.25, 0.25, rng), 4.2, 7.4);
+      const bulwarkHp = 8 + Math.floor((waveNumber - 8) / 2);
+      const bulwarkCadence = clamp(6.6 - (waveNumber - 8) * 0.1 + randomRange(-0.2, 0.2, rng), 3.6, 7);
+      return [
+        {
+          type: 'BulwarkGloob',
+          lane: escortLane ?? 3,
+          hp: bulwarkHp,
+          count: 1 + Math.floor((waveNumber - 8) / 8),
+          cadence: bulwarkCadence,
+        },
+        { type: 'RepairBot', lane: botLane ?? 4, hp: botHp, count: 1, cadence: botCadence },
+      ];
+    },
+  },
+  {
+    id: 'repair-convoy',
+    minWave: 12,
+    laneCount: 3,
+    laneStrategy: 'center',
+    powerupDropChance: 0.1,
+    weight: (waveNumber) => 0.8 + (waveNumber - 11) * 0.06,
+    generate(waveNumber, lanes, rng) {
+      const ordered = lanes.length === 3 ? lanes : [2, 3, 4];
+      const [left, mid, right] = ordered;
+      const bulwarkHp = 10 + Math.floor((waveNumber - 12) / 2);
+      const bulwarkCount = Math.max(1, 1 + Math.floor((waveNumber - 12) / 7));
+      const bulwarkCadence = clamp(6.4 - (waveNumber - 12) * 0.1 + randomRange(-0.2, 0.2, rng), 3.4, 6.8);
+      const botHp = 5 + Math.floor((waveNumber - 12) / 3);
+      const botCount = 1 + Math.floor((waveNumber - 12) / 9);
+      const botCadence = clamp(6.8 - (waveNumber - 12) * 0.08 + randomRange(-0.25, 0.25, rng), 4, 7.2);
+      const configs: WaveEnemyConfig[] = [left ?? 2, right ?? 4].map((lane) => ({
+        type: 'BulwarkGloob',
+        lane,
+        hp: bulwarkHp,
+        count: bulwarkCount,
+        cadence: bulwarkCadence,
+      }));
+      configs.push({
+        type: 'RepairBot',
+        lane: mid ?? 3,
+        hp: botHp,
+        count: botCount,
+        cadence: botCadence,
+      });
+      return configs;
+    },
+  },
   {
     id: 'bulwark-advance',
     minWave: 10,
     laneCount: 2,
     laneStrategy: 'contiguous',
+    powerupDropChance: 0.09,
     weight: (waveNumber) => 1 + (waveNumber - 9) * 0.08,
-    generate(waveNumber, lanes) {
+    generate(waveNumber, lanes, rng) {
       const hp = 9 + Math.floor((waveNumber - 10) / 2);
       const count = Math.max(1, 1 + Math.floor((waveNumber - 10) / 6));
       const cadenceBase = 6.8 - (waveNumber - 10) * 0.12;
-      const cadence = clamp(cadenceBase + randomRange(-0.25, 0.25), 3.4, 7.2);
+      const cadence = clamp(cadenceBase + randomRange(-0.25, 0.25, rng), 3.4, 7.2);
       return lanes.map((lane) => ({ type: 'BulwarkGloob', lane, hp, count, cadence }));
     },
   },
@@ -231,13 +349,14 @@ const groupTemplates: GroupTemplate[] = [
     minWave: 12,
     laneCount: 1,
     laneStrategy: 'random',
+    powerupDropChance: 0.1,
     weight: (waveNumber) => 0.9 + (waveNumber - 11) * 0.08,
-    generate(waveNumber, lanes) {
+    generate(waveNumber, lanes, rng) {
       const lane = lanes[0] ?? 3;
       const configs: WaveEnemyConfig[] = [];
       const bulwarkHp = 10 + Math.floor((waveNumber - 12) / 2);
       const bulwarkCount = Math.max(1, 1 + Math.floor((waveNumber - 12) / 7));
-      const bulwarkCadence = clamp(6.2 - (waveNumber - 12) * 0.1 + randomRange(-0.2, 0.2), 3.3, 6.8);
+      const bulwarkCadence = clamp(6.2 - (waveNumber - 12) * 0.1 + randomRange(-0.2, 0.2, rng), 3.3, 6.8);
       configs.push({
         type: 'BulwarkGloob',
         lane,
@@ -247,10 +366,11 @@ const groupTemplates: GroupTemplate[] = [
       });
       const flankLanes = shuffle(
         [lane - 1, lane + 1].filter((value) => value >= 1 && value <= 6),
+        rng,
       ).slice(0, 2);
       const stalkerHp = 7 + Math.floor((waveNumber - 12) / 3);
       const stalkerCount = 2 + Math.floor((waveNumber - 12) / 4);
-      const stalkerCadence = clamp(3.4 - (waveNumber - 12) * 0.06 + randomRange(-0.15, 0.15), 1.4, 3.6);
+      const stalkerCadence = clamp(3.4 - (waveNumber - 12) * 0.06 + randomRange(-0.15, 0.15, rng), 1.4, 3.6);
       for (const flank of flankLanes) {
         configs.push({
           type: 'WarpStalker',
@@ -268,12 +388,13 @@ const groupTemplates: GroupTemplate[] = [
     minWave: 13,
     laneCount: 2,
     laneStrategy: 'contiguous',
+    powerupDropChance: 0.09,
     weight: (waveNumber) => 1.1 + (waveNumber - 12) * 0.07,
-    generate(waveNumber, lanes) {
+    generate(waveNumber, lanes, rng) {
       const hp = 7 + Math.floor((waveNumber - 12) / 3);
       const count = 2 + Math.floor((waveNumber - 12) / 4);
       const cadenceBase = 3.2 - (waveNumber - 12) * 0.06;
-      const cadence = clamp(cadenceBase + randomRange(-0.1, 0.1), 1.3, 3.4);
+      const cadence = clamp(cadenceBase + randomRange(-0.1, 0.1, rng), 1.3, 3.4);
       return lanes.map((lane) => ({ type: 'WarpStalker', lane, hp, count, cadence }));
     },
   },
@@ -282,14 +403,15 @@ const groupTemplates: GroupTemplate[] = [
     minWave: 16,
     laneCount: 3,
     laneStrategy: 'center',
+    powerupDropChance: 0.1,
     weight: (waveNumber) => 1 + (waveNumber - 15) * 0.06,
-    generate(waveNumber, lanes) {
+    generate(waveNumber, lanes, rng) {
       const ordered = lanes.length === 3 ? lanes : [2, 3, 4];
       const [left, mid, right] = ordered;
       const configs: WaveEnemyConfig[] = [];
       const sporeHp = 6 + Math.floor((waveNumber - 16) / 3);
       const sporeCount = 2 + Math.floor((waveNumber - 16) / 5);
-      const sporeCadence = clamp(5.2 - (waveNumber - 16) * 0.06 + randomRange(-0.2, 0.2), 2.6, 5.6);
+      const sporeCadence = clamp(5.2 - (waveNumber - 16) * 0.06 + randomRange(-0.2, 0.2, rng), 2.6, 5.6);
       configs.push({
         type: 'SporePuff',
         lane: left ?? 2,
@@ -299,7 +421,7 @@ const groupTemplates: GroupTemplate[] = [
       });
       const magnetHp = 7 + Math.floor((waveNumber - 16) / 2);
       const magnetCount = 1 + Math.floor((waveNumber - 16) / 6);
-      const magnetCadence = clamp(5.6 - (waveNumber - 16) * 0.08 + randomRange(-0.2, 0.2), 3.2, 6.2);
+      const magnetCadence = clamp(5.6 - (waveNumber - 16) * 0.08 + randomRange(-0.2, 0.2, rng), 3.2, 6.2);
       configs.push({
         type: 'Magnetron',
         lane: mid ?? 3,
@@ -309,7 +431,7 @@ const groupTemplates: GroupTemplate[] = [
       });
       const stalkerHp = 7 + Math.floor((waveNumber - 16) / 3);
       const stalkerCount = 2 + Math.floor((waveNumber - 16) / 4);
-      const stalkerCadence = clamp(3.1 - (waveNumber - 16) * 0.05 + randomRange(-0.15, 0.15), 1.4, 3.2);
+      const stalkerCadence = clamp(3.1 - (waveNumber - 16) * 0.05 + randomRange(-0.15, 0.15, rng), 1.4, 3.2);
       configs.push({
         type: 'WarpStalker',
         lane: right ?? 4,
@@ -325,13 +447,14 @@ const groupTemplates: GroupTemplate[] = [
     minWave: 20,
     laneCount: 1,
     laneStrategy: 'center',
+    powerupDropChance: 0.12,
     weight: (waveNumber) => 1 + (waveNumber - 19) * 0.12,
-    generate(waveNumber, lanes) {
+    generate(waveNumber, lanes, rng) {
       const lane = lanes[0] ?? 3;
       const configs: WaveEnemyConfig[] = [];
       const aegisHp = 18 + Math.floor((waveNumber - 20) / 2);
       const aegisCount = Math.max(1, 1 + Math.floor((waveNumber - 20) / 12));
-      const aegisCadence = clamp(7.8 - (waveNumber - 20) * 0.12 + randomRange(-0.25, 0.25), 4.6, 8.4);
+      const aegisCadence = clamp(7.8 - (waveNumber - 20) * 0.12 + randomRange(-0.25, 0.25, rng), 4.6, 8.4);
       configs.push({
         type: 'AegisSentinel',
         lane,
@@ -342,7 +465,7 @@ const groupTemplates: GroupTemplate[] = [
       const neighbors = [lane - 1, lane + 1].filter((value) => value >= 1 && value <= 6);
       const bulwarkHp = 11 + Math.floor((waveNumber - 20) / 2);
       const bulwarkCount = Math.max(1, 1 + Math.floor((waveNumber - 20) / 8));
-      const bulwarkCadence = clamp(6.4 - (waveNumber - 20) * 0.1 + randomRange(-0.2, 0.2), 3.4, 6.8);
+      const bulwarkCadence = clamp(6.4 - (waveNumber - 20) * 0.1 + randomRange(-0.2, 0.2, rng), 3.4, 6.8);
       for (const neighbor of neighbors) {
         configs.push({
           type: 'BulwarkGloob',
@@ -357,22 +480,125 @@ const groupTemplates: GroupTemplate[] = [
   },
 ];
 
-function shuffle<T>(values: T[]): T[] {
+function shuffle<T>(values: T[], rng: RandomSource): T[] {
   const array = [...values];
   for (let i = array.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
+    const j = Math.floor(rng.random() * (i + 1));
     [array[i], array[j]] = [array[j], array[i]];
   }
   return array;
 }
 
-function pickLaneSet(count: number, strategy: LaneStrategy = 'random'): number[] {
+interface ArenaLayout {
+  id: string;
+  minStage: number;
+  bumpers: BumperConfig[];
+  fields?: ArenaFieldConfig[];
+}
+
+// Arena furniture for later stages. Layouts stay in the middle band so the
+// launcher and the enemy spawn row are never blocked.
+const arenaLayouts: ArenaLayout[] = [
+  {
+    id: 'twin-posts',
+    minStage: 2,
+    bumpers: [
+      { shape: 'circle', x: 0.28, y: 0.48, radius: 26 },
+      { shape: 'circle', x: 0.72, y: 0.48, radius: 26 },
+    ],
+  },
+  {
+    id: 'splitter',
+    minStage: 2,
+    bumpers: [{ shape: 'triangle', x: 0.5, y: 0.46, size: 40, rotation: Math.PI }],
+  },
+  {
+    id: 'deflectors',
+    minStage: 3,
+    bumpers: [
+      { shape: 'bar', x: 0.24, y: 0.42, length: 110, angle: 0.5 },
+      { shape: 'bar', x: 0.76, y: 0.42, length: 110, angle: -0.5 },
+    ],
+  },
+  {
+    id: 'prism-row',
+    minStage: 3,
+    bumpers: [
+      { shape: 'triangle', x: 0.2, y: 0.5, size: 30 },
+      { shape: 'triangle', x: 0.5, y: 0.4, size: 30, rotation: Math.PI },
+      { shape: 'triangle', x: 0.8, y: 0.5, size: 30 },
+    ],
+  },
+  {
+    id: 'gatehouse',
+    minStage: 4,
+    bumpers: [
+      { shape: 'bar', x: 0.22, y: 0.36, length: 130 },
+      { shape: 'bar', x: 0.78, y: 0.36, length: 130 },
+      { shape: 'circle', x: 0.5, y: 0.52, radius: 22 },
+    ],
+  },
+  {
+    id: 'amp-alley',
+    minStage: 2,
+    bumpers: [
+      { shape: 'bar', x: 0.22, y: 0.46, length: 90, angle: Math.PI / 2 },
+      { shape: 'bar', x: 0.78, y: 0.46, length: 90, angle: Math.PI / 2 },
+    ],
+    fields: [{ kind: 'amplifier', x: 0.5, y: 0.5, boost: 'damage' }],
+  },
+  {
+    id: 'sinkhole',
+    minStage: 3,
+    bumpers: [],
+    fields: [
+      { kind: 'gravityWell', x: 0.5, y: 0.42, radius: 140 },
+      { kind: 'amplifier', x: 0.2, y: 0.58, boost: 'speed' },
+      { kind: 'amplifier', x: 0.8, y: 0.58, boost: 'speed' },
+    ],
+  },
+  {
+    id: 'crosswind',
+    minStage: 3,
+    bumpers: [{ shape: 'triangle', x: 0.5, y: 0.4, size: 32, rotation: Math.PI }],
+    fields: [
+      { kind: 'fan', x: 0.2, y: 0.55, width: 130, height: 160, angle: 0 },
+      { kind: 'fan', x: 0.8, y: 0.55, width: 130, height: 160, angle: Math.PI },
+    ],
+  },
+  {
+    id: 'updraft',
+    minStage: 4,
+    bumpers: [
+      { shape: 'circle', x: 0.3, y: 0.36, radius: 24 },
+      { shape: 'circle', x: 0.7, y: 0.36, radius: 24 },
+    ],
+    fields: [
+      { kind: 'fan', x: 0.5, y: 0.6, width: 160, height: 200 },
+      { kind: 'gravityWell', x: 0.5, y: 0.3, radius: 120, strength: -2000 },
+    ],
+  },
+];
+
+function pickArenaLayout(stage: number, rng: RandomSource) {
+  if (stage < 2 || rng.random() > Math.min(0.85, 0.35 + stage * 0.1)) {
+    return undefined;
+  }
+  const eligible = arenaLayouts.filter((layout) => layout.minStage <= stage);
+  return eligible[Math.floor(rng.random() * eligible.length)];
+}
+
+function pickLaneSet(
+  count: number,
+  rng: RandomSource,
+  strategy: LaneStrategy = 'random',
+): number[] {
   switch (strategy) {
     case 'contiguous': {
       const maxStart = Math.max(1, 7 - count);
-      const start = Math.floor(Math.random() * maxStart) + 1;
+      const start = Math.floor(rng.random() * maxStart) + 1;
       const lanes = Array.from({ length: count }, (_, index) => start + index);
-      return shuffle(lanes);
+      return shuffle(lanes, rng);
     }
     case 'mirrored': {
       if (count === 2) {
@@ -381,32 +607,32 @@ function pickLaneSet(count: number, strategy: LaneStrategy = 'random'): number[]
           [2, 5],
           [3, 4],
         ];
-        return shuffle(pairs[Math.floor(Math.random() * pairs.length)]);
+        return shuffle(pairs[Math.floor(rng.random() * pairs.length)], rng);
       }
-      return pickLaneSet(count, 'random');
+      return pickLaneSet(count, rng, 'random');
     }
     case 'center': {
       if (count === 1) {
-        return [Math.random() < 0.5 ? 3 : 4];
+        return [rng.random() < 0.5 ? 3 : 4];
       }
       if (count === 3) {
-        const center = Math.random() < 0.5 ? 3 : 4;
+        const center = rng.random() < 0.5 ? 3 : 4;
         const lanes = [center - 1, center, center + 1].filter((lane) => lane >= 1 && lane <= 6);
         if (lanes.length === 3) {
-          return shuffle(lanes);
+          return shuffle(lanes, rng);
         }
       }
-      return pickLaneSet(count, 'contiguous');
+      return pickLaneSet(count, rng, 'contiguous');
     }
     default: {
       const lanes: number[] = [];
       while (lanes.length < count) {
-        const lane = Math.floor(Math.random() * 6) + 1;
+        const lane = Math.floor(rng.random() * 6) + 1;
         if (!lanes.includes(lane)) {
           lanes.push(lane);
         }
       }
-      return shuffle(lanes);
+      return shuffle(lanes, rng);
     }
   }
 }
@@ -414,6 +640,7 @@ function pickLaneSet(count: number, strategy: LaneStrategy = 'random'): number[]
 function selectTemplate(
   waveNumber: number,
   usedCounts: Map<string, number>,
+  rng: RandomSource,
 ): GroupTemplate | undefined {
   let weighted: Array<{ template: GroupTemplate; weight: number }> = [];
 
@@ -453,7 +680,7 @@ function selectTemplate(
   }
 
   const totalWeight = weighted.reduce((sum, entry) => sum + entry.weight, 0);
-  let roll = Math.random() * totalWeight;
+  let roll = rng.random() * totalWeight;
   for (const entry of weighted) {
     roll -= entry.weight;
     if (roll <= 0) {
@@ -470,25 +697,27 @@ function shortId(id: string) {
     .join('');
 }
 
-export function pickWave(index: number): WaveBlueprint {
+export function pickWave(index: number, rng: RandomSource): WaveBlueprint {
   const waveNumber = index + 1;
   const stage = Math.floor((waveNumber - 1) / 5) + 1;
   const baseGroupTarget = 2 + Math.floor(waveNumber / 3);
-  const bonusGroup = Math.random() < 0.35 ? 1 : 0;
+  const bonusGroup = rng.random() < 0.35 ? 1 : 0;
   const targetGroups = clamp(baseGroupTarget + bonusGroup, 2, 6);
 
   const usedCounts = new Map<string, number>();
   const chosenIds: string[] = [];
   const enemies: WaveEnemyConfig[] = [];
+  let powerupDropChance = 0;
 
   for (let i = 0; i < targetGroups; i++) {
-    const template = selectTemplate(waveNumber, usedCounts);
+    const template = selectTemplate(waveNumber, usedCounts, rng);
     if (!template) break;
-    const lanes = pickLaneSet(template.laneCount, template.laneStrategy);
-    const configs = template.generate(waveNumber, lanes);
+    const lanes = pickLaneSet(template.laneCount, rng, template.laneStrategy);
+    const configs = template.generate(waveNumber, lanes, rng);
     if (!configs.length) continue;
     enemies.push(...configs);
     chosenIds.push(template.id);
+    powerupDropChance = Math.max(powerupDropChance, template.powerupDropChance);
     const currentCount = usedCounts.get(template.id) ?? 0;
     usedCounts.set(template.id, currentCount + 1);
   }
@@ -499,15 +728,22 @@ export function pickWave(index: number): WaveBlueprint {
 
   const signature = chosenIds.map(shortId).filter(Boolean).join('') || 'BASE';
   const spawnSeconds = clamp(
-    18 + targetGroups * 2.4 + stage * 1.4 + randomRange(-1, 1),
+    18 + targetGroups * 2.4 + stage * 1.4 + randomRange(-1, 1, rng),
     18,
     42,
   );
+  const layout = pickArenaLayout(stage, rng);
+  // From stage 2 an occasional champion wave brings far more elites than usual.
+  const champion = stage >= 2 && rng.random() < CHAMPION_WAVE_CHANCE;
 
   return {
-    waveId: `ALG-S${stage}-W${waveNumber}-${signature}`,
+    waveId: `ALG-S${stage}-W${waveNumber}-${signature}${champion ? '-CH' : ''}`,
     spawnSeconds,
     enemies,
+    bumpers: layout?.bumpers.map((bumper) => ({ ...bumper })),
+    fields: layout?.fields?.map((field) => ({ ...field })),
+    eliteChance: champion ? CHAMPION_ELITE_CHANCE : undefined,
+    powerupDropChance,
   };
 }
 
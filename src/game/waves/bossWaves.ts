@@ -0,0 +1,92 @@
+import type {
+  ArenaFieldConfig,
+  BumperConfig,
+  EnemyKind,
+  WaveBlueprint,
+  WaveEnemyConfig,
+} from '../types';
+
+export const BOSS_WAVE_INTERVAL = 5;
+
+interface BossEncounter {
+  kind: EnemyKind;
+  code: string;
+  hp: number;
+  escorts: WaveEnemyConfig[];
+  bumpers: BumperConfig[];
+  fields: ArenaFieldConfig[];
+}
+
+const BOSS_ENCOUNTERS: BossEncounter[] = [
+  {
+    kind: 'DiskJockey',
+    code: 'DJ',
+    hp: 40,
+    escorts: [
+      { type: 'GloobZigzag', hp: 2, lane: 1, count: 2, cadence: 6 },
+      { type: 'GloobZigzag', hp: 2, lane: 6, count: 2, cadence: 6 },
+    ],
+    bumpers: [
+      { shape: 'circle', x: 0.22, y: 0.52, radius: 30 },
+      { shape: 'circle', x: 0.78, y: 0.52, radius: 30 },
+    ],
+    fields: [],
+  },
+  {
+    kind: 'MotherGloob',
+    code: 'MG',
+    hp: 48,
+    escorts: [
+      { type: 'GloobZigzag', hp: 2, lane: 2, count: 2, cadence: 7 },
+      { type: 'GloobZigzag', hp: 2, lane: 5, count: 2, cadence: 7 },
+    ],
+    bumpers: [],
+    fields: [{ kind: 'amplifier', x: 0.5, y: 0.56, boost: 'speed' }],
+  },
+  {
+    kind: 'Archivist9000',
+    code: 'A9',
+    hp: 36,
+    escorts: [
+      { type: 'GloobZigzag', hp: 2, lane: 1, count: 3, cadence: 8 },
+      { type: 'GloobZigzag', hp: 2, lane: 6, count: 3, cadence: 8 },
+    ],
+    bumpers: [],
+    // One-shot damage rings help crack the joints before the first sweep.
+    fields: [
+      { kind: 'amplifier', x: 0.3, y: 0.56, boost: 'damage' },
+      { kind: 'amplifier', x: 0.7, y: 0.56, boost: 'damage' },
+    ],
+  },
+];
+
+const BOSS_KINDS = new Set<EnemyKind>(BOSS_ENCOUNTERS.map((encounter) => encounter.kind));
+
+export function isBossKind(type: EnemyKind) {
+  return BOSS_KINDS.has(type);
+}
+
+export function isBossWaveNumber(waveNumber: number) {
+  return waveNumber > 0 && waveNumber % BOSS_WAVE_INTERVAL === 0;
+}
+
+// Encounters rotate by stage unless a specific boss is requested (campaign arenas).
+export function pickBossWave(waveNumber: number, kind?: EnemyKind): WaveBlueprint {
+  const stage = Math.floor((waveNumber - 1) / BOSS_WAVE_INTERVAL) + 1;
+  const encounter =
+    BOSS_ENCOUNTERS.find((entry) => entry.kind === kind) ??
+    BOSS_ENCOUNTERS[(stage - 1) % BOSS_ENCOUNTERS.length];
+  return {
+    waveId: `BOSS-S${stage}-W${waveNumber}-${encounter.code}`,
+    spawnSeconds: 0,
+    enemies: [
+      { type: encounter.kind, hp: encounter.hp, lane: 3.5, count: 1, cadence: 1 },
+      ...encounter.escorts.map((escort) => ({ ...escort })),
+    ],
+    bumpers: encounter.bumpers.map((bumper) => ({ ...bumper })),
+    fields: encounter.fields.map((field) => ({ ...field })),
+    // Escorts stay plain so the boss keeps the spotlight.
+    eliteChance: 0,
+    powerupDropChance: 0.1,
+  };
+}
@@ -1,3 +1,4 @@
+import type { RandomSource } from '../rng';
 import type { EnemyModifierSummary, EnemyWaveScaling } from '../types';
 
 export type EnemyModifierId =
@@ -76,7 +77,34 @@ export interface EnemyTuningResult {
 
 const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
 
-export function buildEnemyTuning(waveNumber: number): EnemyTuningResult {
+export function rollEnemyModifiers(count: number, rng: RandomSource): EnemyModifierId[] {
+  const pool = [...ENEMY_MODIFIERS];
+  const picks: EnemyModifierId[] = [];
+  while (picks.length < count && pool.length > 0) {
+    const [pick] = pool.splice(Math.floor(rng.random() * pool.length), 1);
+    picks.push(pick.id);
+  }
+  return picks;
+}
+
+export function describeEnemyModifiers(ids: readonly EnemyModifierId[]): EnemyModifierSummary[] {
+  return ids
+    .map((id) => ENEMY_MODIFIERS.find((modifier) => modifier.id === id))
+    .filter((modifier): modifier is EnemyModifierDefinition => modifier !== undefined)
+    .map(({ id, name, description }) => ({ id, name, description }));
+}
+
+export function isEnemyModifierId(id: unknown): id is EnemyModifierId {
+  return ENEMY_MODIFIERS.some((modifier) => modifier.id === id);
+}
+
+// Fixed modifiers (Daily Run mutations) apply from wave 1 on top of the
+// random slots, which are then drawn from the remaining pool.
+export function buildEnemyTuning(
+  waveNumber: number,
+  rng: RandomSource,
+  fixedModifiers: readonly EnemyModifierId[] = [],
+): EnemyTuningResult {
   const level = Math.max(0, waveNumber - 1);
   const scaling: EnemyWaveScaling = {
     level,
@@ -85,16 +113,19 @@ export function buildEnemyTuning(waveNumber: number): EnemyTuningResult {
     speedMultiplier: 1 + level * 0.006,
     countMultiplier: 1 + level * 0.05,
     cadenceMultiplier: 1 / (1 + level * 0.025),
+    // Elites start turning up from wave 5 and pick up a second affix at wave 13.
+    eliteChance: level < 4 ? 0 : (level - 3) * 0.02,
+    eliteAffixes: 1 + Math.floor(level / 12),
   };
 
   const modifierSlots = Math.floor(level / 5);
-  const picks: EnemyModifierDefinition[] = [];
-  let pool = [...ENEMY_MODIFIERS];
+  const picks = ENEMY_MODIFIERS.filter((modifier) => fixedModifiers.includes(modifier.id));
+  let pool = ENEMY_MODIFIERS.filter((modifier) => !picks.includes(modifier));
   for (let i = 0; i < modifierSlots; i++) {
     if (pool.length === 0) {
       pool = [...ENEMY_MODIFIERS];
     }
-    const pickIndex = Math.floor(Math.random() * pool.length);
+    const pickIndex = Math.floor(rng.random() * pool.length);
     const [pick] = pool.splice(pickIndex, 1);
     picks.push(pick);
   }
@@ -108,6 +139,8 @@ export function buildEnemyTuning(waveNumber: number): EnemyTuningResult {
   scaling.countMultiplier = clamp(scaling.countMultiplier, 1, 3.5);
   scaling.cadenceMultiplier = clamp(scaling.cadenceMultiplier, 0.35, 1);
   scaling.hpBonus = Math.max(0, scaling.hpBonus);
+  scaling.eliteChance = clamp(scaling.eliteChance, 0, 0.3);
+  scaling.eliteAffixes = clamp(scaling.eliteAffixes, 1, 3);
 
   const modifiers = picks.map(({ id, name, description }) => ({ id, name, description }));
 
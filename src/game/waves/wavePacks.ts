@@ -0,0 +1,324 @@
+import type {
+  ArenaFieldConfig,
+  BumperConfig,
+  EnemyKind,
+  RunModeConfig,
+  WaveBlueprint,
+  WaveEnemyConfig,
+  WavePack,
+} from '../types';
+import { isEnemyKind } from '../entities/enemies';
+
+// Lanes map onto the six spawn columns; fractional lanes sit between them.
+const MIN_LANE = 1;
+const MAX_LANE = 6;
+
+export interface WavePackValidation {
+  pack: WavePack | null;
+  issues: WavePackIssue[];
+}
+
+export interface WaveBlueprintValidation {
+  wave: WaveBlueprint | null;
+  issues: WavePackIssue[];
+}
+
+export interface WavePackIssue {
+  // Dotted path into the pack, e.g. `waves[2].enemies[0].lane`.
+  path: string;
+  message: string;
+}
+
+export class InvalidWavePackError extends Error {
+  public readonly issues: WavePackIssue[];
+
+  constructor(issues: WavePackIssue[]) {
+    const lines = issues.map((issue) => `${issue.path || '(root)'}: ${issue.message}`);
+    super(`Invalid wave pack:\n${lines.join('\n')}`);
+    this.name = 'InvalidWavePackError';
+    this.issues = issues;
+  }
+}
+
+interface NumberRule {
+  min?: number;
+  max?: number;
+  integer?: boolean;
+  // Strict lower bound, for values that must stay positive.
+  above?: number;
+}
+
+type RawObject = Record<string, unknown>;
+
+class PackReader {
+  readonly issues: WavePackIssue[] = [];
+
+  fail(path: string, message: string) {
+    this.issues.push({ path, message });
+  }
+
+  object(value: unknown, path: string, known: readonly string[]): RawObject | null {
+    if (!isRawObject(value)) {
+      this.fail(path, 'expected an object');
+      return null;
+    }
+    for (const key of Object.keys(value)) {
+      if (!known.includes(key)) {
+        this.fail(join(path, key), 'unknown field');
+      }
+    }
+    return value as RawObject;
+  }
+
+  array(value: unknown, path: string, { optional = false, nonEmpty = false } = {}) {
+    if (value === undefined && optional) return [];
+    if (!Array.isArray(value)) {
+      this.fail(path, 'expected an array');
+      return null;
+    }
+    if (nonEmpty && value.length === 0) {
+      this.fail(path, 'must not be empty');
+    }
+    return value as unknown[];
+  }
+
+  string(value: unknown, path: string): string | null {
+    if (typeof value !== 'string' || value.trim() === '') {
+      this.fail(path, 'expected a non-empty string');
+      return null;
+    }
+    return value;
+  }
+
+  number(value: unknown, path: string, rule: NumberRule = {}): number | null {
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      this.fail(path, 'expected a number');
+      return null;
+    }
+    if (rule.integer && !Number.isInteger(value)) {
+      this.fail(path, `expected a whole number, got ${value}`);
+      return null;
+    }
+    if (rule.above !== undefined && value <= rule.above) {
+      this.fail(path, `must be greater than ${rule.above}, got ${value}`);
+      return null;
+    }
+    const { min, max } = rule;
+    if ((min !== undefined && value < min) || (max !== undefined && value > max)) {
+      const range =
+        min !== undefined && max !== undefined
+          ? `between ${min} and ${max}`
+          : min !== undefined
+            ? `at least ${min}`
+            : `at most ${max}`;
+      this.fail(path, `must be ${range}, got ${value}`);
+      return null;
+    }
+    return value;
+  }
+
+  optionalNumber(value: unknown, path: string, rule: NumberRule = {}) {
+    return value === undefined ? undefined : this.number(value, path, rule) ?? undefined;
+  }
+
+  oneOf<T extends string>(value: unknown, path: string, options: readonly T[]): T | null {
+    if (typeof value !== 'string' || !options.includes(value as T)) {
+      this.fail(path, `expected one of ${options.join(', ')}, got ${JSON.stringify(value)}`);
+      return null;
+    }
+    return value as T;
+  }
+}
+
+function isRawObject(value: unknown): value is RawObject {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function join(path: string, key: string | number) {
+  if (typeof key === 'number') return `${path}[${key}]`;
+  return path ? `${path}.${key}` : key;
+}
+
+function readEnemy(reader: PackReader, raw: unknown, path: string): WaveEnemyConfig | null {
+  const data = reader.object(raw, path, ['type', 'hp', 'lane', 'count', 'cadence']);
+  if (!data) return null;
+  let type: EnemyKind | null = null;
+  if (isEnemyKind(data.type)) {
+    type = data.type;
+  } else {
+    reader.fail(join(path, 'type'), `unknown enemy type ${JSON.stringify(data.type)}`);
+  }
+  const hp = reader.number(data.hp, join(path, 'hp'), { above: 0 });
+  const lane = reader.number(data.lane, join(path, 'lane'), { min: MIN_LANE, max: MAX_LANE });
+  const count = reader.number(data.count, join(path, 'count'), { integer: true, min: 1 });
+  const cadence = reader.number(data.cadence, join(path, 'cadence'), { above: 0 });
+  if (type === null || hp === null || lane === null || count === null || cadence === null) {
+    return null;
+  }
+  return { type, hp, lane, count, cadence };
+}
+
+function readBumper(reader: PackReader, raw: unknown, path: string): BumperConfig | null {
+  if (!isRawObject(raw)) {
+    reader.fail(path, 'expected an object');
+    return null;
+  }
+  const shape = reader.oneOf(raw.shape, join(path, 'shape'), ['circle', 'triangle', 'bar']);
+  if (!shape) return null;
+  const extra = {
+    circle: ['radius'],
+    triangle: ['size', 'rotation'],
+    bar: ['length', 'angle', 'thickness'],
+  }[shape];
+  const data = reader.object(raw, path, ['shape', 'x', 'y', ...extra]);
+  if (!data) return null;
+  const x = reader.number(data.x, join(path, 'x'), { min: 0, max: 1 });
+  const y = reader.number(data.y, join(path, 'y'), { min: 0, max: 1 });
+  if (x === null || y === null) return null;
+  const size = (key: string) => reader.optionalNumber(data[key], join(path, key), { above: 0 });
+  const angle = (key: string) => reader.optionalNumber(data[key], join(path, key));
+  switch (shape) {
+    case 'circle':
+      return { shape, x, y, radius: size('radius') };
+    case 'triangle':
+      return { shape, x, y, size: size('size'), rotation: angle('rotation') };
+    case 'bar':
+      return {
+        shape,
+        x,
+        y,
+        length: size('length'),
+        angle: angle('angle'),
+        thickness: size('thickness'),
+      };
+  }
+}
+
+function readField(reader: PackReader, raw: unknown, path: string): ArenaFieldConfig | null {
+  if (!isRawObject(raw)) {
+    reader.fail(path, 'expected an object');
+    return null;
+  }
+  const kind = reader.oneOf(raw.kind, join(path, 'kind'), ['gravityWell', 'fan', 'amplifier']);
+  if (!kind) return null;
+  const extra = {
+    gravityWell: ['radius', 'strength'],
+    fan: ['width', 'height', 'angle', 'force'],
+    amplifier: ['boost', 'radius', 'amount'],
+  }[kind];
+  const data = reader.object(raw, path, ['kind', 'x', 'y', ...extra]);
+  if (!data) return null;
+  const x = reader.number(data.x, join(path, 'x'), { min: 0, max: 1 });
+  const y = reader.number(data.y, join(path, 'y'), { min: 0, max: 1 });
+  if (x === null || y === null) return null;
+  const size = (key: string) => reader.optionalNumber(data[key], join(path, key), { above: 0 });
+  const signed = (key: string) => reader.optionalNumber(data[key], join(path, key));
+  switch (kind) {
+    case 'gravityWell':
+      return { kind, x, y, radius: size('radius'), strength: signed('strength') };
+    case 'fan':
+      return {
+        kind,
+        x,
+        y,
+        width: size('width'),
+        height: size('height'),
+        angle: signed('angle'),
+        force: signed('force'),
+      };
+    case 'amplifier': {
+      const boost = reader.oneOf(data.boost, join(path, 'boost'), ['damage', 'speed']);
+      if (!boost) return null;
+      return { kind, x, y, boost, radius: size('radius'), amount: size('amount') };
+    }
+  }
+}
+
+function readWave(reader: PackReader, raw: unknown, path: string): WaveBlueprint | null {
+  const data = reader.object(raw, path, [
+    'waveId',
+    'spawnSeconds',
+    'enemies',
+    'bumpers',
+    'fields',
+    'eliteChance',
+    'powerupDropChance',
+  ]);
+  if (!data) return null;
+  const waveId = reader.string(data.waveId, join(path, 'waveId'));
+  const spawnSeconds = reader.number(data.spawnSeconds, join(path, 'spawnSeconds'), { min: 0 });
+  const chance = (key: string) =>
+    reader.optionalNumber(data[key], join(path, key), { min: 0, max: 1 });
+  const eliteChance = chance('eliteChance');
+  const powerupDropChance = chance('powerupDropChance');
+
+  const enemiesPath = join(path, 'enemies');
+  const enemies = (reader.array(data.enemies, enemiesPath, { nonEmpty: true }) ?? []).map(
+    (entry, index) => readEnemy(reader, entry, join(enemiesPath, index)),
+  );
+  const bumpersPath = join(path, 'bumpers');
+  const bumpers = (reader.array(data.bumpers, bumpersPath, { optional: true }) ?? []).map(
+    (entry, index) => readBumper(reader, entry, join(bumpersPath, index)),
+  );
+  const fieldsPath = join(path, 'fields');
+  const fields = (reader.array(data.fields, fieldsPath, { optional: true }) ?? []).map(
+    (entry, index) => readField(reader, entry, join(fieldsPath, index)),
+  );
+
+  if (waveId === null || spawnSeconds === null) return null;
+  return {
+    waveId,
+    spawnSeconds,
+    enemies: enemies.filter((enemy): enemy is WaveEnemyConfig => enemy !== null),
+    bumpers: bumpers.filter((bumper): bumper is BumperConfig => bumper !== null),
+    fields: fields.filter((field): field is ArenaFieldConfig => field !== null),
+    eliteChance,
+    powerupDropChance,
+  };
+}
+
+// Collects every problem in one pass so designers can fix a pack in one go.
+export function validateWavePack(raw: unknown): WavePackValidation {
+  const reader = new PackReader();
+  const data = reader.object(raw, '', ['id', 'name', 'waves']);
+  if (!data) {
+    return { pack: null, issues: reader.issues };
+  }
+  const id = reader.string(data.id, 'id');
+  const name = data.name === undefined ? id : reader.string(data.name, 'name');
+  const waves = (reader.array(data.waves, 'waves', { nonEmpty: true }) ?? []).map(
+    (entry, index) => readWave(reader, entry, join('waves', index)),
+  );
+  if (reader.issues.length || id === null || name === null) {
+    return { pack: null, issues: reader.issues };
+  }
+  return {
+    pack: { id, name, waves: waves.filter((wave): wave is WaveBlueprint => wave !== null) },
+    issues: [],
+  };
+}
+
+// Single waves use the same rules, so the README's wave JSON round-trips.
+export function validateWaveBlueprint(raw: unknown): WaveBlueprintValidation {
+  const reader = new PackReader();
+  const wave = readWave(reader, raw, '');
+  return { wave: reader.issues.length ? null : wave, issues: reader.issues };
+}
+
+export function parseWavePack(json: string): WavePack {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    throw new InvalidWavePackError([{ path: '', message: 'not valid JSON' }]);
+  }
+  const { pack, issues } = validateWavePack(raw);
+  if (!pack) {
+    throw new InvalidWavePackError(issues);
+  }
+  return pack;
+}
+
+export function createWavePackMode(pack: WavePack, playtest = false): RunModeConfig {
+  return { id: 'standard', enemyModifiers: [], wavePack: pack, playtest };
+}
@@ -1,11 +1,33 @@
 import './style.css';
-import { Game } from './game/Game';
-import { DEFAULT_DIFFICULTY, DIFFICULTIES } from './game/difficulty';
+import { Game, type GameOptions } from './game/Game';
+import {
+  createBossRushMode,
+  formatClearTime,
+  loadBossRushBest,
+  recordBossRushTime,
+} from './game/bossRush';
+import {
+  createCampaignMode,
+  getCampaignArena,
+  loadCampaignProgress,
+  rateArena,
+  recordArenaStars,
+} from './game/campaign';
+import { createDailyRun, loadDailyBest, recordDailyScore } from './game/daily';
+import { DEFAULT_DIFFICULTY, DIFFICULTIES, getDifficultyById } from './game/difficulty';
+import { SIMULATION_STEP } from './game/GameCore';
+import { awardShards, computeShardReward, loadProfile, purchaseUpgrade } from './game/profile';
+import { parseReplay, serializeReplay, type ReplayData } from './game/replay/Replay';
+import { loadRunSave } from './game/runSave';
 import type { DifficultyDefinition } from './game/types';
+import { createWavePackMode, parseWavePack } from './game/waves/wavePacks';
 import { HUD } from './ui/HUD';
 import { IntroMenu } from './ui/IntroMenu';
 import { PauseOverlay } from './ui/PauseOverlay';
 import { PowerDraftOverlay } from './ui/PowerDraftOverlay';
+import { ReplayControls } from './ui/ReplayControls';
+import { StageSelect } from './ui/StageSelect';
+import { UpgradeScreen } from './ui/UpgradeScreen';
 
 declare global {
   interface Window {
@@ -31,6 +53,9 @@ function bootstrap() {
   const draft = new PowerDraftOverlay();
   const pauseOverlay = new PauseOverlay();
   const introMenu = new IntroMenu(DIFFICULTIES);
+  const replayControls = new ReplayControls();
+  const stageSelect = new StageSelect();
+  const upgradeScreen = new UpgradeScreen();
 
   shell.append(
     canvas,
@@ -38,42 +63,302 @@ function bootstrap() {
     hud.toastElement,
     pauseOverlay.element,
     draft.element,
+    replayControls.element,
     introMenu.element,
+    stageSelect.element,
+    upgradeScreen.element,
   );
   app.appendChild(shell);
 
   let currentGame: Game | null = null;
+  let clearedExitTimeout = 0;
+  let campaignDifficulty = DEFAULT_DIFFICULTY;
   window.slingpunkGame = undefined;
 
-  const beginRun = (difficulty: DifficultyDefinition) => {
+  const refreshDailyCard = () => {
+    const daily = createDailyRun();
+    introMenu.setDailyRun({
+      key: daily.key,
+      mutations: daily.mutations,
+      bestScore: loadDailyBest(daily.key),
+    });
+  };
+
+  const refreshBossRushCard = () => {
+    introMenu.setBossRushBests(
+      new Map(DIFFICULTIES.map((difficulty) => [difficulty.id, loadBossRushBest(difficulty.id)])),
+    );
+  };
+
+  const refreshContinueCard = () => {
+    const save = loadRunSave();
+    const difficulty = save ? getDifficultyById(save.difficultyId) : undefined;
+    introMenu.setContinueRun(
+      save && difficulty
+        ? { wave: save.wave, score: save.score, difficultyName: difficulty.name }
+        : null,
+    );
+  };
+
+  const refreshShardBalance = () => {
+    introMenu.setShardBalance(loadProfile().shards);
+  };
+
+  // Only fresh standard runs take the profile's upgrade levels. Daily scores,
+  // Boss Rush times and campaign stars are records, so those modes run stock;
+  // resumed runs keep the levels they were saved with and playtests get none.
+  const withMetaUpgrades = (options: GameOptions): GameOptions => {
+    const mode = options.mode ?? { id: 'standard', enemyModifiers: [] };
+    if (options.resume || mode.id !== 'standard' || mode.playtest) {
+      return options;
+    }
+    return { ...options, mode: { ...mode, metaUpgrades: loadProfile().upgrades } };
+  };
+
+  const beginRun = (difficulty: DifficultyDefinition, options: GameOptions = {}) => {
+    window.clearTimeout(clearedExitTimeout);
     introMenu.hide();
     if (currentGame) {
       currentGame.dispose();
     }
-    currentGame = new Game(canvas, hud, draft, pauseOverlay, difficulty);
+    const runOptions = withMetaUpgrades(options);
+    const earnsShards = !runOptions.mode?.playtest;
+    currentGame = new Game(canvas, hud, draft, pauseOverlay, difficulty, {
+      ...runOptions,
+      onRunEnded: (snapshot) => {
+        const shards = earnsShards
+          ? computeShardReward(snapshot, difficulty, runOptions.mode?.metaUpgrades)
+          : 0;
+        if (shards > 0) {
+          awardShards(shards);
+          hud.showToast(`+${shards} Shards`, 2000);
+        }
+        // Mode handlers run after so their result toasts win.
+        runOptions.onRunEnded?.(snapshot);
+      },
+    });
     window.slingpunkGame = currentGame;
     currentGame.start();
   };
 
-  hud.onPauseRequested(() => {
-    currentGame?.togglePause();
-  });
+  const beginReplay = (replay: ReplayData) => {
+    const difficulty = getDifficultyById(replay.difficultyId);
+    if (!difficulty) return;
+    introMenu.hide();
+    if (currentGame) {
+      currentGame.dispose();
+      currentGame = null;
+    }
+    currentGame = new Game(canvas, hud, draft, pauseOverlay, difficulty, {
+      seed: replay.seed,
+      mode: replay.mode,
+      replay: { data: replay, controls: replayControls },
+    });
+    window.slingpunkGame = currentGame;
+    currentGame.start();
+  };
 
-  pauseOverlay.onQuitRequested(() => {
+  const quitToMenu = () => {
     if (currentGame) {
       currentGame.dispose();
       currentGame = null;
     }
     window.slingpunkGame = undefined;
     hud.setPaused(false);
+    refreshDailyCard();
+    refreshBossRushCard();
+    refreshContinueCard();
+    refreshShardBalance();
+    introMenu.show();
+  };
+
+  // Cleared runs freeze on their final frame; give the result toast a moment
+  // before leaving the arena.
+  const leaveClearedRun = (next?: () => void) => {
+    window.clearTimeout(clearedExitTimeout);
+    clearedExitTimeout = window.setTimeout(() => {
+      quitToMenu();
+      next?.();
+    }, 2800);
+  };
+
+  const openStageSelect = (difficulty: DifficultyDefinition) => {
+    campaignDifficulty = difficulty;
+    introMenu.hide();
+    stageSelect.setProgress(loadCampaignProgress(), difficulty.name);
+    stageSelect.show();
+  };
+
+  const downloadReplay = (replay: ReplayData) => {
+    const blob = new Blob([serializeReplay(replay)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `slingpunk-${replay.difficultyId}-${replay.seed}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  hud.onPauseRequested(() => {
+    currentGame?.togglePause();
+  });
+
+  pauseOverlay.onQuitRequested(quitToMenu);
+  replayControls.onExit(quitToMenu);
+
+  pauseOverlay.onExportRequested(() => {
+    if (currentGame) {
+      downloadReplay(currentGame.exportReplay());
+    }
+  });
+
+  introMenu.onDailyStart(() => {
+    const daily = createDailyRun();
+    beginRun(daily.difficulty, {
+      seed: daily.seed,
+      mode: daily.mode,
+      onRunEnded: (snapshot) => {
+        if (recordDailyScore(daily.key, snapshot.score)) {
+          hud.showToast(`New daily best: ${snapshot.score.toLocaleString()}`, 2400);
+        }
+      },
+    });
+  });
+
+  introMenu.onBossRushStart((difficulty) => {
+    beginRun(difficulty, {
+      mode: createBossRushMode(),
+      onRunEnded: (snapshot) => {
+        if (!snapshot.cleared) return;
+        // Simulated time only, so draft picks between fights don't count.
+        const seconds = snapshot.tick * SIMULATION_STEP;
+        const best = recordBossRushTime(difficulty.id, seconds);
+        const label = best ? 'New best clear' : 'Boss Rush cleared';
+        hud.showToast(`${label}: ${formatClearTime(seconds)}`, 2600);
+        leaveClearedRun();
+      },
+    });
+  });
+
+  introMenu.onCampaignRequested(openStageSelect);
+
+  introMenu.onUpgradesRequested(() => {
+    introMenu.hide();
+    upgradeScreen.setProfile(loadProfile());
+    upgradeScreen.show();
+  });
+
+  upgradeScreen.onPurchase((id) => {
+    const profile = purchaseUpgrade(id);
+    if (profile) {
+      upgradeScreen.setProfile(profile);
+      refreshShardBalance();
+    }
+  });
+
+  upgradeScreen.onBack(() => {
+    upgradeScreen.hide();
     introMenu.show();
   });
 
+  stageSelect.onBack(() => {
+    stageSelect.hide();
+    introMenu.show();
+  });
+
+  stageSelect.onArenaSelected((arenaId) => {
+    const arena = getCampaignArena(arenaId);
+    if (!arena) return;
+    stageSelect.hide();
+    beginRun(campaignDifficulty, {
+      mode: createCampaignMode(arena),
+      onRunEnded: (snapshot) => {
+        if (!snapshot.cleared) return;
+        const stars = rateArena(arena, snapshot);
+        const improved = recordArenaStars(arena.id, stars);
+        const rating = '★'.repeat(stars) + '☆'.repeat(3 - stars);
+        hud.showToast(`${arena.name} cleared ${rating}${improved ? ' · New record' : ''}`, 2600);
+        leaveClearedRun(() => openStageSelect(campaignDifficulty));
+      },
+    });
+  });
+
+  introMenu.onReplaySelected((file) => {
+    void file.text().then((text) => {
+      try {
+        beginReplay(parseReplay(text));
+      } catch (error) {
+        quitToMenu();
+        window.alert(error instanceof Error ? error.message : 'Replay could not be loaded');
+      }
+    });
+  });
+
+  introMenu.onWavePackSelected((file, difficulty) => {
+    void file.text().then((text) => {
+      try {
+        beginRun(difficulty, { mode: createWavePackMode(parseWavePack(text)) });
+      } catch (error) {
+        window.alert(error instanceof Error ? error.message : 'Wave pack could not be loaded');
+      }
+    });
+  });
+
   introMenu.onStart((difficulty) => {
     beginRun(difficulty);
   });
 
+  introMenu.onContinueRequested(() => {
+    const save = loadRunSave();
+    const difficulty = save ? getDifficultyById(save.difficultyId) : undefined;
+    if (!save || !difficulty) {
+      refreshContinueCard();
+      return;
+    }
+    beginRun(difficulty, { mode: save.mode, resume: save });
+  });
+
+  if (import.meta.env.DEV) {
+    void import('./ui/WaveEditor').then(({ WaveEditor }) => {
+      const editor = new WaveEditor();
+      let editorDifficulty = DEFAULT_DIFFICULTY;
+      shell.appendChild(editor.element);
+
+      const openEditor = () => {
+        introMenu.hide();
+        editor.show();
+      };
+
+      introMenu.onWaveEditorRequested((difficulty) => {
+        editorDifficulty = difficulty;
+        openEditor();
+      });
+
+      editor.onBack(() => {
+        editor.hide();
+        introMenu.show();
+      });
+
+      editor.onTestPlay((wave) => {
+        editor.hide();
+        const pack = { id: 'editor', name: 'Editor Test', waves: [wave] };
+        beginRun(editorDifficulty, {
+          mode: createWavePackMode(pack, true),
+          onRunEnded: (snapshot) => {
+            if (!snapshot.cleared) return;
+            hud.showToast(`${wave.waveId} cleared`, 2400);
+            leaveClearedRun(openEditor);
+          },
+        });
+      });
+    });
+  }
+
   introMenu.selectDifficulty(DEFAULT_DIFFICULTY.id);
+  refreshDailyCard();
+  refreshBossRushCard();
+  refreshContinueCard();
+  refreshShardBalance();
 }
 
 document.addEventListener('DOMContentLoaded', bootstrap);
@@ -20,6 +20,10 @@ export class HUD {
   private readonly specialButton: HTMLButtonElement;
   private readonly specialPercent: HTMLSpanElement;
   private readonly specialName: HTMLSpanElement;
+  private readonly bossBar: HTMLDivElement;
+  private readonly bossName: HTMLSpanElement;
+  private readonly bossPhase: HTMLSpanElement;
+  private readonly bossFill: HTMLDivElement;
   private specialCircle!: SVGCircleElement;
   private specialCircumference = 1;
 
@@ -124,7 +128,29 @@ export class HUD {
     top.append(leftStack, this.pauseButton, rightStack);
     bottom.append(controlHint, focusWrapper);
 
-    this.element.append(top, bottom);
+    this.bossBar = document.createElement('div');
+    this.bossBar.className = 'pill boss-bar';
+    this.bossBar.hidden = true;
+    const bossHeader = document.createElement('div');
+    bossHeader.className = 'boss-bar__header';
+    this.bossName = document.createElement('span');
+    this.bossName.className = 'boss-bar__name';
+    this.bossPhase = document.createElement('span');
+    this.bossPhase.className = 'boss-bar__phase';
+    bossHeader.append(this.bossName, this.bossPhase);
+    const bossTrack = document.createElement('div');
+    bossTrack.className = 'boss-bar__track';
+    this.bossFill = document.createElement('div');
+    this.bossFill.className = 'boss-bar__fill';
+    bossTrack.appendChild(this.bossFill);
+    this.bossBar.append(bossHeader, bossTrack);
+
+    const header = document.createElement('div');
+    header.style.display = 'flex';
+    header.style.flexDirection = 'column';
+    header.append(top, this.bossBar);
+
+    this.element.append(header, bottom);
 
     this.toastElement = document.createElement('div');
     this.toastElement.className = 'toast';
@@ -143,9 +169,11 @@ export class HUD {
     this.scoreValue.innerText = data.score.toLocaleString();
     this.comboValue.innerText = `${data.comboHeat.toFixed(0)} (x${data.comboTier + 1})`;
     this.comboFill.style.width = `${Math.min(1, Math.max(0, data.comboProgress)) * 100}%`;
-    const clampedFocus = Math.min(100, Math.max(0, data.focus));
-    this.focusFill.style.width = `${clampedFocus}%`;
-    this.focusValue.innerText = `${Math.round(clampedFocus)}%`;
+    const clampedFocus = Math.min(data.maxFocus, Math.max(0, data.focus));
+    const focusPercent = (clampedFocus / data.maxFocus) * 100;
+    this.focusFill.style.width = `${focusPercent}%`;
+    this.focusValue.innerText = `${Math.round(focusPercent)}%`;
+    this.specialButton.classList.toggle('is-draining', data.focusDraining);
     this.heartsValue.innerText = '❤️'.repeat(Math.max(0, data.lives)) || '💀';
     this.waveValue.innerText = `S${data.wave}`;
     if (data.lastModifier) {
@@ -164,6 +192,18 @@ export class HUD {
     this.specialPercent.innerText = data.specialReady
       ? 'Ready!'
       : `${Math.round(ratio * 100)}%`;
+
+    const boss = data.boss;
+    this.bossBar.hidden = !boss;
+    if (boss) {
+      this.bossName.innerText = boss.name;
+      this.bossPhase.innerText = boss.enraged
+        ? `${boss.phaseName} · Enraged`
+        : `${boss.phaseName} · ${boss.phase}/${boss.phaseCount} · ${Math.ceil(boss.enrageSeconds)}s`;
+      this.bossFill.style.width = `${Math.min(1, Math.max(0, boss.hp / boss.maxHp)) * 100}%`;
+      this.bossBar.classList.toggle('is-enraged', boss.enraged);
+      this.bossBar.classList.toggle('is-vulnerable', boss.vulnerable);
+    }
   }
 
   setPaused(paused: boolean) {
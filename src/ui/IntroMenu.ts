@@ -1,13 +1,51 @@
-import type { DifficultyDefinition } from '../game/types';
+import { BOSS_RUSH_CORE_MODIFIERS, BOSS_RUSH_FIGHTS, formatClearTime } from '../game/bossRush';
+import type { DifficultyDefinition, EnemyModifierSummary } from '../game/types';
+
+export interface IntroDailyRun {
+  key: string;
+  mutations: EnemyModifierSummary[];
+  bestScore: number | null;
+}
+
+export interface IntroContinueRun {
+  wave: number;
+  score: number;
+  difficultyName: string;
+}
 
 export class IntroMenu {
   public readonly element: HTMLDivElement;
 
   private readonly startButton: HTMLButtonElement;
+  private readonly campaignButton: HTMLButtonElement;
+  private readonly continueButton: HTMLButtonElement;
+  private readonly upgradesButton: HTMLButtonElement;
+  private readonly replayButton: HTMLButtonElement;
+  private readonly replayInput: HTMLInputElement;
+  private readonly packButton: HTMLButtonElement;
+  private readonly packInput: HTMLInputElement;
+  private readonly fileRow: HTMLDivElement;
+  private editorButton?: HTMLButtonElement;
+  private readonly dailyTitle: HTMLHeadingElement;
+  private readonly dailyMutations: HTMLUListElement;
+  private readonly dailyBest: HTMLParagraphElement;
+  private readonly dailyButton: HTMLButtonElement;
+  private readonly rushBest: HTMLParagraphElement;
+  private readonly rushButton: HTMLButtonElement;
+  private readonly rushBests = new Map<string, number | null>();
   private readonly cardLookup = new Map<string, HTMLButtonElement>();
   private readonly difficulties: DifficultyDefinition[];
 
   private startHandler?: (difficulty: DifficultyDefinition) => void;
+  private replayHandler?: (file: File) => void;
+  private packHandler?: (file: File, difficulty: DifficultyDefinition) => void;
+  private dailyHandler?: () => void;
+  private campaignHandler?: (difficulty: DifficultyDefinition) => void;
+  private rushHandler?: (difficulty: DifficultyDefinition) => void;
+  private editorHandler?: (difficulty: DifficultyDefinition) => void;
+  private continueHandler?: () => void;
+  private upgradesHandler?: () => void;
+  private continueRun: IntroContinueRun | null = null;
   private selectedId?: string;
 
   constructor(difficulties: DifficultyDefinition[]) {
@@ -49,7 +87,155 @@ export class IntroMenu {
       this.startHandler?.(difficulty);
     });
 
-    panel.append(heading, grid, this.startButton);
+    this.campaignButton = document.createElement('button');
+    this.campaignButton.type = 'button';
+    this.campaignButton.className = 'intro-menu__start intro-menu__campaign';
+    this.campaignButton.textContent = 'Campaign';
+    this.campaignButton.addEventListener('click', () => {
+      const difficulty = this.difficulties.find((entry) => entry.id === this.selectedId);
+      if (!difficulty) return;
+      this.campaignHandler?.(difficulty);
+    });
+
+    this.continueButton = document.createElement('button');
+    this.continueButton.type = 'button';
+    this.continueButton.className = 'intro-menu__start intro-menu__continue';
+    this.continueButton.hidden = true;
+    this.continueButton.addEventListener('click', () => {
+      this.continueHandler?.();
+    });
+
+    this.upgradesButton = document.createElement('button');
+    this.upgradesButton.type = 'button';
+    this.upgradesButton.className = 'intro-menu__start intro-menu__upgrades';
+    this.upgradesButton.textContent = 'Upgrades';
+    this.upgradesButton.addEventListener('click', () => {
+      this.upgradesHandler?.();
+    });
+
+    const launchRow = document.createElement('div');
+    launchRow.className = 'intro-menu__launch-row';
+    launchRow.append(
+      this.upgradesButton,
+      this.continueButton,
+      this.campaignButton,
+      this.startButton,
+    );
+
+    const daily = document.createElement('section');
+    daily.className = 'intro-menu__daily';
+
+    const dailyHeader = document.createElement('div');
+    dailyHeader.className = 'intro-menu__card-header';
+    this.dailyTitle = document.createElement('h2');
+    this.dailyTitle.textContent = 'Daily Run';
+    const dailyTagline = document.createElement('span');
+    dailyTagline.className = 'intro-menu__tagline';
+    dailyTagline.textContent = 'Same seed for every operative today.';
+    dailyHeader.append(this.dailyTitle, dailyTagline);
+
+    this.dailyMutations = document.createElement('ul');
+    this.dailyMutations.className = 'intro-menu__modifiers';
+
+    this.dailyBest = document.createElement('p');
+    this.dailyBest.className = 'intro-menu__daily-best';
+
+    this.dailyButton = document.createElement('button');
+    this.dailyButton.type = 'button';
+    this.dailyButton.className = 'intro-menu__start intro-menu__daily-start';
+    this.dailyButton.textContent = 'Launch Daily';
+    this.dailyButton.addEventListener('click', () => {
+      this.dailyHandler?.();
+    });
+
+    daily.append(dailyHeader, this.dailyMutations, this.dailyBest, this.dailyButton);
+
+    const rush = document.createElement('section');
+    rush.className = 'intro-menu__rush';
+
+    const rushHeader = document.createElement('div');
+    rushHeader.className = 'intro-menu__card-header';
+    const rushTitle = document.createElement('h2');
+    rushTitle.textContent = 'Boss Rush';
+    const rushTagline = document.createElement('span');
+    rushTagline.className = 'intro-menu__tagline';
+    rushTagline.textContent = 'Skip the grind. Fight the bosses.';
+    rushHeader.append(rushTitle, rushTagline);
+
+    const rushDescription = document.createElement('p');
+    rushDescription.textContent =
+      `${BOSS_RUSH_FIGHTS} bosses back-to-back with drafts between fights. ` +
+      `Starts with ${BOSS_RUSH_CORE_MODIFIERS} random core mods.`;
+
+    this.rushBest = document.createElement('p');
+
+    this.rushButton = document.createElement('button');
+    this.rushButton.type = 'button';
+    this.rushButton.className = 'intro-menu__start intro-menu__rush-start';
+    this.rushButton.textContent = 'Launch Boss Rush';
+    this.rushButton.addEventListener('click', () => {
+      const difficulty = this.difficulties.find((entry) => entry.id === this.selectedId);
+      if (!difficulty) return;
+      this.rushHandler?.(difficulty);
+    });
+
+    rush.append(rushHeader, rushDescription, this.rushBest, this.rushButton);
+
+    this.replayInput = document.createElement('input');
+    this.replayInput.type = 'file';
+    this.replayInput.accept = '.json,application/json';
+    this.replayInput.hidden = true;
+    this.replayInput.addEventListener('change', () => {
+      const file = this.replayInput.files?.[0];
+      this.replayInput.value = '';
+      if (file) {
+        this.replayHandler?.(file);
+      }
+    });
+
+    this.replayButton = document.createElement('button');
+    this.replayButton.type = 'button';
+    this.replayButton.className = 'intro-menu__replay';
+    this.replayButton.textContent = 'Watch Replay';
+    this.replayButton.addEventListener('click', () => {
+      this.replayInput.click();
+    });
+
+    this.packInput = document.createElement('input');
+    this.packInput.type = 'file';
+    this.packInput.accept = '.json,application/json';
+    this.packInput.hidden = true;
+    this.packInput.addEventListener('change', () => {
+      const file = this.packInput.files?.[0];
+      this.packInput.value = '';
+      const difficulty = this.difficulties.find((entry) => entry.id === this.selectedId);
+      if (file && difficulty) {
+        this.packHandler?.(file, difficulty);
+      }
+    });
+
+    this.packButton = document.createElement('button');
+    this.packButton.type = 'button';
+    this.packButton.className = 'intro-menu__replay';
+    this.packButton.textContent = 'Play Wave Pack';
+    this.packButton.addEventListener('click', () => {
+      this.packInput.click();
+    });
+
+    this.fileRow = document.createElement('div');
+    this.fileRow.className = 'intro-menu__files';
+    this.fileRow.append(this.packButton, this.replayButton);
+
+    panel.append(
+      heading,
+      grid,
+      launchRow,
+      daily,
+      rush,
+      this.fileRow,
+      this.replayInput,
+      this.packInput,
+    );
     this.element.append(panel);
 
     const defaultDifficulty =
@@ -63,6 +249,87 @@ export class IntroMenu {
     this.startHandler = handler;
   }
 
+  onContinueRequested(handler: () => void) {
+    this.continueHandler = handler;
+  }
+
+  setContinueRun(run: IntroContinueRun | null) {
+    this.continueRun = run;
+    this.continueButton.hidden = run === null;
+    if (run) {
+      this.continueButton.textContent = `Continue Run · Wave ${run.wave}`;
+      this.continueButton.title = `${run.difficultyName} · ${run.score.toLocaleString()} pts`;
+    }
+  }
+
+  onUpgradesRequested(handler: () => void) {
+    this.upgradesHandler = handler;
+  }
+
+  setShardBalance(shards: number) {
+    this.upgradesButton.textContent = `Upgrades · ${shards.toLocaleString()} Shards`;
+  }
+
+  onCampaignRequested(handler: (difficulty: DifficultyDefinition) => void) {
+    this.campaignHandler = handler;
+  }
+
+  onDailyStart(handler: () => void) {
+    this.dailyHandler = handler;
+  }
+
+  setDailyRun(daily: IntroDailyRun) {
+    this.dailyTitle.textContent = `Daily Run · ${daily.key}`;
+    const fragment = document.createDocumentFragment();
+    for (const mutation of daily.mutations) {
+      const item = document.createElement('li');
+      item.textContent = `${mutation.name}: ${mutation.description}`;
+      fragment.appendChild(item);
+    }
+    this.dailyMutations.replaceChildren(fragment);
+    this.dailyBest.textContent =
+      daily.bestScore === null
+        ? 'No score posted today.'
+        : `Today's best: ${daily.bestScore.toLocaleString()}`;
+  }
+
+  onBossRushStart(handler: (difficulty: DifficultyDefinition) => void) {
+    this.rushHandler = handler;
+  }
+
+  setBossRushBests(bests: Map<string, number | null>) {
+    this.rushBests.clear();
+    for (const [id, seconds] of bests) {
+      this.rushBests.set(id, seconds);
+    }
+    this.refreshBossRush();
+  }
+
+  onReplaySelected(handler: (file: File) => void) {
+    this.replayHandler = handler;
+  }
+
+  onWavePackSelected(handler: (file: File, difficulty: DifficultyDefinition) => void) {
+    this.packHandler = handler;
+  }
+
+  // Only wired up in dev builds, so the button appears once a handler exists.
+  onWaveEditorRequested(handler: (difficulty: DifficultyDefinition) => void) {
+    if (!this.editorButton) {
+      this.editorButton = document.createElement('button');
+      this.editorButton.type = 'button';
+      this.editorButton.className = 'intro-menu__replay';
+      this.editorButton.textContent = 'Wave Editor';
+      this.editorButton.addEventListener('click', () => {
+        const difficulty = this.difficulties.find((entry) => entry.id === this.selectedId);
+        if (!difficulty) return;
+        this.editorHandler?.(difficulty);
+      });
+      this.fileRow.appendChild(this.editorButton);
+    }
+    this.editorHandler = handler;
+  }
+
   show() {
     this.element.classList.add('visible');
     this.element.setAttribute('aria-hidden', 'false');
@@ -105,9 +372,26 @@ export class IntroMenu {
     this.refreshStartButton();
   }
 
+  private refreshBossRush() {
+    const difficulty = this.difficulties.find((entry) => entry.id === this.selectedId);
+    if (!difficulty) {
+      this.rushBest.textContent = 'Select a difficulty to see your best clear.';
+      return;
+    }
+    const best = this.rushBests.get(difficulty.id);
+    this.rushBest.textContent =
+      best === null || best === undefined
+        ? `No ${difficulty.name} clear yet.`
+        : `Best ${difficulty.name} clear: ${formatClearTime(best)}`;
+  }
+
   private refreshStartButton() {
+    this.refreshBossRush();
     if (!this.selectedId) {
       this.startButton.disabled = true;
+      this.campaignButton.disabled = true;
+      this.rushButton.disabled = true;
+      this.packButton.disabled = true;
       this.startButton.textContent = 'Launch Run';
       return;
     }
@@ -116,6 +400,9 @@ export class IntroMenu {
       (entry) => entry.id === this.selectedId,
     );
     this.startButton.disabled = false;
+    this.campaignButton.disabled = false;
+    this.rushButton.disabled = false;
+    this.packButton.disabled = false;
     this.startButton.textContent = `Launch ${difficulty?.name ?? 'Run'}`;
   }
 
@@ -123,6 +410,13 @@ export class IntroMenu {
     for (const card of this.cardLookup.values()) {
       card.disabled = !isEnabled;
     }
+    this.replayButton.disabled = !isEnabled;
+    this.dailyButton.disabled = !isEnabled;
+    this.continueButton.disabled = !isEnabled || this.continueRun === null;
+    this.upgradesButton.disabled = !isEnabled;
+    if (this.editorButton) {
+      this.editorButton.disabled = !isEnabled;
+    }
 
     if (isEnabled) {
       this.refreshStartButton();
@@ -130,6 +424,9 @@ export class IntroMenu {
     }
 
     this.startButton.disabled = true;
+    this.campaignButton.disabled = true;
+    this.rushButton.disabled = true;
+    this.packButton.disabled = true;
   }
 
   private createDifficultyCard(difficulty: DifficultyDefinition) {
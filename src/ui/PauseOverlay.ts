@@ -19,8 +19,10 @@ export class PauseOverlay {
   private readonly enemyEmpty: HTMLParagraphElement;
   private readonly resumeButton: HTMLButtonElement;
   private readonly quitButton: HTMLButtonElement;
+  private readonly exportButton: HTMLButtonElement;
   private resumeHandler?: () => void;
   private quitHandler?: () => void;
+  private exportHandler?: () => void;
 
   constructor() {
     this.element = document.createElement('div');
@@ -84,11 +86,19 @@ export class PauseOverlay {
       this.quitHandler?.();
     });
 
+    this.exportButton = document.createElement('button');
+    this.exportButton.type = 'button';
+    this.exportButton.className = 'pause-overlay__export';
+    this.exportButton.textContent = 'Export Replay';
+    this.exportButton.addEventListener('click', () => {
+      this.exportHandler?.();
+    });
+
     const hint = document.createElement('p');
     hint.className = 'pause-overlay__hint';
     hint.textContent = 'Tap outside or choose an action below.';
 
-    actions.append(this.resumeButton, this.quitButton, hint);
+    actions.append(this.resumeButton, this.exportButton, this.quitButton, hint);
 
     panel.append(heading, content, actions);
     this.element.append(panel);
@@ -108,6 +118,7 @@ export class PauseOverlay {
       }
       this.resumeButton.blur();
       this.quitButton.blur();
+      this.exportButton.blur();
     }
   }
 
@@ -119,6 +130,15 @@ export class PauseOverlay {
     this.quitHandler = handler;
   }
 
+  onExportRequested(handler: () => void) {
+    this.exportHandler = handler;
+  }
+
+  // Resumed runs have no input log from the start, so there is nothing to export.
+  setExportAvailable(available: boolean) {
+    this.exportButton.hidden = !available;
+  }
+
   setPlayerModifiers(modifiers: PauseOverlayPlayerModifier[]) {
     const fragment = document.createDocumentFragment();
 
@@ -0,0 +1,128 @@
+import type { ReplaySpeed } from '../game/replay/ReplayPlayer';
+
+export interface ReplayControlsState {
+  paused: boolean;
+  speed: ReplaySpeed;
+  wave: number;
+  waveCount: number;
+  progress: number;
+  finished: boolean;
+}
+
+const SPEEDS: ReplaySpeed[] = [1, 2, 4];
+
+export class ReplayControls {
+  public readonly element: HTMLDivElement;
+
+  private readonly playButton: HTMLButtonElement;
+  private readonly speedButtons = new Map<ReplaySpeed, HTMLButtonElement>();
+  private readonly waveSelect: HTMLSelectElement;
+  private readonly progressFill: HTMLDivElement;
+  private readonly exitButton: HTMLButtonElement;
+  private togglePlayHandler?: () => void;
+  private speedHandler?: (speed: ReplaySpeed) => void;
+  private seekHandler?: (wave: number) => void;
+  private exitHandler?: () => void;
+  private waveCount = -1;
+
+  constructor() {
+    this.element = document.createElement('div');
+    this.element.className = 'replay-controls';
+    this.element.setAttribute('aria-hidden', 'true');
+
+    const label = document.createElement('span');
+    label.className = 'replay-controls__label';
+    label.textContent = 'Replay';
+
+    this.playButton = document.createElement('button');
+    this.playButton.type = 'button';
+    this.playButton.className = 'replay-controls__button';
+    this.playButton.addEventListener('click', () => {
+      this.togglePlayHandler?.();
+    });
+
+    const speeds = document.createElement('div');
+    speeds.className = 'replay-controls__speeds';
+    for (const speed of SPEEDS) {
+      const button = document.createElement('button');
+      button.type = 'button';
+      button.className = 'replay-controls__button replay-controls__speed';
+      button.textContent = `${speed}x`;
+      button.addEventListener('click', () => {
+        this.speedHandler?.(speed);
+      });
+      this.speedButtons.set(speed, button);
+      speeds.appendChild(button);
+    }
+
+    this.waveSelect = document.createElement('select');
+    this.waveSelect.className = 'replay-controls__waves';
+    this.waveSelect.setAttribute('aria-label', 'Jump to wave');
+    this.waveSelect.addEventListener('change', () => {
+      const wave = Number(this.waveSelect.value);
+      if (wave > 0) {
+        this.seekHandler?.(wave);
+      }
+    });
+
+    this.exitButton = document.createElement('button');
+    this.exitButton.type = 'button';
+    this.exitButton.className = 'replay-controls__button replay-controls__exit';
+    this.exitButton.textContent = 'Exit';
+    this.exitButton.addEventListener('click', () => {
+      this.exitHandler?.();
+    });
+
+    const progress = document.createElement('div');
+    progress.className = 'replay-controls__progress';
+    this.progressFill = document.createElement('div');
+    this.progressFill.className = 'replay-controls__progress-fill';
+    progress.appendChild(this.progressFill);
+
+    this.element.append(label, this.playButton, speeds, this.waveSelect, this.exitButton, progress);
+  }
+
+  setVisible(visible: boolean) {
+    this.element.classList.toggle('visible', visible);
+    this.element.setAttribute('aria-hidden', visible ? 'false' : 'true');
+  }
+
+  onTogglePlay(handler: () => void) {
+    this.togglePlayHandler = handler;
+  }
+
+  onSpeedChange(handler: (speed: ReplaySpeed) => void) {
+    this.speedHandler = handler;
+  }
+
+  onSeek(handler: (wave: number) => void) {
+    this.seekHandler = handler;
+  }
+
+  onExit(handler: () => void) {
+    this.exitHandler = handler;
+  }
+
+  update(state: ReplayControlsState) {
+    this.playButton.textContent = state.finished ? 'Ended' : state.paused ? 'Play' : 'Pause';
+    this.playButton.disabled = state.finished;
+    for (const [speed, button] of this.speedButtons) {
+      button.classList.toggle('active', speed === state.speed);
+    }
+    if (state.waveCount !== this.waveCount) {
+      this.waveCount = state.waveCount;
+      const fragment = document.createDocumentFragment();
+      for (let wave = 1; wave <= state.waveCount; wave++) {
+        const option = document.createElement('option');
+        option.value = String(wave);
+        option.textContent = `Wave ${wave}`;
+        fragment.appendChild(option);
+      }
+      this.waveSelect.replaceChildren(fragment);
+    }
+    if (document.activeElement !== this.waveSelect) {
+      this.waveSelect.value = String(Math.min(state.wave, state.waveCount));
+    }
+    this.progressFill.style.width = `${Math.round(state.progress * 1000) / 10}%`;
+  }
+}
@@ -0,0 +1,131 @@
+import type { CampaignArenaProgress } from '../game/campaign';
+import { describeEnemyModifiers } from '../game/waves/enemyModifiers';
+
+const MAX_STARS = 3;
+
+export class StageSelect {
+  public readonly element: HTMLDivElement;
+
+  private readonly subtitle: HTMLParagraphElement;
+  private readonly grid: HTMLDivElement;
+  private readonly backButton: HTMLButtonElement;
+  private arenaHandler?: (arenaId: string) => void;
+  private backHandler?: () => void;
+
+  constructor() {
+    this.element = document.createElement('div');
+    this.element.className = 'stage-select';
+    this.element.setAttribute('aria-hidden', 'true');
+
+    const panel = document.createElement('div');
+    panel.className = 'stage-select__panel';
+
+    const heading = document.createElement('div');
+    heading.className = 'stage-select__heading';
+    const title = document.createElement('h1');
+    title.textContent = 'Campaign';
+    this.subtitle = document.createElement('p');
+    heading.append(title, this.subtitle);
+
+    this.grid = document.createElement('div');
+    this.grid.className = 'stage-select__grid';
+
+    this.backButton = document.createElement('button');
+    this.backButton.type = 'button';
+    this.backButton.className = 'stage-select__back';
+    this.backButton.textContent = 'Back';
+    this.backButton.disabled = true;
+    this.backButton.addEventListener('click', () => {
+      this.backHandler?.();
+    });
+
+    panel.append(heading, this.grid, this.backButton);
+    this.element.append(panel);
+  }
+
+  onArenaSelected(handler: (arenaId: string) => void) {
+    this.arenaHandler = handler;
+  }
+
+  onBack(handler: () => void) {
+    this.backHandler = handler;
+  }
+
+  setProgress(progress: CampaignArenaProgress[], difficultyName: string) {
+    const earned = progress.reduce((total, entry) => total + entry.stars, 0);
+    this.subtitle.textContent =
+      `${difficultyName} · ${earned}/${progress.length * MAX_STARS} stars. ` +
+      'Clear an arena to unlock the next.';
+    const fragment = document.createDocumentFragment();
+    for (const entry of progress) {
+      fragment.appendChild(this.createArenaCard(entry, progress));
+    }
+    this.grid.replaceChildren(fragment);
+  }
+
+  show() {
+    this.element.classList.add('visible');
+    this.element.setAttribute('aria-hidden', 'false');
+    this.backButton.disabled = false;
+    this.grid.querySelector<HTMLButtonElement>('button:not(:disabled)')?.focus();
+  }
+
+  hide() {
+    this.element.classList.remove('visible');
+    this.element.setAttribute('aria-hidden', 'true');
+    this.backButton.disabled = true;
+  }
+
+  private createArenaCard(entry: CampaignArenaProgress, progress: CampaignArenaProgress[]) {
+    const { arena } = entry;
+    const button = document.createElement('button');
+    button.type = 'button';
+    button.className = 'stage-select__card';
+    button.classList.toggle('is-locked', !entry.unlocked);
+    button.style.setProperty('--arena-accent', arena.accent);
+    button.disabled = !entry.unlocked;
+
+    const header = document.createElement('div');
+    header.className = 'stage-select__card-header';
+    const label = document.createElement('span');
+    label.className = 'stage-select__index';
+    label.textContent = `Arena ${entry.index + 1}`;
+    const stars = document.createElement('span');
+    stars.className = 'stage-select__stars';
+    stars.textContent = '★'.repeat(entry.stars) + '☆'.repeat(MAX_STARS - entry.stars);
+    stars.setAttribute('aria-label', `${entry.stars} of ${MAX_STARS} stars`);
+    header.append(label, stars);
+
+    const name = document.createElement('h2');
+    name.textContent = arena.name;
+
+    const tagline = document.createElement('p');
+    tagline.className = 'stage-select__tagline';
+    tagline.textContent = entry.unlocked
+      ? arena.tagline
+      : `Locked. Clear ${progress[entry.index - 1]?.arena.name ?? 'the previous arena'} first.`;
+
+    const details = document.createElement('ul');
+    details.className = 'stage-select__details';
+    const boss = document.createElement('li');
+    boss.textContent = `Boss: ${arena.bossName}`;
+    details.appendChild(boss);
+    const mutations = describeEnemyModifiers(arena.mutations);
+    const mutationItem = document.createElement('li');
+    mutationItem.textContent = mutations.length
+      ? `Mutations: ${mutations.map((mutation) => mutation.name).join(', ')}`
+      : 'Mutations: none';
+    details.appendChild(mutationItem);
+    const target = document.createElement('li');
+    target.textContent = `Score target: ${arena.scoreTarget.toLocaleString()}`;
+    details.appendChild(target);
+
+    button.append(header, name, tagline, details);
+    button.addEventListener('click', () => {
+      if (entry.unlocked) {
+        this.arenaHandler?.(arena.id);
+      }
+    });
+    return button;
+  }
+}
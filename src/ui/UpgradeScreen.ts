@@ -0,0 +1,119 @@
+import {
+  META_UPGRADES,
+  getMetaUpgradeLevel,
+  getNextUpgradeCost,
+  type MetaUpgradeDefinition,
+  type PlayerProfile,
+} from '../game/profile';
+import type { MetaUpgradeId } from '../game/types';
+
+export class UpgradeScreen {
+  public readonly element: HTMLDivElement;
+
+  private readonly subtitle: HTMLParagraphElement;
+  private readonly grid: HTMLDivElement;
+  private readonly backButton: HTMLButtonElement;
+  private purchaseHandler?: (id: MetaUpgradeId) => void;
+  private backHandler?: () => void;
+
+  constructor() {
+    this.element = document.createElement('div');
+    this.element.className = 'stage-select upgrade-screen';
+    this.element.setAttribute('aria-hidden', 'true');
+
+    const panel = document.createElement('div');
+    panel.className = 'stage-select__panel';
+
+    const heading = document.createElement('div');
+    heading.className = 'stage-select__heading';
+    const title = document.createElement('h1');
+    title.textContent = 'Upgrades';
+    this.subtitle = document.createElement('p');
+    heading.append(title, this.subtitle);
+
+    this.grid = document.createElement('div');
+    this.grid.className = 'stage-select__grid';
+
+    this.backButton = document.createElement('button');
+    this.backButton.type = 'button';
+    this.backButton.className = 'stage-select__back';
+    this.backButton.textContent = 'Back';
+    this.backButton.disabled = true;
+    this.backButton.addEventListener('click', () => {
+      this.backHandler?.();
+    });
+
+    panel.append(heading, this.grid, this.backButton);
+    this.element.append(panel);
+  }
+
+  onPurchase(handler: (id: MetaUpgradeId) => void) {
+    this.purchaseHandler = handler;
+  }
+
+  onBack(handler: () => void) {
+    this.backHandler = handler;
+  }
+
+  setProfile(profile: PlayerProfile) {
+    this.subtitle.textContent =
+      `${profile.shards.toLocaleString()} Shards banked. ` +
+      'Every run pays out Shards; upgrades apply to standard runs.';
+    const fragment = document.createDocumentFragment();
+    for (const upgrade of META_UPGRADES) {
+      fragment.appendChild(this.createUpgradeCard(upgrade, profile));
+    }
+    this.grid.replaceChildren(fragment);
+  }
+
+  show() {
+    this.element.classList.add('visible');
+    this.element.setAttribute('aria-hidden', 'false');
+    this.backButton.disabled = false;
+    this.backButton.focus();
+  }
+
+  hide() {
+    this.element.classList.remove('visible');
+    this.element.setAttribute('aria-hidden', 'true');
+    this.backButton.disabled = true;
+  }
+
+  private createUpgradeCard(upgrade: MetaUpgradeDefinition, profile: PlayerProfile) {
+    const level = getMetaUpgradeLevel(profile.upgrades, upgrade.id);
+    const maxLevel = upgrade.costs.length;
+    const cost = getNextUpgradeCost(profile, upgrade.id);
+
+    const button = document.createElement('button');
+    button.type = 'button';
+    button.className = 'stage-select__card upgrade-screen__card';
+    button.classList.toggle('is-maxed', cost === null);
+    button.disabled = cost === null || profile.shards < cost;
+
+    const header = document.createElement('div');
+    header.className = 'stage-select__card-header';
+    const label = document.createElement('span');
+    label.textContent = `Level ${level}/${maxLevel}`;
+    const pips = document.createElement('span');
+    pips.className = 'stage-select__stars';
+    pips.textContent = '◆'.repeat(level) + '◇'.repeat(maxLevel - level);
+    header.append(label, pips);
+
+    const name = document.createElement('h2');
+    name.textContent = upgrade.name;
+
+    const description = document.createElement('p');
+    description.className = 'stage-select__tagline';
+    description.textContent = upgrade.description;
+
+    const price = document.createElement('span');
+    price.className = 'upgrade-screen__cost';
+    price.textContent = cost === null ? 'Maxed' : `Upgrade · ${cost} Shards`;
+
+    button.append(header, name, description, price);
+    button.addEventListener('click', () => {
+      this.purchaseHandler?.(upgrade.id);
+    });
+    return button;
+  }
+}
@@ -0,0 +1,548 @@
+import { createArenaField } from '../game/entities/ArenaField';
+import { Bumper } from '../game/entities/Bumper';
+import type {
+  BumperConfig,
+  EnemyKind,
+  Vector2,
+  WaveBlueprint,
+  WaveEnemyConfig,
+} from '../game/types';
+import { getEnemyDefinition, listEnemyKinds } from '../game/entities/enemies';
+import { validateWaveBlueprint, type WavePackIssue } from '../game/waves/wavePacks';
+
+// The preview lays the wave out in the simulation's default arena.
+const ARENA_WIDTH = 720;
+const ARENA_HEIGHT = 1280;
+const BREACH_LINE = ARENA_HEIGHT - 180;
+const LANE_PADDING = 120;
+const LANE_COUNT = 6;
+const PREVIEW_SCALE = 0.3;
+
+const TIMELINE_ROW = 22;
+const TIMELINE_GUTTER = 118;
+const GROUP_COLORS = ['#58f7ff', '#ff8fe9', '#ffe57d', '#9ed1ff', '#7dffb5', '#ff9d5c', '#d5a8ff'];
+
+const NEW_BUMPERS: Record<BumperConfig['shape'], BumperConfig> = {
+  circle: { shape: 'circle', x: 0.5, y: 0.45 },
+  triangle: { shape: 'triangle', x: 0.5, y: 0.45 },
+  bar: { shape: 'bar', x: 0.5, y: 0.45 },
+};
+
+function createDefaultWave(): WaveBlueprint {
+  return {
+    waveId: 'EDIT-W1',
+    spawnSeconds: 20,
+    enemies: [{ type: 'GloobZigzag', hp: 4, lane: 3, count: 4, cadence: 2 }],
+    bumpers: [],
+  };
+}
+
+function laneX(lane: number) {
+  const step = (ARENA_WIDTH - LANE_PADDING * 2) / (LANE_COUNT - 1);
+  return LANE_PADDING + step * (lane - 1);
+}
+
+export class WaveEditor {
+  public readonly element: HTMLDivElement;
+
+  private wave: WaveBlueprint = createDefaultWave();
+  private readonly idInput: HTMLInputElement;
+  private readonly secondsInput: HTMLInputElement;
+  private readonly dropInput: HTMLInputElement;
+  private readonly groupList: HTMLDivElement;
+  private readonly preview: HTMLCanvasElement;
+  private readonly timeline: HTMLCanvasElement;
+  private readonly removeBumperButton: HTMLButtonElement;
+  private readonly rotateBumperButton: HTMLButtonElement;
+  private readonly status: HTMLUListElement;
+  private readonly importInput: HTMLInputElement;
+  private selectedBumper: number | null = null;
+  private dragPointer: number | null = null;
+  private testHandler?: (wave: WaveBlueprint) => void;
+  private backHandler?: () => void;
+
+  constructor() {
+    this.element = document.createElement('div');
+    this.element.className = 'wave-editor';
+    this.element.setAttribute('aria-hidden', 'true');
+
+    const panel = document.createElement('div');
+    panel.className = 'wave-editor__panel';
+
+    const heading = document.createElement('div');
+    heading.className = 'wave-editor__heading';
+    const title = document.createElement('h1');
+    title.textContent = 'Wave Editor';
+    const subtitle = document.createElement('p');
+    subtitle.textContent = 'Dev build only. Timings shown at wave 1 tuning.';
+    heading.append(title, subtitle);
+
+    const meta = document.createElement('div');
+    meta.className = 'wave-editor__meta';
+    this.idInput = this.createInput(meta, 'Wave ID', 'text');
+    this.secondsInput = this.createInput(meta, 'Spawn seconds', 'number', { min: 0, step: 1 });
+    this.dropInput = this.createInput(meta, 'Drop chance', 'number', {
+      min: 0,
+      max: 1,
+      step: 0.01,
+    });
+    this.idInput.addEventListener('input', () => {
+      this.wave.waveId = this.idInput.value;
+    });
+    this.secondsInput.addEventListener('input', () => {
+      this.wave.spawnSeconds = this.secondsInput.valueAsNumber;
+      this.drawTimeline();
+    });
+    this.dropInput.addEventListener('input', () => {
+      const chance = this.dropInput.valueAsNumber;
+      this.wave.powerupDropChance = Number.isNaN(chance) ? undefined : chance;
+    });
+
+    const body = document.createElement('div');
+    body.className = 'wave-editor__body';
+
+    const arenaColumn = document.createElement('div');
+    arenaColumn.className = 'wave-editor__arena';
+    this.preview = document.createElement('canvas');
+    this.preview.className = 'wave-editor__preview';
+    this.preview.width = ARENA_WIDTH * PREVIEW_SCALE;
+    this.preview.height = ARENA_HEIGHT * PREVIEW_SCALE;
+    this.preview.addEventListener('pointerdown', (event) => this.handlePointerDown(event));
+    this.preview.addEventListener('pointermove', (event) => this.handlePointerMove(event));
+    this.preview.addEventListener('pointerup', (event) => this.handlePointerUp(event));
+    this.preview.addEventListener('pointercancel', (event) => this.handlePointerUp(event));
+
+    const bumperTools = document.createElement('div');
+    bumperTools.className = 'wave-editor__tools';
+    for (const shape of ['circle', 'triangle', 'bar'] as const) {
+      this.createButton(bumperTools, `+ ${shape}`, () => this.addBumper(shape));
+    }
+    this.rotateBumperButton = this.createButton(bumperTools, 'Rotate', () => this.rotateBumper());
+    this.removeBumperButton = this.createButton(bumperTools, 'Remove', () => this.removeBumper());
+    arenaColumn.append(this.preview, bumperTools);
+
+    const groupColumn = document.createElement('div');
+    groupColumn.className = 'wave-editor__groups';
+    const groupHeader = document.createElement('div');
+    groupHeader.className = 'wave-editor__row wave-editor__row--header';
+    for (const label of ['Enemy', 'Lane', 'HP', 'Count', 'Cadence', '']) {
+      const cell = document.createElement('span');
+      cell.textContent = label;
+      groupHeader.appendChild(cell);
+    }
+    this.groupList = document.createElement('div');
+    this.groupList.className = 'wave-editor__group-list';
+    const addGroup = document.createElement('div');
+    addGroup.className = 'wave-editor__tools';
+    this.createButton(addGroup, '+ Enemy group', () => {
+      const last = this.wave.enemies[this.wave.enemies.length - 1];
+      this.wave.enemies.push(
+        last ? { ...last } : { type: 'GloobZigzag', hp: 4, lane: 3, count: 4, cadence: 2 },
+      );
+      this.refresh();
+    });
+
+    this.timeline = document.createElement('canvas');
+    this.timeline.className = 'wave-editor__timeline';
+    groupColumn.append(groupHeader, this.groupList, addGroup, this.timeline);
+    body.append(arenaColumn, groupColumn);
+
+    this.status = document.createElement('ul');
+    this.status.className = 'wave-editor__status';
+
+    this.importInput = document.createElement('input');
+    this.importInput.type = 'file';
+    this.importInput.accept = '.json,application/json';
+    this.importInput.hidden = true;
+    this.importInput.addEventListener('change', () => {
+      const file = this.importInput.files?.[0];
+      this.importInput.value = '';
+      if (file) {
+        void file.text().then((text) => this.importJson(text));
+      }
+    });
+
+    const actions = document.createElement('div');
+    actions.className = 'wave-editor__actions';
+    this.createButton(actions, 'Back', () => this.backHandler?.());
+    this.createButton(actions, 'Import JSON', () => this.importInput.click());
+    this.createButton(actions, 'Export JSON', () => this.exportJson());
+    const testButton = this.createButton(actions, 'Test Play', () => {
+      const wave = this.validate();
+      if (wave) {
+        this.testHandler?.(wave);
+      }
+    });
+    testButton.classList.add('wave-editor__test');
+
+    panel.append(heading, meta, body, this.status, actions, this.importInput);
+    this.element.append(panel);
+    this.refresh();
+  }
+
+  onTestPlay(handler: (wave: WaveBlueprint) => void) {
+    this.testHandler = handler;
+  }
+
+  onBack(handler: () => void) {
+    this.backHandler = handler;
+  }
+
+  show() {
+    this.element.classList.add('visible');
+    this.element.setAttribute('aria-hidden', 'false');
+    this.refresh();
+  }
+
+  hide() {
+    this.element.classList.remove('visible');
+    this.element.setAttribute('aria-hidden', 'true');
+  }
+
+  private refresh() {
+    this.idInput.value = this.wave.waveId;
+    this.secondsInput.value = String(this.wave.spawnSeconds);
+    this.dropInput.value =
+      this.wave.powerupDropChance === undefined ? '' : String(this.wave.powerupDropChance);
+    const fragment = document.createDocumentFragment();
+    this.wave.enemies.forEach((group, index) => {
+      fragment.appendChild(this.createGroupRow(group, index));
+    });
+    this.groupList.replaceChildren(fragment);
+    this.drawPreview();
+    this.drawTimeline();
+    this.syncBumperTools();
+  }
+
+  private createGroupRow(group: WaveEnemyConfig, index: number) {
+    const row = document.createElement('div');
+    row.className = 'wave-editor__row';
+    row.style.setProperty('--group-color', GROUP_COLORS[index % GROUP_COLORS.length]);
+
+    const type = document.createElement('select');
+    for (const kind of listEnemyKinds()) {
+      const option = document.createElement('option');
+      option.value = kind;
+      option.textContent = getEnemyDefinition(kind).name;
+      type.appendChild(option);
+    }
+    type.value = group.type;
+    type.addEventListener('change', () => {
+      group.type = type.value as EnemyKind;
+    });
+    row.appendChild(type);
+
+    const numberCell = (key: 'lane' | 'hp' | 'count' | 'cadence', min: number, step: number) => {
+      const input = document.createElement('input');
+      input.type = 'number';
+      input.min = String(min);
+      input.step = String(step);
+      if (key === 'lane') {
+        input.max = String(LANE_COUNT);
+      }
+      input.value = String(group[key]);
+      input.addEventListener('input', () => {
+        group[key] = input.valueAsNumber;
+        this.drawPreview();
+        this.drawTimeline();
+      });
+      row.appendChild(input);
+    };
+    numberCell('lane', 1, 0.5);
+    numberCell('hp', 1, 1);
+    numberCell('count', 1, 1);
+    numberCell('cadence', 0.1, 0.1);
+
+    const remove = document.createElement('button');
+    remove.type = 'button';
+    remove.textContent = '✕';
+    remove.setAttribute('aria-label', 'Remove group');
+    remove.addEventListener('click', () => {
+      this.wave.enemies.splice(index, 1);
+      this.refresh();
+    });
+    row.appendChild(remove);
+    return row;
+  }
+
+  private drawPreview() {
+    const ctx = this.preview.getContext('2d');
+    if (!ctx) return;
+    ctx.save();
+    ctx.setTransform(PREVIEW_SCALE, 0, 0, PREVIEW_SCALE, 0, 0);
+    ctx.fillStyle = '#080c1c';
+    ctx.fillRect(0, 0, ARENA_WIDTH, ARENA_HEIGHT);
+
+    ctx.strokeStyle = 'rgba(118, 169, 255, 0.16)';
+    ctx.lineWidth = 2;
+    for (let lane = 1; lane <= LANE_COUNT; lane++) {
+      ctx.beginPath();
+      ctx.moveTo(laneX(lane), 0);
+      ctx.lineTo(laneX(lane), BREACH_LINE);
+      ctx.stroke();
+    }
+    ctx.strokeStyle = 'rgba(255, 90, 110, 0.6)';
+    ctx.setLineDash([16, 12]);
+    ctx.beginPath();
+    ctx.moveTo(0, BREACH_LINE);
+    ctx.lineTo(ARENA_WIDTH, BREACH_LINE);
+    ctx.stroke();
+    ctx.setLineDash([]);
+
+    for (const config of this.wave.fields ?? []) {
+      createArenaField(config, ARENA_WIDTH, ARENA_HEIGHT).draw(ctx);
+    }
+    (this.wave.bumpers ?? []).forEach((config, index) => {
+      const bumper = new Bumper(config, ARENA_WIDTH, ARENA_HEIGHT);
+      bumper.draw(ctx);
+      if (index === this.selectedBumper) {
+        ctx.strokeStyle = '#ffffff';
+        ctx.lineWidth = 4;
+        ctx.setLineDash([10, 8]);
+        ctx.beginPath();
+        ctx.arc(bumper.position.x, bumper.position.y, bumper.radius + 14, 0, Math.PI * 2);
+        ctx.stroke();
+        ctx.setLineDash([]);
+      }
+    });
+
+    ctx.font = '700 34px Rajdhani, sans-serif';
+    ctx.textAlign = 'center';
+    this.wave.enemies.forEach((group, index) => {
+      if (!Number.isFinite(group.lane)) return;
+      const x = laneX(group.lane);
+      const y = 44 + (index % 3) * 40;
+      ctx.fillStyle = GROUP_COLORS[index % GROUP_COLORS.length];
+      ctx.beginPath();
+      ctx.moveTo(x - 16, y - 14);
+      ctx.lineTo(x + 16, y - 14);
+      ctx.lineTo(x, y + 10);
+      ctx.closePath();
+      ctx.fill();
+      ctx.fillText(`×${group.count}`, x, y + 44);
+    });
+    ctx.restore();
+  }
+
+  private drawTimeline() {
+    const ctx = this.timeline.getContext('2d');
+    if (!ctx) return;
+    const groups = this.wave.enemies;
+    const width = 440;
+    const height = Math.max(1, groups.length) * TIMELINE_ROW + 28;
+    this.timeline.width = width;
+    this.timeline.height = height;
+    const lastSpawn = groups.reduce(
+      (latest, group) => Math.max(latest, (group.count - 1) * group.cadence || 0),
+      0,
+    );
+    const span = Math.max(5, lastSpawn + 1, this.wave.spawnSeconds || 0);
+    const toX = (seconds: number) =>
+      TIMELINE_GUTTER + (seconds / span) * (width - TIMELINE_GUTTER - 12);
+
+    ctx.fillStyle = '#0b1026';
+    ctx.fillRect(0, 0, width, height);
+    ctx.font = '600 12px Rajdhani, sans-serif';
+    ctx.textBaseline = 'middle';
+    ctx.strokeStyle = 'rgba(118, 169, 255, 0.18)';
+    ctx.fillStyle = 'rgba(199, 216, 255, 0.7)';
+    ctx.textAlign = 'center';
+    for (let second = 0; second <= span; second += 5) {
+      const x = toX(second);
+      ctx.beginPath();
+      ctx.moveTo(x, 0);
+      ctx.lineTo(x, height - 18);
+      ctx.stroke();
+      ctx.fillText(`${second}s`, x, height - 9);
+    }
+    if (this.wave.spawnSeconds > 0) {
+      const x = toX(this.wave.spawnSeconds);
+      ctx.strokeStyle = 'rgba(255, 229, 125, 0.7)';
+      ctx.setLineDash([4, 4]);
+      ctx.beginPath();
+      ctx.moveTo(x, 0);
+      ctx.lineTo(x, height - 18);
+      ctx.stroke();
+      ctx.setLineDash([]);
+    }
+
+    groups.forEach((group, index) => {
+      const y = index * TIMELINE_ROW + TIMELINE_ROW / 2 + 4;
+      const color = GROUP_COLORS[index % GROUP_COLORS.length];
+      ctx.textAlign = 'left';
+      ctx.fillStyle = color;
+      ctx.fillText(`${group.type} · L${group.lane}`, 6, y);
+      if (!(group.cadence > 0) || !(group.count >= 1)) return;
+      for (let spawn = 0; spawn < group.count; spawn++) {
+        ctx.beginPath();
+        ctx.arc(toX(spawn * group.cadence), y, 4.5, 0, Math.PI * 2);
+        ctx.fill();
+      }
+    });
+  }
+
+  private toArena(event: PointerEvent): Vector2 {
+    const rect = this.preview.getBoundingClientRect();
+    return {
+      x: ((event.clientX - rect.left) / rect.width) * ARENA_WIDTH,
+      y: ((event.clientY - rect.top) / rect.height) * ARENA_HEIGHT,
+    };
+  }
+
+  private handlePointerDown(event: PointerEvent) {
+    const point = this.toArena(event);
+    const bumpers = this.wave.bumpers ?? [];
+    this.selectedBumper = null;
+    // Topmost (last drawn) bumper wins when they overlap.
+    for (let index = bumpers.length - 1; index >= 0; index--) {
+      const bumper = new Bumper(bumpers[index], ARENA_WIDTH, ARENA_HEIGHT);
+      if (Math.hypot(point.x - bumper.position.x, point.y - bumper.position.y) <= bumper.radius) {
+        this.selectedBumper = index;
+        this.dragPointer = event.pointerId;
+        this.preview.setPointerCapture(event.pointerId);
+        break;
+      }
+    }
+    this.drawPreview();
+    this.syncBumperTools();
+  }
+
+  private handlePointerMove(event: PointerEvent) {
+    if (event.pointerId !== this.dragPointer || this.selectedBumper === null) return;
+    const bumper = this.wave.bumpers?.[this.selectedBumper];
+    if (!bumper) return;
+    const point = this.toArena(event);
+    // Snapped to hundredths so exported layouts stay readable.
+    bumper.x = Math.round(Math.min(0.95, Math.max(0.05, point.x / ARENA_WIDTH)) * 100) / 100;
+    bumper.y = Math.round(Math.min(0.85, Math.max(0.1, point.y / ARENA_HEIGHT)) * 100) / 100;
+    this.drawPreview();
+  }
+
+  private handlePointerUp(event: PointerEvent) {
+    if (event.pointerId !== this.dragPointer) return;
+    this.dragPointer = null;
+    if (this.preview.hasPointerCapture(event.pointerId)) {
+      this.preview.releasePointerCapture(event.pointerId);
+    }
+  }
+
+  private addBumper(shape: BumperConfig['shape']) {
+    const bumpers = (this.wave.bumpers ??= []);
+    bumpers.push({ ...NEW_BUMPERS[shape] });
+    this.selectedBumper = bumpers.length - 1;
+    this.drawPreview();
+    this.syncBumperTools();
+  }
+
+  private rotateBumper() {
+    const bumper = this.selectedBumper === null ? null : this.wave.bumpers?.[this.selectedBumper];
+    if (!bumper) return;
+    const step = Math.PI / 12;
+    if (bumper.shape === 'triangle') {
+      bumper.rotation = ((bumper.rotation ?? 0) + step) % (Math.PI * 2);
+    } else if (bumper.shape === 'bar') {
+      bumper.angle = ((bumper.angle ?? 0) + step) % Math.PI;
+    }
+    this.drawPreview();
+  }
+
+  private removeBumper() {
+    if (this.selectedBumper === null) return;
+    this.wave.bumpers?.splice(this.selectedBumper, 1);
+    this.selectedBumper = null;
+    this.drawPreview();
+    this.syncBumperTools();
+  }
+
+  private syncBumperTools() {
+    const bumper = this.selectedBumper === null ? null : this.wave.bumpers?.[this.selectedBumper];
+    this.removeBumperButton.disabled = !bumper;
+    this.rotateBumperButton.disabled = !bumper || bumper.shape === 'circle';
+  }
+
+  private validate(): WaveBlueprint | null {
+    // Round-trip through JSON so the validator sees exactly what would be exported.
+    const { wave, issues } = validateWaveBlueprint(JSON.parse(JSON.stringify(this.wave)));
+    this.showIssues(issues);
+    return wave;
+  }
+
+  private showIssues(issues: WavePackIssue[], message = '') {
+    const fragment = document.createDocumentFragment();
+    if (message) {
+      const item = document.createElement('li');
+      item.textContent = message;
+      fragment.appendChild(item);
+    }
+    for (const issue of issues) {
+      const item = document.createElement('li');
+      item.className = 'is-error';
+      item.textContent = `${issue.path || '(root)'}: ${issue.message}`;
+      fragment.appendChild(item);
+    }
+    this.status.replaceChildren(fragment);
+  }
+
+  private exportJson() {
+    const wave = this.validate();
+    if (!wave) return;
+    const blob = new Blob([JSON.stringify(this.wave, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${wave.waveId}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+    this.showIssues([], `Exported ${wave.waveId}.json`);
+  }
+
+  // Accepts a single README-style wave or a wave pack, taking its first wave.
+  private importJson(text: string) {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(text);
+    } catch {
+      this.showIssues([{ path: '', message: 'not valid JSON' }]);
+      return;
+    }
+    if (raw && typeof raw === 'object' && Array.isArray((raw as { waves?: unknown }).waves)) {
+      raw = (raw as { waves: unknown[] }).waves[0];
+    }
+    const { wave, issues } = validateWaveBlueprint(raw);
+    if (!wave) {
+      this.showIssues(issues);
+      return;
+    }
+    this.wave = wave;
+    this.selectedBumper = null;
+    this.refresh();
+    this.showIssues([], `Imported ${wave.waveId}`);
+  }
+
+  private createInput(
+    parent: HTMLElement,
+    label: string,
+    type: 'text' | 'number',
+    limits: { min?: number; max?: number; step?: number } = {},
+  ) {
+    const wrapper = document.createElement('label');
+    wrapper.textContent = label;
+    const input = document.createElement('input');
+    input.type = type;
+    if (limits.min !== undefined) input.min = String(limits.min);
+    if (limits.max !== undefined) input.max = String(limits.max);
+    if (limits.step !== undefined) input.step = String(limits.step);
+    wrapper.appendChild(input);
+    parent.appendChild(wrapper);
+    return input;
+  }
+
+  private createButton(parent: HTMLElement, label: string, onClick: () => void) {
+    const button = document.createElement('button');
+    button.type = 'button';
+    button.textContent = label;
+    button.addEventListener('click', onClick);
+    parent.appendChild(button);
+    return button;
+  }
+}